@@ -0,0 +1,273 @@
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { NetworkSchema } from "x402/types";
+import { routeKey, type Registry } from "../config/registry";
+import type { LedgerStore, PaymentRecord } from "../ledger";
+import { atomicToUsd } from "../payments/pricing";
+import { RefundError, type RefundService } from "../refunds";
+import type { DeferredSettler } from "../settlement";
+import type { WebhookDispatcher } from "../webhooks";
+import { createWebhookRouter } from "../webhooks/router";
+import { facilitatorStats } from "./stats";
+
+// ============================================
+// Admin API
+// ============================================
+// Views over the payment ledger, behind a bearer token:
+//   GET /payments              - paginated, filterable payment records
+//   GET /payments.csv          - the same records as CSV (no pagination)
+//   GET /revenue               - settled revenue grouped by route, facilitator, network, day or tenant
+//   GET /facilitators/stats    - verify/settle success rates and latency percentiles
+//   GET /refunds               - payments whose handler failed after settlement, by refund status
+//   POST /refunds/:id/send     - send an owed or failed refund back to the payer
+//   GET /settlements           - deferred payments by queue status, with the amount queued
+//   POST /settlements/flush    - settle every due deferred payment now
+//   /webhooks                  - webhook endpoints and deliveries (see webhooks/router.ts)
+// `?tenant=<id>` narrows payments and revenue to one tenant, `?tenant=` to
+// the top-level routes.
+
+export interface AdminOptions {
+  /** Bearer token every request must present. */
+  token: string;
+  refunds?: RefundService;
+  webhooks?: WebhookDispatcher;
+  settler?: DeferredSettler;
+}
+
+const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "expected an ISO 8601 date or timestamp")
+  .transform((value) => new Date(value).toISOString());
+
+const RefundStatusSchema = z.enum(["owed", "sending", "refunded", "failed"]);
+
+const FilterQuerySchema = z.object({
+  tenant: z
+    .string()
+    .optional()
+    .transform((value) => (value === "" ? null : value)),
+  route: z.string().optional(),
+  facilitator: z.string().optional(),
+  network: NetworkSchema.optional(),
+  payer: z.string().optional(),
+  status: z.enum(["pending", "verified", "settled", "failed"]).optional(),
+  refundStatus: RefundStatusSchema.optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+const PaymentsQuerySchema = FilterQuerySchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const RevenueQuerySchema = FilterQuerySchema.omit({ status: true, refundStatus: true }).extend({
+  groupBy: z.enum(["route", "facilitator", "network", "day", "tenant"]).default("route"),
+});
+
+const RefundsQuerySchema = z.object({
+  status: RefundStatusSchema.default("owed"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const SettlementsQuerySchema = z.object({
+  status: z.enum(["queued", "settled", "failed", "expired", "unknown"]).default("queued"),
+  payer: z
+    .string()
+    .optional()
+    .transform((value) => value?.toLowerCase()),
+  route: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const StatsQuerySchema = z.object({
+  facilitator: z.string().optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+const CSV_COLUMNS: (keyof PaymentRecord)[] = [
+  "id",
+  "createdAt",
+  "tenant",
+  "route",
+  "price",
+  "amount",
+  "asset",
+  "network",
+  "payTo",
+  "payer",
+  "nonce",
+  "facilitator",
+  "status",
+  "verifyValid",
+  "verifyReason",
+  "txHash",
+  "failureReason",
+  "verifiedAt",
+  "settledAt",
+  "refundStatus",
+  "refundReason",
+  "refundAmount",
+  "refundTxHash",
+  "refundError",
+  "refundedAt",
+  "updatedAt",
+];
+
+export function createAdminRouter(registry: Registry, store: LedgerStore, { token, refunds, webhooks, settler }: AdminOptions): Router {
+  const router = Router();
+  router.use(requireToken(token));
+
+  if (webhooks) {
+    const routes = [...registry.routes, ...registry.tenants.flatMap((tenant) => tenant.routes)];
+    router.use("/webhooks", createWebhookRouter(webhooks, [...new Set(routes.map(routeKey))]));
+  }
+
+  router.get("/payments", async (req: Request, res: Response) => {
+    const query = parseQuery(PaymentsQuerySchema, req, res);
+    if (!query) return;
+    const { page, pageSize, ...filter } = query;
+
+    const [payments, total] = await Promise.all([
+      store.list({ ...filter, limit: pageSize, offset: (page - 1) * pageSize }),
+      store.count(filter),
+    ]);
+    res.json({ payments, page, pageSize, total, totalPages: Math.ceil(total / pageSize) });
+  });
+
+  router.get("/payments.csv", async (req: Request, res: Response) => {
+    const filter = parseQuery(FilterQuerySchema, req, res);
+    if (!filter) return;
+
+    const payments = await store.list(filter);
+    const lines = [CSV_COLUMNS.join(","), ...payments.map((p) => CSV_COLUMNS.map((c) => csvField(p[c])).join(","))];
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", 'attachment; filename="payments.csv"');
+    res.send(lines.join("\n") + "\n");
+  });
+
+  router.get("/revenue", async (req: Request, res: Response) => {
+    const query = parseQuery(RevenueQuerySchema, req, res);
+    if (!query) return;
+    const { groupBy, ...filter } = query;
+
+    const rows = await store.revenue(groupBy, filter);
+    const total = rows.reduce((sum, row) => sum + BigInt(row.amount), 0n).toString();
+    res.json({
+      groupBy,
+      revenue: rows.map((row) => ({ ...row, usd: atomicToUsd(row.amount) })),
+      total: { payments: rows.reduce((sum, row) => sum + row.payments, 0), amount: total, usd: atomicToUsd(total) },
+    });
+  });
+
+  router.get("/facilitators/stats", async (req: Request, res: Response) => {
+    const query = parseQuery(StatsQuerySchema, req, res);
+    if (!query) return;
+
+    const rows = await store.callStats(query);
+    const ids = query.facilitator ? [query.facilitator] : registry.facilitators.map((f) => f.id);
+    res.json({ from: query.from ?? null, to: query.to ?? null, facilitators: facilitatorStats(ids, rows) });
+  });
+
+  router.get("/refunds", async (req: Request, res: Response) => {
+    const query = parseQuery(RefundsQuerySchema, req, res);
+    if (!query) return;
+    const { status, page, pageSize } = query;
+
+    const [payments, total] = await Promise.all([
+      store.list({ refundStatus: status, limit: pageSize, offset: (page - 1) * pageSize }),
+      store.count({ refundStatus: status }),
+    ]);
+    res.json({ status, payments, page, pageSize, total, totalPages: Math.ceil(total / pageSize) });
+  });
+
+  router.post("/refunds/:paymentId/send", async (req: Request, res: Response) => {
+    if (!refunds) {
+      res.status(503).json({ error: "Refunds are not enabled" });
+      return;
+    }
+    try {
+      const payment = await refunds.send(req.params.paymentId);
+      // 202: broadcast but not confirmed yet
+      const status = payment.refundStatus === "refunded" ? 200 : payment.refundStatus === "sending" ? 202 : 502;
+      res.status(status).json({ payment });
+    } catch (error) {
+      if (!(error instanceof RefundError)) throw error;
+      res.status(error.status).json({ error: error.message });
+    }
+  });
+
+  router.get("/settlements", async (req: Request, res: Response) => {
+    if (!settler) {
+      res.status(503).json({ error: "No route defers settlement" });
+      return;
+    }
+    const query = parseQuery(SettlementsQuerySchema, req, res);
+    if (!query) return;
+    const { page, pageSize, ...filter } = query;
+
+    const [payments, total, queued] = await Promise.all([
+      settler.store.list({ ...filter, limit: pageSize, offset: (page - 1) * pageSize }),
+      settler.store.count(filter),
+      settler.store.list({ status: "queued" }),
+    ]);
+    const unsettled = queued.reduce((sum, p) => sum + BigInt(p.amount), 0n).toString();
+    res.json({
+      status: filter.status,
+      payments: payments.map(({ payment: _payment, requirements: _requirements, ...rest }) => rest),
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+      queued: { payments: queued.length, amount: unsettled, usd: atomicToUsd(unsettled) },
+    });
+  });
+
+  router.post("/settlements/flush", async (_req: Request, res: Response) => {
+    if (!settler) {
+      res.status(503).json({ error: "No route defers settlement" });
+      return;
+    }
+    res.json(await settler.flush());
+  });
+
+  return router;
+}
+
+function requireToken(token: string) {
+  const expected = Buffer.from(token);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const match = /^Bearer (.+)$/.exec(req.header("Authorization") ?? "");
+    const presented = Buffer.from(match?.[1] ?? "");
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="admin"');
+      res.status(401).json({ error: "Unauthorized", message: "A valid admin bearer token is required" });
+      return;
+    }
+    next();
+  };
+}
+
+function parseQuery<T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.infer<T> | undefined {
+  const result = schema.safeParse(req.query);
+  if (!result.success) {
+    res.status(400).json({
+      error: "Invalid query",
+      issues: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+    });
+    return undefined;
+  }
+  return result.data;
+}
+
+/** Quotes a CSV value; one a spreadsheet would run as a formula gets a leading `'`. */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const raw = String(value);
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,55 @@
+import type { FacilitatorAction } from "../facilitators/failover";
+import type { CallStatsRow } from "../ledger";
+
+// ============================================
+// Facilitator call statistics
+// ============================================
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface ActionStats {
+  calls: number;
+  succeeded: number;
+  rejected: number;
+  errors: number;
+  /** Share of calls that verified or settled the payment, 0..1 (null without calls). */
+  successRate: number | null;
+  /** Latency in milliseconds (null without calls). */
+  latencyMs: LatencyPercentiles | null;
+  lastError: { at: string; error: string } | null;
+}
+
+export type FacilitatorStats = Record<FacilitatorAction, ActionStats>;
+
+const ACTIONS: FacilitatorAction[] = ["verify", "settle"];
+
+/** Stats per facilitator and action from the store's rows. Every id in `facilitatorIds` gets an entry. */
+export function facilitatorStats(facilitatorIds: string[], rows: CallStatsRow[]): Record<string, FacilitatorStats> {
+  const stats: Record<string, FacilitatorStats> = {};
+  for (const id of new Set([...facilitatorIds, ...rows.map((row) => row.facilitator)])) {
+    stats[id] = {} as FacilitatorStats;
+    for (const action of ACTIONS) {
+      stats[id][action] = actionStats(rows.find((row) => row.facilitator === id && row.action === action));
+    }
+  }
+  return stats;
+}
+
+function actionStats(row: CallStatsRow | undefined): ActionStats {
+  if (!row) {
+    return { calls: 0, succeeded: 0, rejected: 0, errors: 0, successRate: null, latencyMs: null, lastError: null };
+  }
+  return {
+    calls: row.calls,
+    succeeded: row.succeeded,
+    rejected: row.rejected,
+    errors: row.errors,
+    successRate: row.succeeded / row.calls,
+    latencyMs: { p50: row.p50, p90: row.p90, p99: row.p99 },
+    lastError: row.lastErrorAt ? { at: row.lastErrorAt, error: row.lastError ?? "unknown error" } : null,
+  };
+}
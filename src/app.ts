@@ -0,0 +1,443 @@
+import express, { Express, Request, Response } from "express";
+import cors from "cors";
+import { routeKey, type Registry } from "./config/registry";
+import { FacilitatorPool } from "./facilitators/failover";
+import { FacilitatorHealthMonitor } from "./facilitators/health";
+import { paymentMiddleware } from "./payments/middleware";
+import { IdempotencyCache } from "./payments/idempotency";
+import { usageMeter } from "./payments/context";
+import { PaymentLedger, createLedgerStore } from "./ledger";
+import { createAdminRouter } from "./admin/router";
+import { WebhookDispatcher, createWebhookDispatcher } from "./webhooks";
+import { RefundService, createRefundService } from "./refunds";
+import { PaymentPolicy, createPaymentPolicy } from "./policy";
+import { CreditAccounts, createCreditStore, createCreditTokenSigner } from "./credits";
+import { createCreditsRouter } from "./credits/router";
+import { DeferredSettler, createDeferredSettler } from "./settlement";
+import { Tenant, publicOrigin, routeMatcher, tenantOf, tenantResolver } from "./tenants";
+import { healthDocument, infoDocument, readinessDocument, tenancySection } from "./server/documents";
+import { openApiDocument, wellKnownDocument } from "./server/discovery";
+import { log, requestLogging } from "./observability/logger";
+import { metricsHandler, observeFacilitatorCall } from "./observability/metrics";
+
+// ============================================
+// Merchant app
+// ============================================
+
+export interface MerchantApp {
+  app: Express;
+  ledger: PaymentLedger;
+  facilitatorPool: FacilitatorPool;
+  healthMonitor: FacilitatorHealthMonitor;
+  webhooks: WebhookDispatcher;
+  refunds: RefundService;
+  /** Set when a route defers settlement. */
+  settler?: DeferredSettler;
+  /** Stops the background timers (health probes, webhook delivery, deferred settlement). */
+  close(): void;
+}
+
+/**
+ * Builds the merchant server for a registry: middleware, the paid and free
+ * routes, admin API and error handlers. Stores, secrets and tuning come
+ * from `env`. Throws if a payer list in the registry cannot be read.
+ * Listening is left to the caller (src/index.ts, or a test).
+ */
+export function createApp(registry: Registry, env: NodeJS.ProcessEnv = process.env): MerchantApp {
+  const app = express();
+
+  // Behind a reverse proxy, take the client IP (per-IP rate limits) from X-Forwarded-For
+  if (env.TRUST_PROXY) {
+    const trust = env.TRUST_PROXY;
+    app.set("trust proxy", /^\d+$/.test(trust) ? Number(trust) : trust === "true" ? true : trust);
+  }
+
+  // Middleware
+  // Correlation id (X-Request-Id) and one JSON log line per request, see LOG_LEVEL
+  app.use(requestLogging());
+  app.use(cors());
+  app.use(express.json());
+
+  // Tenants (registry `tenants`), told apart by X-Api-Key, path prefix or subdomain
+  const tenants = registry.tenants.map((definition) => new Tenant(definition, registry));
+  if (tenants.length > 0) {
+    app.use(tenantResolver(tenants));
+  }
+
+  // Payment ledger (SQLite by default, see LEDGER_STORE / LEDGER_PATH)
+  const ledger = new PaymentLedger(createLedgerStore(env));
+
+  // x402 payments for every paid route, with failover across each route's facilitators
+  const facilitatorPool = new FacilitatorPool(registry);
+  facilitatorPool.onCall((call) => ledger.recordCall(call));
+  facilitatorPool.onCall(observeFacilitatorCall);
+
+  // Refunds for payments whose handler failed after settlement (REFUND_EVM_PRIVATE_KEY, REFUNDS_AUTO)
+  const refunds = createRefundService(ledger.store, env);
+
+  // Metered routes settle the full price and refund the unused part, so that refund must go out on its own
+  for (const route of [...registry.routes, ...registry.tenants.flatMap((tenant) => tenant.routes)]) {
+    const unrefunded = route.metering && route.accepts.find((option) => !refunds.sendsAutomatically(option.network));
+    if (unrefunded) {
+      throw new Error(
+        `route "${routeKey(route)}" is metered, so ${unrefunded.network} refunds must be sent automatically (set REFUND_EVM_PRIVATE_KEY and REFUNDS_AUTO=true)`
+      );
+    }
+  }
+
+  // Batched settlement for `settlement: deferred` routes (registry `deferredSettlement`, SETTLEMENT_STORE / SETTLEMENT_PATH)
+  const settler = createDeferredSettler(registry, facilitatorPool, ledger, env);
+  settler?.start();
+
+  // Prepaid credit balances, spent with the token returned by POST /credits/topup
+  const credits = new CreditAccounts(createCreditStore(env), createCreditTokenSigner(env));
+
+  // Rate limits, allow/deny lists and daily spend caps (registry `policy` and route `limits`)
+  let policy: PaymentPolicy;
+  try {
+    policy = createPaymentPolicy(registry, ledger.store, { queue: settler?.store, credits: credits.store });
+  } catch (error) {
+    throw new Error(`could not load payer lists (${error instanceof Error ? error.message : error})`);
+  }
+
+  // Signed webhooks for verified, settled and failed payments (registered via /admin/webhooks)
+  const webhooks = createWebhookDispatcher(env);
+  ledger.onChange(async (record) =>
+    webhooks.publish(record, record.tenant === null ? [] : await ledger.store.listShares(record.id))
+  );
+  webhooks.start();
+
+  // Periodic facilitator probes behind /health (HEALTH_PROBE_INTERVAL_MS / HEALTH_PROBE_TIMEOUT_MS)
+  const healthMonitor = new FacilitatorHealthMonitor(registry, facilitatorPool, {
+    intervalMs: Number(env.HEALTH_PROBE_INTERVAL_MS || 30_000),
+    timeoutMs: Number(env.HEALTH_PROBE_TIMEOUT_MS || 5_000),
+  });
+  healthMonitor.start();
+
+  // Successful paid responses are replayed for retries with the same Idempotency-Key
+  const idempotencyTtlMs = Number(env.IDEMPOTENCY_TTL_SECONDS || 24 * 60 * 60) * 1000;
+  const idempotency = new IdempotencyCache({ ttlMs: idempotencyTtlMs });
+
+  const payments = paymentMiddleware(registry, facilitatorPool, { ledger, idempotency, credits, refunds, policy, settler });
+
+  // Each tenant's catalog is paid to its own addresses; credits are top-level only
+  const tenantPayments = new Map(
+    tenants.map((tenant) => [
+      tenant.id,
+      paymentMiddleware(tenant.registry, facilitatorPool, {
+        ledger,
+        idempotency: new IdempotencyCache({ ttlMs: idempotencyTtlMs }),
+        refunds,
+        policy: policy.forTenant(tenant.id),
+        tenant,
+        settler,
+      }),
+    ])
+  );
+
+  // A paid route is only served to requests for a catalog that sells it
+  const rootSells = routeMatcher(registry.routes);
+  const anyoneSells = routeMatcher([...registry.routes, ...registry.tenants.flatMap((tenant) => tenant.routes)]);
+  app.use((req: Request, res: Response, next) => {
+    const tenant = tenantOf(res);
+    if (anyoneSells(req) && !(tenant ? tenant.sells(req) : rootSells(req))) {
+      notFound(req, res);
+      return;
+    }
+    return tenant ? tenantPayments.get(tenant.id)!(req, res, next) : payments(req, res, next);
+  });
+
+  // Revenue per tenant for / and /health, when there are tenants
+  const tenancy = async (tenant?: Tenant) =>
+    tenants.length > 0 ? tenancySection(registry, await ledger.store.revenue("tenant"), tenant?.id) : undefined;
+
+  // ============================================
+  // Public Endpoints (no payment required)
+  // ============================================
+
+  // Health checks, answered from cached /supported probes of every facilitator
+  app.get("/health", async (_req: Request, res: Response) => {
+    const tenant = tenantOf(res);
+    const report = healthMonitor.report(tenant?.definition.routes);
+    res
+      .status(report.status === "unhealthy" ? 503 : 200)
+      .json(healthDocument(tenant?.registry ?? registry, report, await tenancy(tenant)));
+  });
+
+  app.get("/health/live", (_req: Request, res: Response) => {
+    res.json({ status: "alive", uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  app.get("/health/ready", (_req: Request, res: Response) => {
+    const report = healthMonitor.report(tenantOf(res)?.definition.routes);
+    const ready = report.status === "healthy" || report.status === "degraded";
+    res.status(ready ? 200 : 503).json(readinessDocument(report));
+  });
+
+  // Info endpoint - describes available paid services
+  app.get("/", async (_req: Request, res: Response) => {
+    const tenant = tenantOf(res);
+    res.json(infoDocument(tenant?.registry ?? registry, await tenancy(tenant)));
+  });
+
+  // x402 discovery document and OpenAPI spec, generated from the registry (or the tenant's catalog)
+  app.get("/.well-known/x402", async (req: Request, res: Response) => {
+    const tenant = tenantOf(res);
+    const catalog = tenant?.registry ?? registry;
+    res.json(await wellKnownDocument(catalog, facilitatorPool, publicOrigin(req, res), { credits: !tenant }));
+  });
+
+  app.get("/openapi.json", async (req: Request, res: Response) => {
+    const tenant = tenantOf(res);
+    const catalog = tenant?.registry ?? registry;
+    res.json(await openApiDocument(catalog, facilitatorPool, publicOrigin(req, res), { credits: !tenant }));
+  });
+
+  // Prometheus metrics: challenges, facilitator calls, payments and revenue
+  app.get("/metrics", metricsHandler);
+
+  // Prepaid credits: top-up (paid), balance and remaining calls (credit token)
+  app.use("/credits", createCreditsRouter(registry, credits));
+
+  // ============================================
+  // Admin API (bearer token, enabled by ADMIN_TOKEN)
+  // ============================================
+
+  const adminToken = env.ADMIN_TOKEN;
+  if (adminToken) {
+    app.use("/admin", createAdminRouter(registry, ledger.store, { token: adminToken, refunds, webhooks, settler }));
+  }
+
+  // ============================================
+  // Protected Endpoints (payment required)
+  // ============================================
+
+  // Weather data endpoint
+  app.get("/api/weather", (_req: Request, res: Response) => {
+    // Simulated weather data - in production, integrate with a real weather API
+    const weatherData = {
+      location: "San Francisco, CA",
+      temperature: 68,
+      temperatureUnit: "F",
+      conditions: "Partly Cloudy",
+      humidity: 65,
+      windSpeed: 12,
+      windUnit: "mph",
+      forecast: [
+        { day: "Today", high: 70, low: 55, conditions: "Partly Cloudy" },
+        { day: "Tomorrow", high: 72, low: 57, conditions: "Sunny" },
+        { day: "Day After", high: 68, low: 54, conditions: "Foggy" },
+      ],
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json({
+      success: true,
+      data: weatherData,
+      message: "Weather data retrieved successfully",
+    });
+  });
+
+  // Computation service endpoint (Dexter/Solana)
+  app.post("/api/compute", (req: Request, res: Response) => {
+    const { operation, input, parameters, computeUnits = 1 } = req.body;
+
+    // Simulated computation - in production, run actual computations
+    const computeResult = {
+      operationId: `op_${Date.now()}`,
+      operation: operation || "default_compute",
+      input: input,
+      parameters: parameters || {},
+      result: {
+        status: "completed",
+        output: {
+          computed: true,
+          value: Math.random() * 1000,
+          precision: 6,
+        },
+        metrics: {
+          cpuTime: "156ms",
+          memoryUsed: "24MB",
+          gpuUtilization: "45%",
+        },
+      },
+      billingInfo: {
+        computeUnits: Number(computeUnits),
+        pricePerUnit: "$0.05",
+      },
+      completedAt: new Date().toISOString(),
+    };
+
+    res.json({
+      success: true,
+      data: computeResult,
+      message: "Computation completed successfully",
+    });
+  });
+
+  // ============================================
+  // Heurist AI Endpoints (payment required)
+  // ============================================
+
+  // AI Image generation endpoint
+  app.post("/api/ai/image", (req: Request, res: Response) => {
+    const { prompt, style, size } = req.body;
+
+    // Simulated AI image generation - in production, integrate with Heurist AI
+    const imageResult = {
+      requestId: `img_${Date.now()}`,
+      prompt: prompt || "A beautiful landscape",
+      style: style || "realistic",
+      size: size || "1024x1024",
+      imageUrl: `https://placeholder.heurist.ai/generated/${Date.now()}.png`,
+      metadata: {
+        model: "heurist-diffusion-v1",
+        steps: 50,
+        guidance: 7.5,
+        seed: Math.floor(Math.random() * 1000000),
+      },
+      generatedAt: new Date().toISOString(),
+    };
+
+    res.json({
+      success: true,
+      data: imageResult,
+      message: "Image generated successfully",
+    });
+  });
+
+  // ============================================
+  // Coinbase Data Endpoint (payment required)
+  // ============================================
+
+  // Premium data service endpoint
+  app.get("/api/data", (_req: Request, res: Response) => {
+    // Simulated premium data - in production, integrate with real data sources
+    const dataResult = {
+      requestId: `data_${Date.now()}`,
+      category: "market_intelligence",
+      data: {
+        cryptoMarket: {
+          totalMarketCap: "$2.1T",
+          btcDominance: "52.3%",
+          ethDominance: "17.8%",
+          trending: ["BTC", "ETH", "SOL", "BASE"],
+        },
+        defiMetrics: {
+          totalTvl: "$89.5B",
+          topProtocols: ["Lido", "Aave", "MakerDAO", "Uniswap"],
+          avgApy: "4.2%",
+        },
+        sentiment: {
+          overall: "bullish",
+          fearGreedIndex: 67,
+          socialVolume: "high",
+        },
+      },
+      metadata: {
+        source: "coinbase-aggregator",
+        freshness: "real-time",
+        confidence: 0.95,
+      },
+      generatedAt: new Date().toISOString(),
+    };
+
+    res.json({
+      success: true,
+      data: dataResult,
+      message: "Premium data retrieved successfully",
+    });
+  });
+
+  // ============================================
+  // Daydreams Agent Endpoint (payment required)
+  // ============================================
+
+  // Agent task execution endpoint
+  app.post("/api/agent/task", (req: Request, res: Response) => {
+    const { taskType, instructions, context } = req.body;
+
+    // Simulated agent task execution - in production, integrate with Daydreams
+    const taskResult = {
+      taskId: `task_${Date.now()}`,
+      taskType: taskType || "general",
+      instructions: instructions || "Execute default task",
+      context: context || {},
+      result: {
+        status: "completed",
+        output: {
+          response: "Task executed successfully by Daydreams agent",
+          actions: ["analyzed_input", "processed_request", "generated_response"],
+          confidence: 0.92,
+        },
+        metadata: {
+          agentVersion: "daydreams-v1",
+          executionTime: "234ms",
+          tokensUsed: 150,
+        },
+      },
+      completedAt: new Date().toISOString(),
+    };
+
+    // When the route is metered, the tokens used are what gets charged
+    const meter = usageMeter(res);
+    if (meter?.streaming) {
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      const tokensPerAction = taskResult.result.metadata.tokensUsed / taskResult.result.output.actions.length;
+      for (const action of taskResult.result.output.actions) {
+        if (!meter.record(tokensPerAction)) break;
+        res.write(`event: step\ndata: ${JSON.stringify({ action, tokensUsed: meter.units })}\n\n`);
+      }
+      res.write(`event: result\ndata: ${JSON.stringify(taskResult)}\n\n`);
+      res.end();
+      return;
+    }
+    meter?.record(taskResult.result.metadata.tokensUsed);
+
+    res.json({
+      success: true,
+      data: taskResult,
+      message: "Agent task completed successfully",
+    });
+  });
+
+  // ============================================
+  // Error handling
+  // ============================================
+
+  app.use((err: Error, req: Request, res: Response, _next: Function) => {
+    log.error("unhandled error", { method: req.method, path: req.path, error: err });
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: err.message,
+    });
+  });
+
+  // 404 handler
+  app.use(notFound);
+
+  return {
+    app,
+    ledger,
+    facilitatorPool,
+    healthMonitor,
+    webhooks,
+    refunds,
+    settler,
+    close: () => {
+      healthMonitor.stop();
+      webhooks.stop();
+      settler?.stop();
+    },
+  };
+}
+
+function notFound(_req: Request, res: Response): void {
+  res.status(404).json({
+    success: false,
+    error: "Not found",
+    message: "The requested endpoint does not exist",
+  });
+}
@@ -0,0 +1,86 @@
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { decode } from "./cli/decode";
+import { discover } from "./cli/discover";
+import { UsageError, errorMessage, parseMethod, parseUrl } from "./cli/format";
+import { pay } from "./cli/pay";
+import { quote } from "./cli/quote";
+import { smoke } from "./cli/smoke";
+
+const USAGE = `x402 command line client
+
+Usage:
+  npm run cli -- discover <url>                 List a server's paid resources
+  npm run cli -- quote <method> <url>           Show the 402 payment requirements without paying
+  npm run cli -- pay <method> <url>             Make one paid request
+  npm run cli -- decode <header>                Decode an X-PAYMENT or X-PAYMENT-RESPONSE value
+  npm run cli -- smoke [url]                    Call every demo endpoint, paying where asked
+
+Options:
+  -d, --data <json|@file>    Request body (quote, pay)
+  -H, --header <"Name: v">   Extra request header, repeatable (quote, pay)
+  -n, --network <network>    Pay only on this network (pay, smoke)
+  -m, --max-price <$amount>  Most one request may cost (pay, smoke; default CLIENT_MAX_PER_REQUEST)
+  -s, --strategy <name>      cheapest, network or balance (pay, smoke; default CLIENT_STRATEGY)
+      --json                 Print JSON instead of text
+  -h, --help                 Show this help
+
+Wallets come from EVM_PRIVATE_KEY and SOLANA_PRIVATE_KEY, limits from the
+CLIENT_* variables (see .env.example). smoke defaults to MERCHANT_URL.
+Exit codes: 0 success, 1 failed request or check, 2 bad arguments.`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      data: { type: "string", short: "d" },
+      header: { type: "string", short: "H", multiple: true },
+      network: { type: "string", short: "n" },
+      "max-price": { type: "string", short: "m" },
+      strategy: { type: "string", short: "s" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const request = { data: values.data, headers: values.header, json: values.json };
+  const payment = { network: values.network, maxPrice: values["max-price"], strategy: values.strategy };
+
+  switch (command) {
+    case "discover":
+      await discover(parseUrl(args[0]), request);
+      return 0;
+    case "quote":
+      await quote(parseMethod(args[0]), parseUrl(args[1]), request);
+      return 0;
+    case "pay":
+      return (await pay(parseMethod(args[0]), parseUrl(args[1]), { ...request, ...payment })) ? 0 : 1;
+    case "decode":
+      if (!args[0]) throw new UsageError("decode needs a header value");
+      decode(args[0], request);
+      return 0;
+    case "smoke": {
+      const url = parseUrl(args[0] ?? process.env.MERCHANT_URL ?? "http://localhost:4021");
+      return (await smoke(url, { ...payment, json: values.json })) ? 0 : 1;
+    }
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`Error: ${errorMessage(error)}`);
+      console.error("Run with --help for usage.");
+      process.exit(2);
+    }
+    console.error(`❌ ${errorMessage(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,61 @@
+import { safeBase64Decode } from "x402/shared";
+import { ExactEvmPayloadSchema, PaymentPayloadSchema, SettleResponseSchema } from "x402/types";
+import { atomicToUsd } from "../payments/pricing";
+import { UsageError, printJson } from "./format";
+
+// ============================================
+// decode <header>
+// ============================================
+
+/**
+ * Decodes an X-PAYMENT or X-PAYMENT-RESPONSE value. A whole header line
+ * ("X-PAYMENT: eyJ...") is accepted too.
+ */
+export function decode(value: string, { json = false }: { json?: boolean }): void {
+  const encoded = value.replace(/^\s*x-payment(-response)?\s*:\s*/i, "").trim();
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(safeBase64Decode(encoded));
+  } catch {
+    throw new UsageError("Not a base64-encoded JSON header value");
+  }
+  if (json) return printJson(decoded);
+
+  const payment = PaymentPayloadSchema.safeParse(decoded);
+  if (payment.success) {
+    const { x402Version, scheme, network, payload } = payment.data;
+    console.log(`💳 X-PAYMENT (x402 v${x402Version}, ${scheme} on ${network})`);
+    const evm = ExactEvmPayloadSchema.safeParse(payload);
+    if (evm.success) {
+      const { authorization, signature } = evm.data;
+      console.log(`   From:         ${authorization.from}`);
+      console.log(`   To:           ${authorization.to}`);
+      console.log(`   Value:        ${authorization.value} (${atomicToUsd(authorization.value)} if USDC)`);
+      console.log(`   Valid after:  ${timestamp(authorization.validAfter)}`);
+      console.log(`   Valid before: ${timestamp(authorization.validBefore)}`);
+      console.log(`   Nonce:        ${authorization.nonce}`);
+      console.log(`   Signature:    ${signature}`);
+    } else {
+      const { transaction } = payload as { transaction: string };
+      console.log(`   Transaction:  ${transaction.length} base64 characters, partially signed by the payer`);
+    }
+    return;
+  }
+
+  const settlement = SettleResponseSchema.safeParse(decoded);
+  if (settlement.success) {
+    const { success, transaction, network, payer, errorReason } = settlement.data;
+    console.log(`🧾 X-PAYMENT-RESPONSE (${success ? "settled" : "not settled"} on ${network})`);
+    console.log(`   Transaction:  ${transaction || "-"}`);
+    if (payer) console.log(`   Payer:        ${payer}`);
+    if (errorReason) console.log(`   Error:        ${errorReason}`);
+    return;
+  }
+
+  console.log("ℹ️  Not an x402 payment or settlement; decoded JSON:");
+  printJson(decoded);
+}
+
+function timestamp(seconds: string): string {
+  return `${seconds} (${new Date(Number(seconds) * 1000).toISOString()})`;
+}
@@ -0,0 +1,45 @@
+import type { PaymentRequirements } from "x402/types";
+import { describeAmount, printJson } from "./format";
+
+// ============================================
+// discover <url>
+// ============================================
+
+interface DiscoveryItem {
+  resource: string;
+  accepts: (PaymentRequirements & { price?: string; facilitator?: string })[];
+  metadata?: { method?: string; description?: string };
+}
+
+/**
+ * Lists the server's paid resources from `/.well-known/x402`, or prints its
+ * info document (`GET /`) when it has no discovery document.
+ */
+export async function discover(url: URL, { json = false }: { json?: boolean }): Promise<void> {
+  const wellKnown = new URL("/.well-known/x402", url.origin);
+  const response = await fetch(wellKnown);
+
+  if (!response.ok) {
+    if (!json) console.log(`ℹ️  ${wellKnown} answered ${response.status}; showing the info document instead\n`);
+    const info = await fetch(url.origin);
+    printJson(await info.json().catch(() => ({ status: info.status, body: "not JSON" })));
+    return;
+  }
+
+  const document = (await response.json()) as { items?: DiscoveryItem[] };
+  if (json) return printJson(document);
+
+  const items = document.items ?? [];
+  console.log(`🔎 ${items.length} paid resource${items.length === 1 ? "" : "s"} at ${url.origin}\n`);
+  for (const { resource, accepts, metadata } of items) {
+    console.log(`${metadata?.method ?? "?"} ${resource}`);
+    if (metadata?.description) console.log(`   ${metadata.description}`);
+    for (const option of accepts) {
+      const price = option.price ?? describeAmount(option.maxAmountRequired, option.network, option.asset);
+      const via = option.facilitator ? ` via ${option.facilitator}` : "";
+      console.log(`   - ${price} on ${option.network}${via}`);
+    }
+    if (accepts.length === 0) console.log("   - no payment option available right now");
+    console.log("");
+  }
+}
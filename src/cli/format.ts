@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import { getDefaultAsset } from "x402/shared";
+import type { Network, PaymentRequirements } from "x402/types";
+import { atomicToUsd } from "../payments/pricing";
+import { normalizeAddress } from "../policy/lists";
+
+// ============================================
+// CLI input and output helpers
+// ============================================
+
+/** Bad arguments: the CLI prints the message and the usage, and exits with 2. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+/** Options every request-making command takes. */
+export interface RequestOptions {
+  data?: string;
+  headers?: string[];
+  json?: boolean;
+}
+
+export function parseMethod(method: string | undefined): string {
+  const upper = method?.toUpperCase();
+  if (!upper || !HTTP_METHODS.includes(upper as (typeof HTTP_METHODS)[number])) {
+    throw new UsageError(`Expected an HTTP method (${HTTP_METHODS.join(", ")}), got "${method ?? ""}"`);
+  }
+  return upper;
+}
+
+export function parseUrl(url: string | undefined): URL {
+  try {
+    return new URL(url ?? "");
+  } catch {
+    throw new UsageError(`Expected an absolute URL, got "${url ?? ""}"`);
+  }
+}
+
+/** `--header "Name: value"`, repeatable. */
+export function parseHeaders(values: string[] = []): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(":");
+    if (separator <= 0) throw new UsageError(`Expected --header "Name: value", got "${value}"`);
+    headers[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+/** `--data` as in curl: a JSON body, or `@path` to read it from a file. */
+export function parseData(data: string | undefined): unknown {
+  if (data === undefined) return undefined;
+  const text = data.startsWith("@") ? readFileSync(data.slice(1), "utf8") : data;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError("--data must be JSON (or @file with JSON)");
+  }
+}
+
+/** "$0.010000 USDC" for the network's USDC, atomic units otherwise. */
+export function describeAmount(amount: string, network: Network, asset: string): string {
+  try {
+    if (normalizeAddress(getDefaultAsset(network).address) === normalizeAddress(asset)) {
+      return `${atomicToUsd(amount)} USDC`;
+    }
+  } catch {
+    // not a network with a default asset
+  }
+  return `${amount} atomic units of ${asset}`;
+}
+
+export function printRequirements(accepts: PaymentRequirements[]): void {
+  accepts.forEach((requirements, i) => {
+    const { scheme, network, maxAmountRequired, asset, payTo, description, maxTimeoutSeconds, extra } = requirements;
+    console.log(`  [${i + 1}] ${describeAmount(maxAmountRequired, network, asset)} on ${network} (${scheme})`);
+    console.log(`      Pay to:  ${payTo}`);
+    console.log(`      Asset:   ${asset}`);
+    if (description) console.log(`      About:   ${description}`);
+    console.log(`      Timeout: ${maxTimeoutSeconds}s`);
+    if (extra && Object.keys(extra).length > 0) console.log(`      Extra:   ${JSON.stringify(extra)}`);
+  });
+}
+
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,59 @@
+import type { AxiosError, AxiosResponse } from "axios";
+import { decodeXPaymentResponse } from "x402/shared";
+import { SpendingPolicyError } from "../client";
+import { describeAmount, errorMessage, parseData, parseHeaders, printJson, type RequestOptions } from "./format";
+import { createPayingClient, type PayingClientOptions } from "./paying-client";
+
+// ============================================
+// pay <method> <url>
+// ============================================
+
+/** Makes one paid request and reports the response, settlement and spend. Resolves false if it failed. */
+export async function pay(
+  method: string,
+  url: URL,
+  options: RequestOptions & PayingClientOptions
+): Promise<boolean> {
+  const { http, policy } = await createPayingClient(options);
+  const data = parseData(options.data);
+
+  let response: AxiosResponse | undefined;
+  let failure: unknown;
+  try {
+    response = await http.request({ method, url: url.toString(), data, headers: parseHeaders(options.headers) });
+  } catch (error) {
+    failure = error;
+    response = (error as AxiosError).response;
+  }
+
+  const settlementHeader = response?.headers["x-payment-response"];
+  const settlement = typeof settlementHeader === "string" ? decodeXPaymentResponse(settlementHeader) : undefined;
+  const spends = policy.log.list();
+  const ok = !failure;
+
+  if (options.json) {
+    printJson({ ok, status: response?.status, settlement, body: response?.data, spends });
+    return ok;
+  }
+
+  if (failure instanceof SpendingPolicyError) {
+    console.log(`🛑 Not paid: ${failure.message} (${failure.code})`);
+  } else if (!response) {
+    console.log(`❌ ${method} ${url} failed: ${errorMessage(failure)}`);
+  } else {
+    console.log(`${ok ? "✅" : "❌"} ${method} ${url} answered ${response.status}`);
+  }
+  for (const spend of spends) {
+    if (spend.status === "refused" || !spend.amount || !spend.network || !spend.asset) continue;
+    console.log(`💰 ${spend.status}: ${describeAmount(spend.amount, spend.network, spend.asset)} on ${spend.network} to ${spend.payTo}`);
+  }
+  if (settlement) {
+    console.log(`🧾 Settlement: ${settlement.success ? "success" : "failed"}, transaction ${settlement.transaction}`);
+    console.log(`   Payer: ${settlement.payer}`);
+  }
+  if (response) {
+    console.log("");
+    console.log(typeof response.data === "string" ? response.data : JSON.stringify(response.data, null, 2));
+  }
+  return ok;
+}
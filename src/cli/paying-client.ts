@@ -0,0 +1,53 @@
+import axios, { type AxiosInstance } from "axios";
+import type { Network } from "x402/types";
+import {
+  SpendingPolicy,
+  createPaymentWallets,
+  createSelectionStrategy,
+  createSpendingPolicy,
+  withSpendingPolicy,
+} from "../client";
+import { UsageError, errorMessage } from "./format";
+
+// ============================================
+// Paying client for pay and smoke
+// ============================================
+
+export interface PayingClientOptions {
+  /** Pay only on this network, with its wallet. */
+  network?: string;
+  /** Most one request may cost, overriding CLIENT_MAX_PER_REQUEST. */
+  maxPrice?: string;
+  /** Selection strategy, overriding CLIENT_STRATEGY. */
+  strategy?: string;
+}
+
+/**
+ * An axios instance paying from the wallets in the environment, within the
+ * CLIENT_* spending policy as overridden by the command line.
+ */
+export async function createPayingClient(
+  options: PayingClientOptions
+): Promise<{ http: AxiosInstance; policy: SpendingPolicy }> {
+  const env = {
+    ...process.env,
+    ...(options.maxPrice && { CLIENT_MAX_PER_REQUEST: options.maxPrice }),
+    ...(options.network && { CLIENT_NETWORKS: options.network }),
+    ...(options.strategy && { CLIENT_STRATEGY: options.strategy }),
+  };
+
+  let policy: SpendingPolicy;
+  let strategy;
+  let wallets;
+  try {
+    policy = createSpendingPolicy(env);
+    strategy = createSelectionStrategy(env);
+    wallets = await createPaymentWallets(env);
+  } catch (error) {
+    throw new UsageError(errorMessage(error));
+  }
+  if (options.network && !wallets.get(options.network as Network)) {
+    throw new UsageError(`No wallet for ${options.network} (wallets: ${wallets.networks.join(", ")})`);
+  }
+  return { http: withSpendingPolicy(axios.create(), wallets, policy, strategy), policy };
+}
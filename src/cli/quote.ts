@@ -0,0 +1,38 @@
+import type { PaymentRequirements } from "x402/types";
+import { parseData, parseHeaders, printJson, printRequirements, type RequestOptions } from "./format";
+
+// ============================================
+// quote <method> <url>
+// ============================================
+
+/** Makes the request without paying and shows the 402's payment requirements. */
+export async function quote(method: string, url: URL, options: RequestOptions): Promise<void> {
+  const body = parseData(options.data);
+  const response = await fetch(url, {
+    method,
+    headers: { ...(body !== undefined && { "Content-Type": "application/json" }), ...parseHeaders(options.headers) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  let parsed: unknown = text;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // not JSON, shown as is
+  }
+
+  if (options.json) return printJson({ status: response.status, body: parsed });
+  if (response.status !== 402) {
+    console.log(`ℹ️  ${method} ${url} answered ${response.status} without asking for payment`);
+    console.log(typeof parsed === "string" ? parsed : JSON.stringify(parsed, null, 2));
+    return;
+  }
+
+  const { x402Version, error, accepts = [] } = parsed as {
+    x402Version?: number;
+    error?: string;
+    accepts?: PaymentRequirements[];
+  };
+  console.log(`💳 ${method} ${url} asks for payment (x402 v${x402Version ?? "?"}${error ? `, ${error}` : ""})\n`);
+  printRequirements(accepts);
+}
@@ -0,0 +1,131 @@
+import type { AxiosError } from "axios";
+import { decodeXPaymentResponse } from "x402/shared";
+import { describeAmount, errorMessage, printJson } from "./format";
+import { createPayingClient, type PayingClientOptions } from "./paying-client";
+
+// ============================================
+// smoke [url]
+// ============================================
+
+interface SmokeCheck {
+  name: string;
+  method: "GET" | "POST";
+  path: string;
+  body?: unknown;
+  /** Passes only with a successful X-PAYMENT-RESPONSE. */
+  paid: boolean;
+}
+
+interface SmokeResult {
+  name: string;
+  method: string;
+  path: string;
+  passed: boolean;
+  status?: number;
+  ms: number;
+  transaction?: string;
+  network?: string;
+  error?: string;
+}
+
+// The demo merchant's endpoints, free first
+const CHECKS: SmokeCheck[] = [
+  { name: "Health check", method: "GET", path: "/health", paid: false },
+  { name: "Server info", method: "GET", path: "/", paid: false },
+  { name: "Weather data", method: "GET", path: "/api/weather", paid: true },
+  {
+    name: "AI image generation",
+    method: "POST",
+    path: "/api/ai/image",
+    body: { prompt: "A futuristic city with flying cars at sunset", style: "cyberpunk", size: "1024x1024" },
+    paid: true,
+  },
+  {
+    name: "Agent task",
+    method: "POST",
+    path: "/api/agent/task",
+    body: {
+      taskType: "analysis",
+      instructions: "Analyze the current market trends for AI tokens",
+      context: { timeframe: "24h", focus: ["trading_volume", "price_action", "sentiment"] },
+    },
+    paid: true,
+  },
+  { name: "Premium data", method: "GET", path: "/api/data", paid: true },
+  {
+    name: "Compute service",
+    method: "POST",
+    path: "/api/compute",
+    body: { operation: "matrix_multiplication", input: [[1, 2], [3, 4]], parameters: { precision: "high" } },
+    paid: true,
+  },
+];
+
+/**
+ * Calls every demo endpoint, paying where asked, and prints a pass/fail
+ * line per endpoint plus a summary. Resolves true if all passed.
+ */
+export async function smoke(baseUrl: URL, options: PayingClientOptions & { json?: boolean }): Promise<boolean> {
+  const { http, policy } = await createPayingClient(options);
+  const results: SmokeResult[] = [];
+
+  // Check paths are appended to the base path, so a merchant behind /x402 is tested there
+  const basePath = baseUrl.pathname.replace(/\/$/, "");
+
+  if (!options.json) console.log(`🔥 Smoke testing ${baseUrl.origin}${basePath}\n`);
+  for (const check of CHECKS) {
+    const started = Date.now();
+    const result: SmokeResult = { name: check.name, method: check.method, path: check.path, passed: false, ms: 0 };
+    try {
+      const response = await http.request({
+        method: check.method,
+        url: new URL(basePath + check.path, baseUrl).toString(),
+        data: check.body,
+      });
+      result.status = response.status;
+      const header = response.headers["x-payment-response"];
+      if (typeof header === "string") {
+        const settlement = decodeXPaymentResponse(header);
+        result.transaction = settlement.transaction;
+        result.network = settlement.network;
+        result.passed = settlement.success;
+        if (!settlement.success) result.error = "settlement reported failure";
+      } else {
+        result.passed = !check.paid;
+        if (check.paid) result.error = "no X-PAYMENT-RESPONSE header";
+      }
+    } catch (error) {
+      const response = (error as AxiosError).response;
+      result.status = response?.status;
+      const reason = (response?.data as { error?: string } | undefined)?.error;
+      result.error = response ? `HTTP ${response.status}${reason ? `: ${reason}` : ""}` : errorMessage(error);
+    }
+    result.ms = Date.now() - started;
+    results.push(result);
+
+    if (!options.json) {
+      const detail = result.passed
+        ? result.transaction
+          ? `paid on ${result.network}, transaction ${result.transaction}`
+          : `HTTP ${result.status}`
+        : result.error;
+      console.log(`${result.passed ? "✅" : "❌"} ${check.name.padEnd(20)} ${check.method.padEnd(4)} ${check.path.padEnd(16)} ${String(result.ms).padStart(5)}ms  ${detail}`);
+    }
+  }
+
+  const failed = results.filter((result) => !result.passed).length;
+  if (options.json) {
+    printJson({ passed: results.length - failed, failed, results, spends: policy.log.list() });
+    return failed === 0;
+  }
+
+  const spent = policy.log
+    .list()
+    .filter((spend) => spend.status !== "refused" && spend.amount && spend.network && spend.asset)
+    .map((spend) => describeAmount(spend.amount!, spend.network!, spend.asset!));
+  console.log("");
+  console.log("=".repeat(60));
+  console.log(`${failed === 0 ? "✅" : "❌"} ${results.length - failed} passed, ${failed} failed`);
+  console.log(`💰 ${spent.length} payment${spent.length === 1 ? "" : "s"}${spent.length > 0 ? `: ${spent.join(", ")}` : ""}`);
+  return failed === 0;
+}
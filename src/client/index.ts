@@ -0,0 +1,101 @@
+import { NetworkSchema, createSigner, type Network } from "x402/types";
+import { SpendingPolicy, type ApprovalCallback } from "./policy";
+import { FileSpendLog, MemorySpendLog } from "./spend-log";
+import { STRATEGIES, selectionStrategy, type SelectionStrategy, type StrategyName } from "./strategies";
+import { PaymentWallets } from "./wallets";
+
+export { withSpendingPolicy } from "./interceptor";
+export {
+  SpendingPolicy,
+  SpendingPolicyError,
+  type ApprovalCallback,
+  type Authorization,
+  type PaymentQuote,
+  type SpendingLimits,
+  type SpendingRefusal,
+} from "./policy";
+export { FileSpendLog, MemorySpendLog, type SpendLog, type SpendRecord, type SpendStatus } from "./spend-log";
+export {
+  STRATEGIES,
+  byAmount,
+  cheapest,
+  preferNetworks,
+  selectionStrategy,
+  withBalance,
+  type SelectionStrategy,
+  type StrategyName,
+} from "./strategies";
+export { PaymentWallets, type Wallet } from "./wallets";
+
+/**
+ * Wallets from environment variables: EVM_PRIVATE_KEY (or PRIVATE_KEY) on
+ * each of CLIENT_EVM_NETWORKS (default base-sepolia), and
+ * SOLANA_PRIVATE_KEY on each of CLIENT_SVM_NETWORKS (default solana,
+ * solana-devnet). Either key may be missing, but not both.
+ */
+export async function createPaymentWallets(env: NodeJS.ProcessEnv = process.env): Promise<PaymentWallets> {
+  const wallets = new PaymentWallets();
+  const evmKey = env.EVM_PRIVATE_KEY || env.PRIVATE_KEY;
+  const solanaKey = env.SOLANA_PRIVATE_KEY;
+
+  if (evmKey) {
+    for (const network of networks("CLIENT_EVM_NETWORKS", env.CLIENT_EVM_NETWORKS) ?? ["base-sepolia"]) {
+      wallets.add(network, await createSigner(network, evmKey));
+    }
+  }
+  if (solanaKey) {
+    const svmNetworks = networks("CLIENT_SVM_NETWORKS", env.CLIENT_SVM_NETWORKS) ?? ["solana", "solana-devnet"];
+    wallets.add(svmNetworks, await createSigner(svmNetworks[0], solanaKey));
+  }
+  if (wallets.networks.length === 0) {
+    throw new Error("Set EVM_PRIVATE_KEY (or PRIVATE_KEY) and/or SOLANA_PRIVATE_KEY");
+  }
+  return wallets;
+}
+
+/** CLIENT_STRATEGY (cheapest, network or balance) with CLIENT_PREFERRED_NETWORKS. */
+export function createSelectionStrategy(env: NodeJS.ProcessEnv = process.env): SelectionStrategy {
+  const name = env.CLIENT_STRATEGY ?? "cheapest";
+  if (!STRATEGIES.includes(name as StrategyName)) {
+    throw new Error(`CLIENT_STRATEGY must be one of ${STRATEGIES.join(", ")} (got "${name}")`);
+  }
+  return selectionStrategy(name as StrategyName, networks("CLIENT_PREFERRED_NETWORKS", env.CLIENT_PREFERRED_NETWORKS));
+}
+
+/**
+ * Builds a spending policy from CLIENT_* environment variables. Lists are
+ * comma-separated. With CLIENT_SPEND_LOG the spend log is appended to that
+ * file, otherwise it is kept in memory.
+ */
+export function createSpendingPolicy(
+  env: NodeJS.ProcessEnv = process.env,
+  approve?: ApprovalCallback
+): SpendingPolicy {
+  const log = env.CLIENT_SPEND_LOG ? new FileSpendLog(env.CLIENT_SPEND_LOG) : new MemorySpendLog();
+  return new SpendingPolicy(
+    {
+      maxPerRequest: env.CLIENT_MAX_PER_REQUEST,
+      perHostBudget: env.CLIENT_HOST_BUDGET,
+      sessionBudget: env.CLIENT_SESSION_BUDGET,
+      networks: networks("CLIENT_NETWORKS", env.CLIENT_NETWORKS),
+      assets: list(env.CLIENT_ASSETS),
+      payTo: list(env.CLIENT_PAY_TO),
+      approvalThreshold: env.CLIENT_APPROVAL_THRESHOLD,
+      approve,
+    },
+    log
+  );
+}
+
+function networks(variable: string, value: string | undefined): Network[] | undefined {
+  return list(value)?.map((network) => {
+    const parsed = NetworkSchema.safeParse(network);
+    if (!parsed.success) throw new Error(`${variable} has unknown network "${network}"`);
+    return parsed.data as Network;
+  });
+}
+
+function list(value: string | undefined): string[] | undefined {
+  const items = value?.split(",").map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
@@ -0,0 +1,125 @@
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { createPaymentHeader } from "x402/client";
+import { decodeXPaymentResponse } from "x402/shared";
+import { PaymentRequirementsSchema, type PaymentRequirements } from "x402/types";
+import { SpendingPolicy, SpendingPolicyError, type PaymentQuote } from "./policy";
+import { byAmount, cheapest, type SelectionStrategy } from "./strategies";
+import type { PaymentWallets } from "./wallets";
+
+// ============================================
+// Paying axios interceptor
+// ============================================
+
+type PaidRequestConfig = InternalAxiosRequestConfig & { __is402Retry?: boolean };
+
+/**
+ * Like x402-axios' `withPaymentInterceptor`, but paying from several
+ * wallets and through the spending policy. Of the options in a 402 that a
+ * wallet can pay and the policy accepts, `strategy` picks the order; the
+ * next option is tried when signing fails or the server answers the paid
+ * request with another 402. Options the policy refuses are never signed:
+ * the request rejects with SpendingPolicyError. Each payment and refusal
+ * is written to the policy's spend log.
+ */
+export function withSpendingPolicy(
+  axiosClient: AxiosInstance,
+  wallets: PaymentWallets,
+  policy: SpendingPolicy,
+  strategy: SelectionStrategy = cheapest
+): AxiosInstance {
+  axiosClient.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const config = error.config as PaidRequestConfig | undefined;
+      if (error.response?.status !== 402 || !config || config.__is402Retry) throw error;
+
+      const { x402Version, accepts } = error.response.data as { x402Version: number; accepts?: unknown[] };
+      const url = axiosClient.getUri(config);
+      const host = new URL(url).host;
+      const quotes = parseAccepts(accepts)
+        .filter((requirements) => wallets.get(requirements.network))
+        .map((requirements) => ({ url, host, requirements }));
+      const candidates = await strategy(acceptable(policy, url, quotes), wallets);
+      if (candidates.length === 0) {
+        throw policy.refuse(
+          quotes[0],
+          new SpendingPolicyError(`No wallet can cover any payment option for ${url}`, "no_payment_option")
+        );
+      }
+
+      config.__is402Retry = true;
+      config.headers["Access-Control-Expose-Headers"] = "X-PAYMENT-RESPONSE";
+      let lastError: unknown;
+      for (const quote of candidates) {
+        let authorization;
+        try {
+          authorization = await policy.authorize(quote);
+        } catch (refusal) {
+          // e.g. not approved, or a budget used up by a concurrent request
+          lastError = refusal;
+          continue;
+        }
+
+        try {
+          const signer = wallets.get(quote.requirements.network)!.signer;
+          config.headers["X-PAYMENT"] = await createPaymentHeader(signer, x402Version, quote.requirements);
+        } catch (signingError) {
+          authorization.cancel();
+          lastError = signingError;
+          continue;
+        }
+
+        try {
+          const response = await axiosClient.request(config);
+          const settlement = decodeSettlement(response.headers["x-payment-response"]);
+          authorization.complete(
+            settlement ? { status: "settled", transaction: settlement } : { status: "unconfirmed" }
+          );
+          return response;
+        } catch (paidError) {
+          // The signed payment may still be settled, so it stays counted
+          const response = (paidError as AxiosError).response;
+          const settlement = decodeSettlement(response?.headers["x-payment-response"]);
+          const reason = response ? `HTTP ${response.status}` : (paidError as Error).message;
+          authorization.complete(
+            settlement ? { status: "settled", transaction: settlement, reason } : { status: "unconfirmed", reason }
+          );
+          // Only a rejected payment moves on; any other failure may have been charged
+          if (response?.status !== 402) throw paidError;
+          lastError = paidError;
+        }
+      }
+      throw lastError;
+    }
+  );
+  return axiosClient;
+}
+
+function parseAccepts(accepts: unknown[] | undefined): PaymentRequirements[] {
+  return (accepts ?? []).flatMap((option) => {
+    const parsed = PaymentRequirementsSchema.safeParse(option);
+    return parsed.success && parsed.data.scheme === "exact" ? [parsed.data] : [];
+  });
+}
+
+/** Options the policy accepts; if it accepts none, throws (and logs) its refusal of the cheapest. */
+function acceptable(policy: SpendingPolicy, url: string, quotes: PaymentQuote[]): PaymentQuote[] {
+  if (quotes.length === 0) {
+    throw new SpendingPolicyError(`${url} offers no payment option these wallets can pay`, "no_payment_option");
+  }
+  const accepted = quotes.filter((quote) => !policy.check(quote));
+  if (accepted.length > 0) return accepted;
+  const [first] = byAmount(quotes);
+  throw policy.refuse(first, policy.check(first)!);
+}
+
+/** Transaction hash from a successful X-PAYMENT-RESPONSE header. */
+function decodeSettlement(header: unknown): string | undefined {
+  if (typeof header !== "string") return undefined;
+  try {
+    const settlement = decodeXPaymentResponse(header);
+    return settlement.success ? settlement.transaction : undefined;
+  } catch {
+    return undefined;
+  }
+}
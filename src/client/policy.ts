@@ -0,0 +1,233 @@
+import { getDefaultAsset } from "x402/shared";
+import { moneySchema, type Network, type PaymentRequirements } from "x402/types";
+import { atomicToUsd, usdToAtomic } from "../payments/pricing";
+import { normalizeAddress } from "../policy/lists";
+import { MemorySpendLog, type SpendLog } from "./spend-log";
+
+// ============================================
+// Client spending policy
+// ============================================
+
+/** A payment option from a 402 response, for the URL that asked for it. */
+export interface PaymentQuote {
+  url: string;
+  host: string;
+  requirements: PaymentRequirements;
+}
+
+/** Asked before paying more than `approvalThreshold`; resolve false to refuse. */
+export type ApprovalCallback = (quote: PaymentQuote) => boolean | Promise<boolean>;
+
+/**
+ * Limits on what the client pays. Amounts are USD strings such as "$0.10",
+ * compared against the payment's atomic amount as USDC (6 decimals). Only
+ * add `assets` that also have 6 decimals.
+ */
+export interface SpendingLimits {
+  /** Most one request may cost. */
+  maxPerRequest?: string;
+  /** Most this session may spend with one host (hostname and port). */
+  perHostBudget?: string;
+  /** Most this session may spend in total. */
+  sessionBudget?: string;
+  /** Networks the client pays on; any network by default. */
+  networks?: Network[];
+  /** Token addresses the client pays with; the USDC of each network by default. */
+  assets?: string[];
+  /** Recipient addresses the client pays; any recipient by default. */
+  payTo?: string[];
+  /** Payments above this amount need `approve` to agree; without `approve` they are refused. */
+  approvalThreshold?: string;
+  approve?: ApprovalCallback;
+}
+
+export type SpendingRefusal =
+  | "network_not_allowed"
+  | "asset_not_allowed"
+  | "pay_to_not_allowed"
+  | "price_too_high"
+  | "host_budget_exceeded"
+  | "session_budget_exceeded"
+  | "approval_denied"
+  | "no_payment_option";
+
+/** The policy declined to pay; nothing was signed. */
+export class SpendingPolicyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SpendingRefusal
+  ) {
+    super(message);
+    this.name = "SpendingPolicyError";
+  }
+}
+
+/** An approved payment holding its amount against the budgets until settled or cancelled. */
+export interface Authorization {
+  /** Keeps the amount counted as spent and logs the outcome. */
+  complete(outcome: { status: "settled" | "unconfirmed"; transaction?: string; reason?: string }): void;
+  /** Returns the amount to the budgets, e.g. when signing failed. */
+  cancel(): void;
+}
+
+/**
+ * Decides whether the client pays a 402 response, so that a malicious or
+ * mispriced merchant cannot drain the wallet. Budgets count everything
+ * signed in this session (the lifetime of the policy), including payments
+ * whose settlement was never confirmed, plus payments still in flight.
+ */
+export class SpendingPolicy {
+  private readonly maxPerRequest?: bigint;
+  private readonly perHostBudget?: bigint;
+  private readonly sessionBudget?: bigint;
+  private readonly approvalThreshold?: bigint;
+  private readonly assets?: Set<string>;
+  private readonly payTo?: Set<string>;
+  private readonly hostSpent = new Map<string, bigint>();
+  private sessionSpent = 0n;
+
+  constructor(
+    private readonly limits: SpendingLimits = {},
+    public readonly log: SpendLog = new MemorySpendLog()
+  ) {
+    this.maxPerRequest = parseLimit("maxPerRequest", limits.maxPerRequest);
+    this.perHostBudget = parseLimit("perHostBudget", limits.perHostBudget);
+    this.sessionBudget = parseLimit("sessionBudget", limits.sessionBudget);
+    this.approvalThreshold = parseLimit("approvalThreshold", limits.approvalThreshold);
+    this.assets = limits.assets && new Set(limits.assets.map(normalizeAddress));
+    this.payTo = limits.payTo && new Set(limits.payTo.map(normalizeAddress));
+  }
+
+  /** Total signed this session, in atomic units. */
+  get spent(): bigint {
+    return this.sessionSpent;
+  }
+
+  /** Why this option would be refused, without asking for approval; undefined if it is acceptable. */
+  check({ host, requirements }: PaymentQuote): SpendingPolicyError | undefined {
+    const { network, asset, payTo, maxAmountRequired } = requirements;
+    const amount = BigInt(maxAmountRequired);
+
+    if (this.limits.networks && !this.limits.networks.includes(network)) {
+      return new SpendingPolicyError(`Network ${network} is not allowed`, "network_not_allowed");
+    }
+    if (!this.allowsAsset(network, asset)) {
+      return new SpendingPolicyError(`Asset ${asset} on ${network} is not allowed`, "asset_not_allowed");
+    }
+    if (this.payTo && !this.payTo.has(normalizeAddress(payTo))) {
+      return new SpendingPolicyError(`Recipient ${payTo} is not allowed`, "pay_to_not_allowed");
+    }
+    if (this.maxPerRequest !== undefined && amount > this.maxPerRequest) {
+      return new SpendingPolicyError(
+        `Price ${usd(amount)} is above the ${usd(this.maxPerRequest)} per-request limit`,
+        "price_too_high"
+      );
+    }
+    const hostSpent = this.hostSpent.get(host) ?? 0n;
+    if (this.perHostBudget !== undefined && hostSpent + amount > this.perHostBudget) {
+      return new SpendingPolicyError(
+        `Paying ${usd(amount)} would exceed the ${usd(this.perHostBudget)} budget for ${host} (spent ${usd(hostSpent)})`,
+        "host_budget_exceeded"
+      );
+    }
+    if (this.sessionBudget !== undefined && this.sessionSpent + amount > this.sessionBudget) {
+      return new SpendingPolicyError(
+        `Paying ${usd(amount)} would exceed the ${usd(this.sessionBudget)} session budget (spent ${usd(this.sessionSpent)})`,
+        "session_budget_exceeded"
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks the option, reserves its amount against the budgets and asks for
+   * approval above the threshold. Throws SpendingPolicyError, and logs the
+   * refusal, if the client should not pay.
+   */
+  async authorize(quote: PaymentQuote): Promise<Authorization> {
+    const refusal = this.check(quote);
+    if (refusal) throw this.refuse(quote, refusal);
+
+    const amount = BigInt(quote.requirements.maxAmountRequired);
+    // Reserved before asking, so concurrent requests cannot overrun a budget while approval is pending
+    this.reserve(quote.host, amount);
+    let done = false;
+    const cancel = () => {
+      if (done) return;
+      done = true;
+      this.reserve(quote.host, -amount);
+    };
+
+    if (this.approvalThreshold !== undefined && amount > this.approvalThreshold) {
+      const { approve } = this.limits;
+      // A failing callback counts as a refusal
+      const approved = approve ? await Promise.resolve(quote).then(approve).catch(() => false) : false;
+      if (!approved) {
+        cancel();
+        throw this.refuse(
+          quote,
+          new SpendingPolicyError(
+            `Payment of ${usd(amount)} to ${quote.host} was not approved (threshold ${usd(this.approvalThreshold)})`,
+            "approval_denied"
+          )
+        );
+      }
+    }
+
+    return {
+      complete: ({ status, transaction, reason }) => {
+        if (done) return;
+        done = true;
+        this.record(quote, { status, transaction, reason });
+      },
+      cancel,
+    };
+  }
+
+  /** Logs and returns a refusal, for refusals decided outside `authorize`. */
+  refuse(quote: PaymentQuote, error: SpendingPolicyError): SpendingPolicyError {
+    this.record(quote, { status: "refused", reason: `${error.code}: ${error.message}` });
+    return error;
+  }
+
+  private allowsAsset(network: Network, asset: string): boolean {
+    if (this.assets) return this.assets.has(normalizeAddress(asset));
+    try {
+      return normalizeAddress(getDefaultAsset(network).address) === normalizeAddress(asset);
+    } catch {
+      return false;
+    }
+  }
+
+  private reserve(host: string, amount: bigint): void {
+    this.sessionSpent += amount;
+    this.hostSpent.set(host, (this.hostSpent.get(host) ?? 0n) + amount);
+  }
+
+  private record(
+    { url, host, requirements }: PaymentQuote,
+    outcome: { status: "settled" | "unconfirmed" | "refused"; transaction?: string; reason?: string }
+  ): void {
+    this.log.append({
+      time: new Date().toISOString(),
+      url,
+      host,
+      network: requirements.network,
+      asset: requirements.asset,
+      payTo: requirements.payTo,
+      amount: requirements.maxAmountRequired,
+      ...outcome,
+    });
+  }
+}
+
+function parseLimit(name: string, value: string | undefined): bigint | undefined {
+  if (value === undefined) return undefined;
+  const parsed = moneySchema.safeParse(value);
+  if (!parsed.success) throw new Error(`Invalid ${name} "${value}" (expected a USD amount such as "$0.10")`);
+  return BigInt(usdToAtomic(value));
+}
+
+function usd(amount: bigint): string {
+  return atomicToUsd(amount.toString());
+}
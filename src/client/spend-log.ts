@@ -0,0 +1,67 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Network } from "x402/types";
+
+// ============================================
+// Spend log
+// ============================================
+
+/**
+ * "settled": the server confirmed settlement in X-PAYMENT-RESPONSE.
+ * "unconfirmed": a payment was signed and sent but no settlement came back;
+ * the server may still settle it, so it counts against the budgets.
+ * "refused": the spending policy declined to pay.
+ */
+export type SpendStatus = "settled" | "unconfirmed" | "refused";
+
+export interface SpendRecord {
+  time: string;
+  url: string;
+  host: string;
+  status: SpendStatus;
+  network?: Network;
+  asset?: string;
+  payTo?: string;
+  /** Atomic units of `asset`. */
+  amount?: string;
+  transaction?: string;
+  /** Why the policy refused, or why the paid request failed. */
+  reason?: string;
+}
+
+/** Local record of every payment the client made or refused to make. */
+export interface SpendLog {
+  append(record: SpendRecord): void;
+  list(): SpendRecord[];
+}
+
+export class MemorySpendLog implements SpendLog {
+  private readonly records: SpendRecord[] = [];
+
+  append(record: SpendRecord): void {
+    this.records.push(record);
+  }
+
+  list(): SpendRecord[] {
+    return [...this.records];
+  }
+}
+
+/** Appends one JSON line per record to `path`, which survives restarts. */
+export class FileSpendLog implements SpendLog {
+  constructor(public readonly path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  append(record: SpendRecord): void {
+    appendFileSync(this.path, JSON.stringify(record) + "\n");
+  }
+
+  list(): SpendRecord[] {
+    if (!existsSync(this.path)) return [];
+    return readFileSync(this.path, "utf8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as SpendRecord);
+  }
+}
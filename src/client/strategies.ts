@@ -0,0 +1,74 @@
+import type { Network } from "x402/types";
+import type { PaymentQuote } from "./policy";
+import type { PaymentWallets } from "./wallets";
+
+// ============================================
+// Payment option selection
+// ============================================
+
+/**
+ * Orders the payment options the spending policy accepts. The client tries
+ * them in that order, moving on when signing fails or the server rejects
+ * the payment; options left out are never tried.
+ */
+export type SelectionStrategy = (
+  quotes: PaymentQuote[],
+  wallets: PaymentWallets
+) => PaymentQuote[] | Promise<PaymentQuote[]>;
+
+export const STRATEGIES = ["cheapest", "network", "balance"] as const;
+export type StrategyName = (typeof STRATEGIES)[number];
+
+/** Lowest amount first. */
+export const cheapest: SelectionStrategy = (quotes) => byAmount(quotes);
+
+/** Options on `networks` first, in that order, then the rest; cheapest first within a network. */
+export function preferNetworks(networks: Network[]): SelectionStrategy {
+  const rank = (quote: PaymentQuote) => {
+    const index = networks.indexOf(quote.requirements.network);
+    return index === -1 ? networks.length : index;
+  };
+  return (quotes) => byAmount(quotes).sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Drops options whose wallet is known not to hold enough of the asset, and
+ * orders the rest with `then`. Options whose balance could not be looked
+ * up are kept, after the ones known to be covered.
+ */
+export function withBalance(then: SelectionStrategy = cheapest): SelectionStrategy {
+  return async (quotes, wallets) => {
+    const balances = await Promise.all(
+      quotes.map(({ requirements }) =>
+        wallets.balance(requirements.network, requirements.asset).catch(() => undefined)
+      )
+    );
+    const covered = quotes.filter((quote, i) => balances[i] !== undefined && balances[i] >= amountOf(quote));
+    const unknown = quotes.filter((_, i) => balances[i] === undefined);
+    return [...(await then(covered, wallets)), ...(await then(unknown, wallets))];
+  };
+}
+
+/** Strategy by name, as in CLIENT_STRATEGY. `network` uses `preferred`. */
+export function selectionStrategy(name: StrategyName, preferred: Network[] = []): SelectionStrategy {
+  switch (name) {
+    case "cheapest":
+      return cheapest;
+    case "network":
+      return preferNetworks(preferred);
+    case "balance":
+      return withBalance(preferred.length > 0 ? preferNetworks(preferred) : cheapest);
+  }
+}
+
+function amountOf(quote: PaymentQuote): bigint {
+  return BigInt(quote.requirements.maxAmountRequired);
+}
+
+/** Copy of `quotes`, lowest amount first. */
+export function byAmount(quotes: PaymentQuote[]): PaymentQuote[] {
+  return [...quotes].sort((a, b) => {
+    const difference = amountOf(a) - amountOf(b);
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+  });
+}
@@ -0,0 +1,95 @@
+import { createPublicClient, erc20Abi, http, type Hex } from "viem";
+import { SupportedSVMNetworks, evm, isSvmSignerWallet, type Network, type Signer } from "x402/types";
+
+// ============================================
+// Wallets
+// ============================================
+
+export interface Wallet {
+  network: Network;
+  signer: Signer;
+  address: string;
+}
+
+const SOLANA_RPC_URLS: Partial<Record<Network, string>> = {
+  solana: "https://api.mainnet-beta.solana.com",
+  "solana-devnet": "https://api.devnet.solana.com",
+};
+
+/**
+ * The signers a client pays with, one per network. EVM signers are bound
+ * to their chain, so an EVM key is added once per network; a Solana
+ * signer can be added for both Solana networks.
+ */
+export class PaymentWallets {
+  private readonly wallets = new Map<Network, Wallet>();
+
+  /** `rpcUrls` overrides the RPC used for balance lookups on a network. */
+  constructor(private readonly rpcUrls: Partial<Record<Network, string>> = {}) {}
+
+  add(networks: Network | Network[], signer: Signer): this {
+    const address = signerAddress(signer);
+    for (const network of [networks].flat()) {
+      this.wallets.set(network, { network, signer, address });
+    }
+    return this;
+  }
+
+  get(network: Network): Wallet | undefined {
+    return this.wallets.get(network);
+  }
+
+  get networks(): Network[] {
+    return [...this.wallets.keys()];
+  }
+
+  /** Token balance of the wallet for `network`, in atomic units of `asset`. */
+  async balance(network: Network, asset: string): Promise<bigint> {
+    const wallet = this.wallets.get(network);
+    if (!wallet) throw new Error(`No wallet for ${network}`);
+    if (SupportedSVMNetworks.includes(network)) return this.splBalance(wallet, asset);
+
+    const client = createPublicClient({ chain: evm.getChainFromNetwork(network), transport: http(this.rpcUrls[network]) });
+    return client.readContract({
+      address: asset as Hex,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [wallet.address as Hex],
+    });
+  }
+
+  /** Sum of the owner's token accounts for the mint, via plain JSON-RPC. */
+  private async splBalance({ network, address }: Wallet, mint: string): Promise<bigint> {
+    const url = this.rpcUrls[network] ?? SOLANA_RPC_URLS[network];
+    if (!url) throw new Error(`No Solana RPC URL for ${network}`);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "getTokenAccountsByOwner",
+        params: [address, { mint }, { encoding: "jsonParsed" }],
+      }),
+    });
+    if (!response.ok) throw new Error(`Solana RPC answered ${response.status}`);
+    const body = (await response.json()) as {
+      result?: { value: { account: { data: { parsed: { info: { tokenAmount: { amount: string } } } } } }[] };
+      error?: { message: string };
+    };
+    if (!body.result) throw new Error(`Solana RPC error: ${body.error?.message ?? "no result"}`);
+    return body.result.value.reduce(
+      (sum, { account }) => sum + BigInt(account.data.parsed.info.tokenAmount.amount),
+      0n
+    );
+  }
+}
+
+function signerAddress(signer: Signer): string {
+  if (isSvmSignerWallet(signer)) return signer.address;
+  // EVM wallet clients carry an account; bare local accounts are one
+  const { account, address } = signer as { account?: { address: string }; address?: string };
+  const resolved = account?.address ?? address;
+  if (!resolved) throw new Error("Signer has no address");
+  return resolved;
+}
@@ -0,0 +1,64 @@
+import { isAddress as isSolanaAddress } from "@solana/kit";
+import { type Address, getAddress, isAddress as isEvmAddress } from "viem";
+import { type Network, SupportedEVMNetworks, SupportedSVMNetworks } from "x402/types";
+
+// ============================================
+// Pay-to addresses
+// ============================================
+// An EVM address and a Solana address are both strings, but neither can be
+// paid on the other's networks. Pay-to addresses are parsed into one of two
+// branded types when the registry loads, tagged with the family of the
+// network they are configured for, so a Solana address on a base-sepolia
+// route fails at boot instead of at settlement.
+
+export type NetworkFamily = "evm" | "svm";
+
+/** A checksummed EVM address. */
+export type EvmAddress = Address & { readonly __family: "evm" };
+
+/** A base58-encoded 32-byte Solana public key. */
+export type SolanaAddress = string & { readonly __family: "svm" };
+
+export type PayToAddress = EvmAddress | SolanaAddress;
+
+/** Family of a network, or undefined for one x402 cannot pay on. */
+export function networkFamily(network: Network): NetworkFamily | undefined {
+  if (SupportedEVMNetworks.includes(network)) return "evm";
+  if (SupportedSVMNetworks.includes(network)) return "svm";
+  return undefined;
+}
+
+/**
+ * Validates an EVM address and returns it checksummed. All-lowercase (or
+ * all-uppercase) input is accepted; mixed case must carry a valid checksum.
+ */
+export function parseEvmAddress(value: string): EvmAddress {
+  if (!isEvmAddress(value, { strict: true })) {
+    throw new Error(
+      isEvmAddress(value, { strict: false })
+        ? `"${value}" has an invalid EIP-55 checksum`
+        : `"${value}" is not an EVM address (0x followed by 40 hex digits)`
+    );
+  }
+  return getAddress(value) as EvmAddress;
+}
+
+/** Validates a Solana address: base58 that decodes to 32 bytes. */
+export function parseSolanaAddress(value: string): SolanaAddress {
+  if (!isSolanaAddress(value)) {
+    throw new Error(`"${value}" is not a Solana address (base58, 32 bytes)`);
+  }
+  return value as string as SolanaAddress;
+}
+
+/** Parses `value` as a pay-to address for `network`, throwing with the reason if it cannot receive there. */
+export function parsePayTo(network: Network, value: string): PayToAddress {
+  const family = networkFamily(network);
+  try {
+    if (family === "evm") return parseEvmAddress(value);
+    if (family === "svm") return parseSolanaAddress(value);
+  } catch (error) {
+    throw new Error(`${(error as Error).message}, as ${network} needs ${family === "evm" ? "an EVM" : "a Solana"} address`);
+  }
+  throw new Error(`${network} is neither an EVM nor a Solana network`);
+}
@@ -0,0 +1,172 @@
+import { Profile } from "./profiles";
+
+// ============================================
+// Built-in registry
+// ============================================
+// Used when neither X402_CONFIG nor X402_REGISTRY is set, with URLs and
+// pay-to addresses taken from the environment. The profile picks the
+// networks and which facilitators serve each route:
+//   testnet - Base Sepolia through PayAI and Coinbase CDP, Solana Devnet
+//             through Coinbase CDP (Heurist, Daydreams and Dexter have no
+//             testnet support)
+//   mainnet - the original demo: PayAI, Heurist, Daydreams and Coinbase CDP
+//             on Base plus Dexter on Solana
+
+const FACILITATORS = {
+  payai: {
+    id: "payai",
+    name: "PayAI",
+    url: "${PAYAI_FACILITATOR_URL:-https://facilitator.payai.network}",
+  },
+  heurist: {
+    id: "heurist",
+    name: "Heurist",
+    url: "${HEURIST_FACILITATOR_URL:-https://facilitator.heurist.xyz}",
+  },
+  daydreams: {
+    id: "daydreams",
+    name: "Daydreams",
+    url: "${DAYDREAMS_FACILITATOR_URL:-https://facilitator.daydreams.systems}",
+  },
+  coinbase: {
+    // Uses @coinbase/x402 - requires CDP_API_KEY_ID and CDP_API_KEY_SECRET env vars for mainnet
+    id: "coinbase",
+    name: "Coinbase CDP",
+    package: "@coinbase/x402",
+    url: "${COINBASE_FACILITATOR_URL:-}",
+  },
+  dexter: {
+    id: "dexter",
+    name: "Dexter",
+    url: "${DEXTER_FACILITATOR_URL:-https://dexter.cash/facilitator}",
+  },
+};
+
+type FacilitatorId = keyof typeof FACILITATORS;
+
+/** Facilitator chains of the built-in routes under one profile. */
+interface RouteFacilitators {
+  weather: FacilitatorId[];
+  image: FacilitatorId[];
+  agentTask: FacilitatorId[];
+  data: FacilitatorId[];
+  /** Compute is payable on both the Solana and the EVM network. */
+  computeSvm: FacilitatorId[];
+  computeEvm: FacilitatorId[];
+  topup: FacilitatorId[];
+}
+
+const ROUTE_FACILITATORS: Record<Profile["name"], RouteFacilitators> = {
+  testnet: {
+    weather: ["payai"],
+    image: ["payai", "coinbase"],
+    agentTask: ["payai", "coinbase"],
+    data: ["coinbase"],
+    computeSvm: ["coinbase"],
+    computeEvm: ["payai"],
+    topup: ["payai", "coinbase"],
+  },
+  mainnet: {
+    weather: ["payai"],
+    // Falls back to PayAI, then Coinbase CDP, if Heurist is unavailable
+    image: ["heurist", "payai", "coinbase"],
+    agentTask: ["daydreams"],
+    data: ["coinbase"],
+    computeSvm: ["dexter"],
+    computeEvm: ["payai"],
+    topup: ["payai", "coinbase"],
+  },
+};
+
+/** The built-in registry for a profile, before env interpolation and validation. */
+export function defaultRegistry(profile: Profile) {
+  const { evm, svm } = profile;
+  const chains = ROUTE_FACILITATORS[profile.name];
+
+  // Each facilitator is listed with only the networks its routes use here
+  const networks = new Map<FacilitatorId, Set<string>>();
+  const use = (ids: FacilitatorId[], network: string) => {
+    for (const id of ids) {
+      if (!networks.has(id)) networks.set(id, new Set());
+      networks.get(id)!.add(network);
+    }
+    return { network, facilitators: ids };
+  };
+
+  const routes = [
+    {
+      method: "GET",
+      path: "/api/weather",
+      price: "$0.001",
+      ...use(chains.weather, evm),
+      description: "Get current weather data",
+    },
+    {
+      method: "POST",
+      path: "/api/ai/image",
+      price: "$0.02",
+      ...use(chains.image, evm),
+      // Larger images cost more
+      pricing: {
+        rules: [{ when: { "body.size": "2048x2048" }, price: "$0.08" }],
+      },
+      description: "AI image generation",
+    },
+    {
+      method: "POST",
+      path: "/api/agent/task",
+      price: "$0.01",
+      ...use(chains.agentTask, evm),
+      // Settled before the task runs; a failed task is refunded
+      settlement: "before-handler",
+      description: "Agent task execution",
+    },
+    {
+      method: "GET",
+      path: "/api/data",
+      price: "$0.005",
+      ...use(chains.data, evm),
+      description: "Premium data service",
+    },
+    {
+      // Payable from either wallet type: USDC on Solana or on Base
+      method: "POST",
+      path: "/api/compute",
+      price: "$0.05",
+      accepts: [use(chains.computeSvm, svm), use(chains.computeEvm, evm)],
+      // Billed per compute unit requested
+      pricing: {
+        units: { field: "body.computeUnits", default: 1, max: 100 },
+      },
+      // Refused with 429 (and not charged) past these limits
+      limits: {
+        perPayer: { requests: 30, windowSeconds: 60 },
+        dailySpendCap: "$5",
+      },
+      description: "Computational service",
+    },
+    {
+      // Prepaid credits: $1 per `amount`, spent later with the returned token
+      method: "POST",
+      path: "/credits/topup",
+      price: "$1",
+      ...use(chains.topup, evm),
+      pricing: {
+        units: { field: "body.amount", default: 1, max: 100 },
+      },
+      description: "Top up prepaid credits",
+    },
+  ];
+
+  const facilitators = (Object.keys(FACILITATORS) as FacilitatorId[])
+    .filter((id) => networks.has(id))
+    .map((id) => ({
+      ...FACILITATORS[id],
+      networks: [...networks.get(id)!],
+      payTo: Object.fromEntries(
+        [...networks.get(id)!].map((network) => [network, network === svm ? "${SOLANA_ADDRESS}" : "${EVM_ADDRESS}"])
+      ),
+    }));
+
+  return { facilitators, routes };
+}
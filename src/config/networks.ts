@@ -0,0 +1,17 @@
+import { Network } from "x402/types";
+
+const NETWORK_LABELS: Partial<Record<Network, string>> = {
+  "base-sepolia": "Base Sepolia",
+  base: "Base",
+  solana: "Solana",
+  "solana-devnet": "Solana Devnet",
+  polygon: "Polygon",
+  "polygon-amoy": "Polygon Amoy",
+  avalanche: "Avalanche",
+  "avalanche-fuji": "Avalanche Fuji",
+};
+
+/** Human-readable network name for logs and info documents. */
+export function networkLabel(network: Network): string {
+  return NETWORK_LABELS[network] ?? network;
+}
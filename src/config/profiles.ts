@@ -0,0 +1,128 @@
+import { getDefaultAsset } from "x402/shared";
+import type { Network } from "x402/types";
+
+// ============================================
+// Environment profiles
+// ============================================
+// A profile decides which networks payments may use and which USDC contract
+// (or mint) is asked for on each, so a testnet deployment cannot take a
+// mainnet payment and a production one cannot accept test tokens.
+
+export type ProfileName = "testnet" | "mainnet";
+
+export const PROFILE_NAMES: ProfileName[] = ["testnet", "mainnet"];
+
+/** X402_PROFILE also accepts the deployment name for each profile. */
+const ALIASES: Record<string, ProfileName> = {
+  development: "testnet",
+  production: "mainnet",
+};
+
+export interface UsdcAsset {
+  /** Token contract (EVM) or mint (Solana). */
+  address: string;
+  decimals: number;
+  /** EIP-712 domain of the token, for EIP-3009 signatures (EVM only). */
+  eip712?: { name: string; version: string };
+}
+
+export interface Profile {
+  name: ProfileName;
+  /** Whether payments move real funds; enables the production boot checks. */
+  production: boolean;
+  /** Network the built-in routes are paid on from EVM wallets. */
+  evm: Network;
+  /** Network the built-in routes are paid on from Solana wallets. */
+  svm: Network;
+  /** Every network a route may accept under this profile. */
+  networks: Network[];
+  /** USDC per network, as advertised in `asset`. */
+  usdc: Partial<Record<Network, UsdcAsset>>;
+}
+
+const TESTNETS: Network[] = [
+  "base-sepolia",
+  "solana-devnet",
+  "polygon-amoy",
+  "avalanche-fuji",
+  "sei-testnet",
+  "abstract-testnet",
+  "skale-base-sepolia",
+];
+
+const MAINNETS: Network[] = [
+  "base",
+  "solana",
+  "polygon",
+  "avalanche",
+  "sei",
+  "abstract",
+  "iotex",
+  "peaq",
+  "story",
+  "educhain",
+];
+
+export const PROFILES: Record<ProfileName, Profile> = {
+  testnet: {
+    name: "testnet",
+    production: false,
+    evm: "base-sepolia",
+    svm: "solana-devnet",
+    networks: TESTNETS,
+    usdc: {
+      "base-sepolia": {
+        address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        decimals: 6,
+        eip712: { name: "USDC", version: "2" },
+      },
+      "solana-devnet": { address: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", decimals: 6 },
+    },
+  },
+  mainnet: {
+    name: "mainnet",
+    production: true,
+    evm: "base",
+    svm: "solana",
+    networks: MAINNETS,
+    usdc: {
+      base: {
+        address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+        decimals: 6,
+        eip712: { name: "USD Coin", version: "2" },
+      },
+      solana: { address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6 },
+    },
+  },
+};
+
+/**
+ * Picks the profile from X402_PROFILE (`testnet`/`development` or
+ * `mainnet`/`production`), else from NODE_ENV=production, else testnet.
+ * Returns undefined for an unknown X402_PROFILE.
+ */
+export function resolveProfile(env: NodeJS.ProcessEnv = process.env): Profile | undefined {
+  const requested = env.X402_PROFILE?.trim().toLowerCase();
+  if (!requested) {
+    return env.NODE_ENV === "production" ? PROFILES.mainnet : PROFILES.testnet;
+  }
+  const name = ALIASES[requested] ?? requested;
+  return PROFILE_NAMES.includes(name as ProfileName) ? PROFILES[name as ProfileName] : undefined;
+}
+
+/** USDC asked for on `network`: the profile's entry, else x402's default for the network. */
+export function usdcFor(profile: Profile, network: Network): UsdcAsset {
+  return profile.usdc[network] ?? getDefaultAsset(network);
+}
+
+// Well-formed addresses that no one can spend from. Template values such as
+// 0xYourEVMWalletAddressHere are not addresses at all and fail validation.
+const PLACEHOLDER_ADDRESSES = [
+  /^0x0{40}$/i,
+  /^1{32}$/, // Solana system program
+];
+
+/** Whether a pay-to address is a burn or system address rather than a wallet. */
+export function isPlaceholderAddress(address: string): boolean {
+  return PLACEHOLDER_ADDRESSES.some((pattern) => pattern.test(address));
+}
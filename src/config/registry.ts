@@ -0,0 +1,661 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { Network, NetworkSchema, moneySchema } from "x402/types";
+import { processPriceToAtomicAmount } from "x402/shared";
+import { unitPriceToAtomic } from "../payments/pricing";
+import { PayToAddress, networkFamily, parsePayTo } from "./addresses";
+import { defaultRegistry } from "./defaults";
+import { PROFILE_NAMES, Profile, isPlaceholderAddress, resolveProfile } from "./profiles";
+
+// ============================================
+// Registry schema
+// ============================================
+
+const HttpMethodSchema = z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]);
+
+const IdSchema = z.string().regex(/^[a-z0-9-]+$/, "must be lowercase letters, digits or dashes");
+
+// Pay-to address per network; each must be valid for its network's family (see ./addresses)
+const PayToSchema = z
+  .record(NetworkSchema, z.string().min(1))
+  .superRefine((payTo, ctx) => {
+    for (const [network, address] of Object.entries(payTo)) {
+      try {
+        parsePayTo(network as Network, address);
+      } catch (error) {
+        ctx.addIssue({ code: "custom", path: [network], message: (error as Error).message });
+      }
+    }
+  })
+  .transform(
+    (payTo) =>
+      Object.fromEntries(
+        Object.entries(payTo).map(([network, address]) => [network, parsePayTo(network as Network, address)])
+      ) as Partial<Record<Network, PayToAddress>>
+  );
+
+const FacilitatorSchema = z
+  .object({
+    id: IdSchema,
+    name: z.string().min(1),
+    // An empty string (e.g. an unset `${VAR:-}`) counts as no URL
+    url: z.preprocess((v) => (v === "" ? undefined : v), z.string().url().optional()),
+    package: z.literal("@coinbase/x402").optional(),
+    networks: z.array(NetworkSchema).min(1),
+    payTo: PayToSchema,
+  })
+  .refine((f) => Boolean(f.url) || Boolean(f.package), {
+    message: "must set `url`, `package` or both (a `url` overrides the package's endpoint)",
+  });
+
+// A payment option names either one `facilitator` or an ordered
+// `facilitators` failover chain; both are normalized to `facilitators`.
+const FacilitatorChainFields = {
+  facilitator: z.string().min(1).optional(),
+  facilitators: z.array(z.string().min(1)).min(1).optional(),
+};
+
+const PaymentOptionSchema = z.object({
+  network: NetworkSchema,
+  price: z.string().min(1).optional(),
+  ...FacilitatorChainFields,
+});
+
+type PaymentOptionFields = Partial<z.infer<typeof PaymentOptionSchema>>;
+
+// Request-dependent pricing reads request values by path:
+// `body.<field>[.<field>...]`, `query.<name>` or `headers.<name>`.
+const RequestFieldSchema = z
+  .string()
+  .regex(/^(body(\.[\w-]+)+|query\.[\w-]+|headers\.[\w-]+)$/, "must be body.<field>, query.<name> or headers.<name>");
+
+const FieldValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const PricingSchema = z.object({
+  // First rule whose `when` fields all match sets the price (else the option price)
+  rules: z
+    .array(
+      z.object({
+        when: z
+          .record(RequestFieldSchema, z.union([FieldValueSchema, z.array(FieldValueSchema).min(1)]))
+          .refine((when) => Object.keys(when).length > 0, "must match at least one field"),
+        price: z.string().min(1),
+      })
+    )
+    .default([]),
+  // The price is multiplied by a whole number of units read from the request
+  units: z
+    .object({
+      field: RequestFieldSchema,
+      default: z.number().int().positive().default(1),
+      max: z.number().int().positive().optional(),
+    })
+    .optional(),
+});
+
+// Sliding-window request limit, e.g. 10 requests per 60 seconds
+const RateLimitSchema = z.object({
+  requests: z.number().int().positive(),
+  windowSeconds: z.number().int().positive(),
+});
+
+const RouteLimitsSchema = z.object({
+  // Counted after verification, per paying address
+  perPayer: RateLimitSchema.optional(),
+  // Counted on every request, before the 402 challenge
+  perIp: RateLimitSchema.optional(),
+  // Most one payer may spend on this route per UTC day, e.g. "$1"
+  dailySpendCap: z.string().min(1).optional(),
+});
+
+// Usage-metered billing: the route price is the most one request may cost
+// (what the client authorizes) and the handler reports units as it works.
+// The full price is settled and the unused part refunded, so metered routes
+// are EVM-only and need REFUND_EVM_PRIVATE_KEY with REFUNDS_AUTO=true.
+const MeteringSchema = z.object({
+  unit: z.string().min(1), // e.g. "token", "second"
+  unitPrice: z.string().min(1), // e.g. "$0.00005", at least $0.000001
+  // Stream the response (SSE or chunked) as it is produced, stopping when the budget runs out
+  stream: z.boolean().default(false),
+});
+
+// Checked for every paid route, on top of each route's `limits`.
+const PolicySchema = z.object({
+  // Files with one payer address per line (`#` comments), relative to the
+  // working directory and reloaded when they change. With an allowlist only
+  // listed payers may pay; denylisted payers are always refused.
+  allowlist: z.string().min(1).optional(),
+  denylist: z.string().min(1).optional(),
+  // Most one payer may spend across all routes per UTC day, e.g. "$10"
+  dailySpendCap: z.string().min(1).optional(),
+});
+
+// A route either lists its payment options under `accepts`, or uses the
+// single-network shorthand (`network` + `facilitator(s)` on the route itself).
+// Both normalize to `accepts`, with the route `price` as each option's default.
+const PaidRouteSchema = z
+  .object({
+    method: HttpMethodSchema,
+    path: z.string().startsWith("/"),
+    price: z.string().min(1).optional(),
+    network: NetworkSchema.optional(),
+    ...FacilitatorChainFields,
+    accepts: z.array(PaymentOptionSchema).min(1).optional(),
+    pricing: PricingSchema.optional(),
+    // after-handler: settle only once the handler answered 2xx (nothing is charged on failure).
+    // before-handler: settle first; if the handler then fails, the payer is owed a refund.
+    // deferred: answer once verified and the handler succeeded; settle later in a batch
+    // (see `deferredSettlement`). EVM networks only.
+    settlement: z.enum(["after-handler", "before-handler", "deferred"]).default("after-handler"),
+    metering: MeteringSchema.optional(),
+    limits: RouteLimitsSchema.optional(),
+    description: z.string().min(1),
+  })
+  .superRefine((route, ctx) => {
+    const options: PaymentOptionFields[] = route.accepts ?? [route];
+    if (route.accepts && (route.network || route.facilitator || route.facilitators)) {
+      ctx.addIssue({ code: "custom", message: "set either `accepts` or `network` + `facilitator(s)`, not both" });
+    }
+    options.forEach((option, i) => {
+      const path = route.accepts ? ["accepts", i] : [];
+      if (!option.network) {
+        ctx.addIssue({ code: "custom", path, message: "a `network` is required" });
+      }
+      if (Boolean(option.facilitator) === Boolean(option.facilitators)) {
+        ctx.addIssue({ code: "custom", path, message: "must set exactly one of `facilitator` or `facilitators`" });
+      }
+      if (!option.price && !route.price) {
+        ctx.addIssue({ code: "custom", path, message: "a `price` is required on the route or the option" });
+      }
+    });
+  })
+  .transform(({ method, path, description, price, accepts, pricing, settlement, metering, limits, ...shorthand }) => ({
+    method,
+    path,
+    description,
+    pricing,
+    settlement,
+    metering,
+    limits,
+    accepts: (accepts ?? [shorthand as PaymentOptionFields]).map((option) => ({
+      network: option.network!,
+      price: (option.price ?? price)!,
+      facilitators: option.facilitators ?? [option.facilitator!],
+    })),
+  }));
+
+const FailoverSchema = z.object({
+  timeoutMs: z.number().int().positive().default(10_000),
+  failureThreshold: z.number().int().positive().default(3),
+  cooldownMs: z.number().int().nonnegative().default(30_000),
+});
+
+// Batching for routes with `settlement: deferred`. Queued payments are
+// settled once `batchSize` are waiting, every `intervalSeconds`, and in
+// any case `expiryMarginSeconds` before their authorization expires.
+const DeferredSettlementSchema = z.object({
+  batchSize: z.number().int().positive().default(20),
+  intervalSeconds: z.number().int().positive().default(60),
+  // Validity asked of authorizations on deferred routes (the 402's maxTimeoutSeconds)
+  authorizationSeconds: z.number().int().positive().default(3600),
+  expiryMarginSeconds: z.number().int().positive().default(300),
+  // Attempts per payment; retries back off from retryDelaySeconds, doubling
+  maxAttempts: z.number().int().positive().default(5),
+  retryDelaySeconds: z.number().int().positive().default(15),
+  // Most a payer may have queued and unsettled; past it, their payments settle right away
+  maxUnsettledPerPayer: z.string().min(1).default("$1"),
+});
+
+// Share of each payment credited to another tenant in the ledger; the
+// owning tenant keeps the rest. Funds still settle to the owner's payTo.
+const RevenueSplitSchema = z.object({
+  tenant: z.string().min(1),
+  percent: z.number().positive().max(100),
+});
+
+// A tenant sells its own catalog of the server's endpoints, paid to its own
+// addresses through the shared facilitators. Requests are assigned to it by
+// API key (X-Api-Key), path prefix (/<prefix>/api/...) or subdomain.
+const TenantSchema = z
+  .object({
+    id: IdSchema,
+    name: z.string().min(1),
+    apiKeys: z.array(z.string().min(1)).min(1).optional(),
+    pathPrefix: z
+      .string()
+      .regex(/^(\/[a-z0-9-]+)+$/, "must look like /name (lowercase, no trailing slash)")
+      .optional(),
+    subdomain: IdSchema.optional(),
+    payTo: PayToSchema,
+    routes: z.array(PaidRouteSchema).min(1),
+    splits: z.array(RevenueSplitSchema).default([]),
+  })
+  .refine((t) => Boolean(t.apiKeys || t.pathPrefix || t.subdomain), {
+    message: "must set `apiKeys`, `pathPrefix` or `subdomain` to be reachable",
+  });
+
+const RegistrySchema = z.object({
+  facilitators: z.array(FacilitatorSchema).min(1),
+  routes: z.array(PaidRouteSchema),
+  failover: FailoverSchema.default({}),
+  policy: PolicySchema.default({}),
+  deferredSettlement: DeferredSettlementSchema.default({}),
+  tenants: z.array(TenantSchema).default([]),
+});
+
+export type FacilitatorDefinition = z.infer<typeof FacilitatorSchema>;
+export type PaidRouteDefinition = z.output<typeof PaidRouteSchema>;
+export type PaymentOption = PaidRouteDefinition["accepts"][number];
+export type PricingDefinition = z.output<typeof PricingSchema>;
+export type FailoverSettings = z.output<typeof FailoverSchema>;
+export type RateLimit = z.output<typeof RateLimitSchema>;
+export type PolicySettings = z.output<typeof PolicySchema>;
+export type MeteringDefinition = z.output<typeof MeteringSchema>;
+export type DeferredSettlementSettings = z.output<typeof DeferredSettlementSchema>;
+export type TenantDefinition = z.output<typeof TenantSchema>;
+export type RevenueSplit = z.output<typeof RevenueSplitSchema>;
+/** A validated registry and the profile it was checked against. */
+export type Registry = z.output<typeof RegistrySchema> & { profile: Profile };
+
+/**
+ * Thrown when the facilitator registry cannot be loaded or fails validation.
+ * Carries every problem found so they can all be reported at boot.
+ */
+export class RegistryError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid registry (${source}):\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "RegistryError";
+  }
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Loads the facilitator registry.
+ *
+ * Sources, in order of precedence:
+ *   1. X402_CONFIG   - path to a .json, .yaml or .yml file
+ *   2. X402_REGISTRY - inline JSON
+ *   3. the built-in default (the five demo facilitators)
+ *
+ * String values may reference environment variables as `${NAME}` or
+ * `${NAME:-fallback}`, so addresses and URLs can stay in `.env`.
+ *
+ * The profile (X402_PROFILE, see ./profiles) picks the built-in default's
+ * networks and facilitators, and every registry is checked against it.
+ */
+export function loadRegistry(env: NodeJS.ProcessEnv = process.env): Registry {
+  if (env.X402_CONFIG) {
+    return parseRegistry(readConfigFile(env.X402_CONFIG), env.X402_CONFIG, env);
+  }
+  if (env.X402_REGISTRY) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(env.X402_REGISTRY);
+    } catch (error: any) {
+      throw new RegistryError("X402_REGISTRY", [`not valid JSON: ${error.message}`]);
+    }
+    return parseRegistry(raw, "X402_REGISTRY", env);
+  }
+  const profile = profileFor(env);
+  return parseRegistry(defaultRegistry(profile), `built-in default (${profile.name})`, env);
+}
+
+function profileFor(env: NodeJS.ProcessEnv): Profile {
+  const profile = resolveProfile(env);
+  if (!profile) {
+    throw new RegistryError("X402_PROFILE", [
+      `unknown profile "${env.X402_PROFILE}" (expected ${PROFILE_NAMES.join(", ")}, development or production)`,
+    ]);
+  }
+  return profile;
+}
+
+function readConfigFile(path: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (error: any) {
+    throw new RegistryError(path, [`cannot read file: ${error.message}`]);
+  }
+  try {
+    const ext = extname(path).toLowerCase();
+    return ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new RegistryError(path, [`cannot parse file: ${error.message}`]);
+  }
+}
+
+/**
+ * Interpolates env references, validates the shape, cross-checks
+ * facilitators against routes and both against the profile.
+ * Throws a RegistryError listing every issue.
+ */
+export function parseRegistry(raw: unknown, source: string, env: NodeJS.ProcessEnv = process.env): Registry {
+  const profile = profileFor(env);
+  const issues: string[] = [];
+  const interpolated = interpolateEnv(raw, env, issues, "");
+  if (issues.length > 0) {
+    throw new RegistryError(source, issues);
+  }
+
+  const parsed = RegistrySchema.safeParse(interpolated);
+  if (!parsed.success) {
+    throw new RegistryError(
+      source,
+      parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+
+  const registry = { ...parsed.data, profile };
+  issues.push(...validateRegistry(registry), ...validateTenants(registry), ...validateProfile(registry));
+  if (issues.length > 0) {
+    throw new RegistryError(source, issues);
+  }
+  return registry;
+}
+
+const ENV_REFERENCE = /\$\{([A-Z0-9_]+)(?::-([^}]*))?\}/g;
+
+function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv, issues: string[], path: string): unknown {
+  if (typeof value === "string") {
+    return value.replace(ENV_REFERENCE, (_match, name: string, fallback?: string) => {
+      const resolved = env[name] || fallback;
+      if (resolved === undefined) {
+        issues.push(`${path || "(root)"}: environment variable ${name} is not set`);
+        return "";
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolateEnv(item, env, issues, `${path}.${i}`.replace(/^\./, "")));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, env, issues, path ? `${path}.${key}` : key),
+      ])
+    );
+  }
+  return value;
+}
+
+function validateRegistry(registry: Registry): string[] {
+  const issues: string[] = [];
+  const facilitators = new Map<string, FacilitatorDefinition>();
+
+  for (const facilitator of registry.facilitators) {
+    if (facilitators.has(facilitator.id)) {
+      issues.push(`facilitator "${facilitator.id}" is defined more than once`);
+    }
+    facilitators.set(facilitator.id, facilitator);
+  }
+
+  issues.push(...validateRoutes(registry, facilitators));
+
+  const cap = registry.policy.dailySpendCap;
+  if (cap && !moneySchema.safeParse(cap).success) {
+    issues.push(`policy has invalid dailySpendCap "${cap}" (expected a USD amount such as "$10")`);
+  }
+
+  const deferred = registry.deferredSettlement;
+  if (!moneySchema.safeParse(deferred.maxUnsettledPerPayer).success) {
+    issues.push(
+      `deferredSettlement has invalid maxUnsettledPerPayer "${deferred.maxUnsettledPerPayer}" (expected a USD amount such as "$1")`
+    );
+  }
+  if (deferred.expiryMarginSeconds >= deferred.authorizationSeconds) {
+    issues.push("deferredSettlement.expiryMarginSeconds must be less than authorizationSeconds");
+  }
+
+  return issues;
+}
+
+function validateRoutes(registry: Registry, facilitators: Map<string, FacilitatorDefinition>): string[] {
+  const issues: string[] = [];
+  const routeKeys = new Set<string>();
+  for (const route of registry.routes) {
+    const key = routeKey(route);
+    if (routeKeys.has(key)) {
+      issues.push(`route "${key}" is defined more than once`);
+    }
+    routeKeys.add(key);
+
+    const networks = new Set<string>();
+    for (const option of route.accepts) {
+      issues.push(...validateOption(facilitators, key, option));
+      // The payload's network picks the option, so each network may appear once.
+      if (networks.has(option.network)) {
+        issues.push(`route "${key}" accepts network "${option.network}" more than once`);
+      }
+      networks.add(option.network);
+    }
+
+    const cap = route.limits?.dailySpendCap;
+    if (cap && !moneySchema.safeParse(cap).success) {
+      issues.push(`route "${key}" has invalid dailySpendCap "${cap}" (expected a USD amount such as "$1")`);
+    }
+
+    if (route.metering) {
+      const { unitPrice } = route.metering;
+      const atomic = unitPriceToAtomic(unitPrice);
+      if (atomic === undefined) {
+        issues.push(`route "${key}" has invalid metering unitPrice "${unitPrice}" (expected a USD amount such as "$0.0001")`);
+      } else if (atomic === 0n) {
+        issues.push(`route "${key}" has metering unitPrice ${unitPrice}, below the smallest USDC amount ($0.000001)`);
+      }
+      if (route.settlement !== "after-handler") {
+        issues.push(`route "${key}" is metered, which settles after the handler (not ${route.settlement})`);
+      }
+    }
+
+    // The unused budget goes back as a refund, which only EVM networks can send
+    if (route.metering) {
+      for (const option of route.accepts.filter((option) => networkFamily(option.network) !== "evm")) {
+        issues.push(`route "${key}" is metered, which ${option.network} does not support (EVM networks only)`);
+      }
+    }
+
+    // A Solana transaction expires within minutes, too soon to wait for a batch
+    if (route.settlement === "deferred") {
+      for (const option of route.accepts.filter((option) => networkFamily(option.network) !== "evm")) {
+        issues.push(`route "${key}" defers settlement, which ${option.network} does not support (EVM networks only)`);
+      }
+    }
+
+    route.pricing?.rules.forEach((rule, n) => {
+      if ("error" in processPriceToAtomicAmount(rule.price, route.accepts[0].network)) {
+        issues.push(
+          `route "${key}" pricing rule ${n + 1} has invalid price "${rule.price}" (expected a USD amount such as "$0.01")`
+        );
+      }
+    });
+  }
+  return issues;
+}
+
+/**
+ * Each tenant's routes are validated like the top-level ones, against the
+ * tenant's pay-to addresses. Tenants must be told apart unambiguously, and
+ * splits must name other tenants that can be credited on every network.
+ */
+function validateTenants(registry: Registry): string[] {
+  const issues: string[] = [];
+  const facilitators = new Map(registry.facilitators.map((f) => [f.id, f]));
+  const tenants = new Map<string, TenantDefinition>();
+  const selectors = new Map<string, string>();
+  const claim = (selector: string, id: string) => {
+    const owner = selectors.get(selector);
+    if (owner && owner !== id) issues.push(`tenants "${owner}" and "${id}" share ${selector}`);
+    selectors.set(selector, id);
+  };
+
+  for (const tenant of registry.tenants) {
+    if (tenants.has(tenant.id)) issues.push(`tenant "${tenant.id}" is defined more than once`);
+    tenants.set(tenant.id, tenant);
+    if (tenant.pathPrefix) claim(`path prefix ${tenant.pathPrefix}`, tenant.id);
+    if (tenant.subdomain) claim(`subdomain ${tenant.subdomain}`, tenant.id);
+  }
+  // Keys are secrets, so a clash is reported without naming them
+  const keys = registry.tenants.flatMap((t) => t.apiKeys ?? []);
+  if (new Set(keys).size !== keys.length) issues.push("an API key is used more than once across tenants");
+
+  for (const tenant of registry.tenants) {
+    const label = `tenant "${tenant.id}"`;
+    issues.push(...validateRoutes(tenantRegistry(registry, tenant), facilitators).map((issue) => `${label}: ${issue}`));
+
+    const networks = new Set(tenant.routes.flatMap((route) => route.accepts.map((option) => option.network)));
+    for (const network of networks) {
+      if (!tenant.payTo[network]) issues.push(`${label} has no payTo address for ${network}, which its routes accept`);
+    }
+
+    let percent = 0;
+    for (const split of tenant.splits) {
+      percent += split.percent;
+      const recipient = tenants.get(split.tenant);
+      if (!recipient || split.tenant === tenant.id) {
+        issues.push(`${label} splits revenue with ${recipient ? "itself" : `unknown tenant "${split.tenant}"`}`);
+        continue;
+      }
+      for (const network of networks) {
+        if (!recipient.payTo[network]) {
+          issues.push(`${label} splits revenue with "${split.tenant}", which has no payTo address for ${network}`);
+        }
+      }
+    }
+    if (percent >= 100) issues.push(`${label} splits away ${percent}% of its revenue (must be under 100%)`);
+  }
+  return issues;
+}
+
+/**
+ * Every network must belong to the profile, so a testnet server never asks
+ * for mainnet funds and a production one never accepts test tokens; in
+ * production, pay-to addresses must not be template placeholders.
+ */
+function validateProfile(registry: Registry): string[] {
+  const { profile } = registry;
+  const issues: string[] = [];
+  const foreign = (network: string) => !profile.networks.includes(network as Network);
+  const allowed = `the ${profile.name} profile allows ${profile.networks.join(", ")}`;
+
+  for (const facilitator of registry.facilitators) {
+    for (const network of facilitator.networks.filter(foreign)) {
+      issues.push(`facilitator "${facilitator.id}" uses ${network}, but ${allowed}`);
+    }
+    if (!profile.production) continue;
+    for (const [network, address] of Object.entries(facilitator.payTo)) {
+      if (isPlaceholderAddress(address)) {
+        issues.push(`facilitator "${facilitator.id}" has placeholder payTo.${network} "${address}"`);
+      }
+    }
+  }
+  for (const tenant of registry.tenants) {
+    for (const [network, address] of Object.entries(tenant.payTo)) {
+      if (foreign(network)) issues.push(`tenant "${tenant.id}" has payTo.${network}, but ${allowed}`);
+      else if (profile.production && isPlaceholderAddress(address)) {
+        issues.push(`tenant "${tenant.id}" has placeholder payTo.${network} "${address}"`);
+      }
+    }
+  }
+  const routes = [
+    ...registry.routes.map((route) => ({ route, label: "" })),
+    ...registry.tenants.flatMap((t) => t.routes.map((route) => ({ route, label: `tenant "${t.id}": ` }))),
+  ];
+  for (const { route, label } of routes) {
+    for (const option of route.accepts.filter((option) => foreign(option.network))) {
+      issues.push(`${label}route "${routeKey(route)}" accepts ${option.network}, but ${allowed}`);
+    }
+  }
+  return issues;
+}
+
+function validateOption(
+  facilitators: Map<string, FacilitatorDefinition>,
+  key: string,
+  option: PaymentOption
+): string[] {
+  const issues: string[] = [];
+  const label = `route "${key}" (${option.network})`;
+
+  const amount = processPriceToAtomicAmount(option.price, option.network);
+  if ("error" in amount) {
+    issues.push(`${label} has invalid price "${option.price}" (expected a USD amount such as "$0.01")`);
+  }
+
+  const payTo = new Set<string>();
+  for (const id of option.facilitators) {
+    const facilitator = facilitators.get(id);
+    if (!facilitator) {
+      issues.push(`${label} references unknown facilitator "${id}"`);
+      continue;
+    }
+    if (!facilitator.networks.includes(option.network)) {
+      issues.push(`${label} uses facilitator "${id}" which does not support ${option.network}`);
+    }
+    const address = facilitator.payTo[option.network];
+    if (!address) {
+      issues.push(`${label} has no payTo address: facilitator "${id}" lacks payTo.${option.network}`);
+    } else {
+      payTo.add(address);
+    }
+  }
+  // The client signs a transfer to one payTo, so every facilitator in a
+  // failover chain must settle into the same address.
+  if (payTo.size > 1) {
+    issues.push(`${label} has facilitators with different payTo addresses`);
+  }
+  if (new Set(option.facilitators).size !== option.facilitators.length) {
+    issues.push(`${label} lists the same facilitator more than once`);
+  }
+  return issues;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** The `"METHOD /path"` key x402 route maps are indexed by. */
+export function routeKey(route: Pick<PaidRouteDefinition, "method" | "path">): string {
+  return `${route.method} ${route.path}`;
+}
+
+/** The facilitators a payment option may use, in failover order. Only call after validation. */
+export function facilitatorsFor(registry: Registry, option: PaymentOption): FacilitatorDefinition[] {
+  return option.facilitators.map((id) => registry.facilitators.find((f) => f.id === id)!);
+}
+
+/**
+ * The registry as one tenant sees it: its routes, and the shared
+ * facilitators paying into the tenant's addresses on the networks they serve.
+ */
+export function tenantRegistry(registry: Registry, tenant: TenantDefinition): Registry {
+  return {
+    ...registry,
+    facilitators: registry.facilitators.map((facilitator) => ({
+      ...facilitator,
+      payTo: {
+        ...facilitator.payTo,
+        ...Object.fromEntries(
+          Object.entries(tenant.payTo).filter(([network]) => facilitator.networks.includes(network as Network))
+        ),
+      },
+    })),
+    routes: tenant.routes,
+    tenants: [],
+  };
+}
+
+/** Resolves the pay-to address a payment option settles into. Only call after validation. */
+export function payToFor(registry: Registry, option: PaymentOption): PayToAddress {
+  return facilitatorsFor(registry, option)[0].payTo[option.network]!;
+}
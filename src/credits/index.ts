@@ -0,0 +1,62 @@
+import { randomBytes } from "node:crypto";
+import { log } from "../observability/logger";
+import { MemoryCreditStore } from "./memory";
+import { SqliteCreditStore } from "./sqlite";
+import { CreditTokenSigner } from "./tokens";
+import type { CreditStore } from "./types";
+
+export * from "./types";
+export { MemoryCreditStore } from "./memory";
+export { SqliteCreditStore } from "./sqlite";
+export { CreditTokenSigner } from "./tokens";
+
+/** Paid route that buys credits. Credits cannot be spent on it. */
+export const TOP_UP_PATH = "/credits/topup";
+
+/**
+ * Picks the credit backend from the environment:
+ *   CREDITS_STORE = sqlite (default) | memory
+ *   CREDITS_PATH  = SQLite file, default ./data/credits.db
+ */
+export function createCreditStore(env: NodeJS.ProcessEnv = process.env): CreditStore {
+  const kind = env.CREDITS_STORE || "sqlite";
+  if (kind === "memory") {
+    return new MemoryCreditStore();
+  }
+  if (kind === "sqlite") {
+    return new SqliteCreditStore(env.CREDITS_PATH || "./data/credits.db");
+  }
+  throw new Error(`Unknown CREDITS_STORE "${kind}" (expected "sqlite" or "memory")`);
+}
+
+/**
+ * Builds the token signer from CREDITS_SECRET and CREDITS_TOKEN_TTL_SECONDS
+ * (default 30 days). Without a secret a random one is used, so tokens stop
+ * working when the server restarts.
+ */
+export function createCreditTokenSigner(env: NodeJS.ProcessEnv = process.env): CreditTokenSigner {
+  let secret = env.CREDITS_SECRET;
+  if (!secret) {
+    log.warn("CREDITS_SECRET is not set; credit tokens will not survive a restart");
+    secret = randomBytes(32).toString("hex");
+  }
+  return new CreditTokenSigner(secret, Number(env.CREDITS_TOKEN_TTL_SECONDS || 30 * 24 * 60 * 60));
+}
+
+/** Credit accounts are keyed by payer address; EVM addresses are compared lowercased. */
+export function creditAccount(payer: string): string {
+  return payer.startsWith("0x") ? payer.toLowerCase() : payer;
+}
+
+/** Prepaid balances plus the tokens that spend them. */
+export class CreditAccounts {
+  constructor(
+    public readonly store: CreditStore,
+    public readonly tokens: CreditTokenSigner
+  ) {}
+
+  /** The account a bearer token spends from, if the token is valid. */
+  authenticate(token: string): string | undefined {
+    return this.tokens.verify(token)?.sub;
+  }
+}
@@ -0,0 +1,53 @@
+import { randomUUID } from "node:crypto";
+import type { CreditEntry, CreditReason, CreditStore } from "./types";
+
+/** Keeps balances in memory. Meant for tests and throwaway runs. */
+export class MemoryCreditStore implements CreditStore {
+  private readonly balances = new Map<string, bigint>();
+  private readonly log: CreditEntry[] = [];
+
+  async balance(account: string): Promise<string> {
+    return (this.balances.get(account) ?? 0n).toString();
+  }
+
+  async credit(account: string, amount: string, reason: CreditReason, reference: string): Promise<string> {
+    return this.apply(account, BigInt(amount), reason, reference);
+  }
+
+  async debit(account: string, amount: string, reason: CreditReason, reference: string): Promise<string | undefined> {
+    if ((this.balances.get(account) ?? 0n) < BigInt(amount)) return undefined;
+    return this.apply(account, -BigInt(amount), reason, reference);
+  }
+
+  async spentSince(account: string, from: string): Promise<{ route: string; amount: string }[]> {
+    const spent = new Map<string, bigint>();
+    for (const entry of this.log) {
+      if (entry.account !== account || entry.createdAt < from || entry.reason === "top-up") continue;
+      spent.set(entry.reference, (spent.get(entry.reference) ?? 0n) - BigInt(entry.delta));
+    }
+    return [...spent]
+      .filter(([, amount]) => amount > 0n)
+      .map(([route, amount]) => ({ route, amount: amount.toString() }));
+  }
+
+  async entries(account: string, limit?: number): Promise<CreditEntry[]> {
+    const matches = this.log.filter((e) => e.account === account).reverse();
+    return matches.slice(0, limit).map((e) => ({ ...e }));
+  }
+
+  async close(): Promise<void> {}
+
+  private apply(account: string, delta: bigint, reason: CreditReason, reference: string): string {
+    const balance = (this.balances.get(account) ?? 0n) + delta;
+    this.balances.set(account, balance);
+    this.log.push({
+      id: randomUUID(),
+      account,
+      reason,
+      delta: delta.toString(),
+      reference,
+      createdAt: new Date().toISOString(),
+    });
+    return balance.toString();
+  }
+}
@@ -0,0 +1,91 @@
+import { Router, type Request, type Response } from "express";
+import { Registry, routeKey } from "../config/registry";
+import { onSettled, verifiedPayment } from "../payments/context";
+import { atomicToUsd, creditPrice, describePrice } from "../payments/pricing";
+import { CreditAccounts, TOP_UP_PATH, creditAccount } from ".";
+
+// ============================================
+// Prepaid credits API
+// ============================================
+//   POST /topup      - paid route: credits the payer and returns a bearer token
+//   GET  /balance    - balance and recent changes (bearer token)
+//   GET  /remaining  - calls left per paid route at its current price (bearer token)
+
+export function createCreditsRouter(registry: Registry, credits: CreditAccounts): Router {
+  const router = Router();
+
+  // Only reachable with a verified payment when the registry lists the
+  // top-up route; the balance is credited once the payment settles.
+  router.post("/topup", (_req: Request, res: Response) => {
+    const payment = verifiedPayment(res);
+    if (!payment) {
+      res.status(404).json({
+        success: false,
+        error: "Not found",
+        message: `Top-ups are not enabled: add a POST ${TOP_UP_PATH} route to the registry`,
+      });
+      return;
+    }
+    if (!payment.payer) {
+      res.status(400).json({ success: false, error: "The facilitator did not report a payer address" });
+      return;
+    }
+
+    const account = creditAccount(payment.payer);
+    onSettled(res, async () => {
+      await credits.store.credit(account, payment.amount, "top-up", payment.id);
+    });
+
+    const { token, expiresAt } = credits.tokens.issue(account);
+    res.json({
+      success: true,
+      data: {
+        account,
+        credited: { amount: payment.amount, usd: atomicToUsd(payment.amount) },
+        token,
+        tokenType: "Bearer",
+        expiresAt,
+        usage: "Send `Authorization: Bearer <token>` instead of X-PAYMENT on any paid route",
+      },
+      message: "Credits added successfully",
+    });
+  });
+
+  router.get("/balance", async (req: Request, res: Response) => {
+    const account = authenticate(credits, req, res);
+    if (!account) return;
+
+    const [balance, history] = await Promise.all([credits.store.balance(account), credits.store.entries(account, 20)]);
+    res.json({ account, balance: { amount: balance, usd: atomicToUsd(balance) }, history });
+  });
+
+  router.get("/remaining", async (req: Request, res: Response) => {
+    const account = authenticate(credits, req, res);
+    if (!account) return;
+
+    const balance = BigInt(await credits.store.balance(account));
+    const routes: Record<string, object> = {};
+    for (const route of registry.routes) {
+      if (route.path === TOP_UP_PATH) continue;
+      routes[routeKey(route)] = {
+        price: describePrice(route, route.accepts[0]),
+        remainingCalls: Number(balance / BigInt(creditPrice(route))),
+        ...(route.pricing && { note: "The price depends on the request; the count assumes the base price" }),
+      };
+    }
+    res.json({ account, balance: { amount: balance.toString(), usd: atomicToUsd(balance.toString()) }, routes });
+  });
+
+  return router;
+}
+
+function authenticate(credits: CreditAccounts, req: Request, res: Response): string | undefined {
+  const token = /^Bearer (.+)$/.exec(req.header("Authorization") ?? "")?.[1];
+  const account = token && credits.authenticate(token);
+  if (!account) {
+    res.setHeader("WWW-Authenticate", 'Bearer realm="credits"');
+    res.status(401).json({ error: "Unauthorized", message: "A valid credit token is required" });
+    return undefined;
+  }
+  return account;
+}
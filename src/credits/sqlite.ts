@@ -0,0 +1,128 @@
+import Database from "better-sqlite3";
+import { randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { CreditEntry, CreditReason, CreditStore } from "./types";
+
+// Applied in order; PRAGMA user_version records how many have run.
+const MIGRATIONS = [
+  `CREATE TABLE credit_accounts (
+     account     TEXT PRIMARY KEY,
+     balance     INTEGER NOT NULL,
+     updated_at  TEXT NOT NULL
+   );
+   CREATE TABLE credit_entries (
+     id          TEXT PRIMARY KEY,
+     account     TEXT NOT NULL,
+     reason      TEXT NOT NULL,
+     delta       INTEGER NOT NULL,
+     reference   TEXT NOT NULL,
+     created_at  TEXT NOT NULL
+   );
+   CREATE INDEX credit_entries_account ON credit_entries (account, created_at);`,
+];
+
+/**
+ * SQLite credit store. Balances are integers in atomic units; a debit only
+ * applies when the balance covers it, in the same statement, so concurrent
+ * spends cannot overdraw an account.
+ */
+export class SqliteCreditStore implements CreditStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  async balance(account: string): Promise<string> {
+    const row = this.db.prepare("SELECT balance FROM credit_accounts WHERE account = ?").get(account) as
+      | { balance: number }
+      | undefined;
+    return String(row?.balance ?? 0);
+  }
+
+  async credit(account: string, amount: string, reason: CreditReason, reference: string): Promise<string> {
+    return this.db.transaction(() => {
+      const now = new Date().toISOString();
+      this.db
+        .prepare(
+          `INSERT INTO credit_accounts (account, balance, updated_at) VALUES (@account, @amount, @now)
+           ON CONFLICT (account) DO UPDATE SET balance = balance + @amount, updated_at = @now`
+        )
+        .run({ account, amount: Number(amount), now });
+      this.insertEntry(account, reason, Number(amount), reference, now);
+      return this.balanceOf(account);
+    })();
+  }
+
+  async debit(account: string, amount: string, reason: CreditReason, reference: string): Promise<string | undefined> {
+    return this.db.transaction(() => {
+      const now = new Date().toISOString();
+      const { changes } = this.db
+        .prepare(
+          `UPDATE credit_accounts SET balance = balance - @amount, updated_at = @now
+           WHERE account = @account AND balance >= @amount`
+        )
+        .run({ account, amount: Number(amount), now });
+      if (changes === 0) return undefined;
+      this.insertEntry(account, reason, -Number(amount), reference, now);
+      return this.balanceOf(account);
+    })();
+  }
+
+  async spentSince(account: string, from: string): Promise<{ route: string; amount: string }[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT reference AS route, -SUM(delta) AS amount FROM credit_entries
+         WHERE account = ? AND created_at >= ? AND reason IN ('spend', 'refund')
+         GROUP BY reference HAVING amount > 0`
+      )
+      .all(account, from) as { route: string; amount: number }[];
+    return rows.map((row) => ({ route: row.route, amount: String(row.amount) }));
+  }
+
+  async entries(account: string, limit = -1): Promise<CreditEntry[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, account, reason, delta, reference, created_at AS createdAt FROM credit_entries
+         WHERE account = ? ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .all(account, limit) as (Omit<CreditEntry, "delta"> & { delta: number })[];
+    return rows.map((row) => ({ ...row, delta: String(row.delta) }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private balanceOf(account: string): string {
+    const row = this.db.prepare("SELECT balance FROM credit_accounts WHERE account = ?").get(account) as {
+      balance: number;
+    };
+    return String(row.balance);
+  }
+
+  private insertEntry(account: string, reason: CreditReason, delta: number, reference: string, now: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO credit_entries (id, account, reason, delta, reference, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(randomUUID(), account, reason, delta, reference, now);
+  }
+}
@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// ============================================
+// Credit tokens (JWT, HS256)
+// ============================================
+
+export interface CreditTokenClaims {
+  /** Credit account (the payer address) the token spends from. */
+  sub: string;
+  iat: number;
+  exp: number;
+  scope: "credits";
+}
+
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+/**
+ * Issues and checks the bearer tokens handed out on top-up. A token only
+ * names the account; the balance itself stays on the server, so a token
+ * is worthless once the account is spent.
+ */
+export class CreditTokenSigner {
+  constructor(
+    private readonly secret: string,
+    private readonly ttlSeconds: number
+  ) {}
+
+  issue(account: string, now = Date.now()): { token: string; expiresAt: string } {
+    const iat = Math.floor(now / 1000);
+    const claims: CreditTokenClaims = { sub: account, iat, exp: iat + this.ttlSeconds, scope: "credits" };
+    const body = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+    return { token: `${body}.${this.sign(body)}`, expiresAt: new Date(claims.exp * 1000).toISOString() };
+  }
+
+  /** The claims of a valid, unexpired token, else undefined. */
+  verify(token: string, now = Date.now()): CreditTokenClaims | undefined {
+    const [header, payload, signature] = token.split(".");
+    if (header !== HEADER || !payload || !signature) return undefined;
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const presented = Buffer.from(signature);
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) return undefined;
+
+    let claims: CreditTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch {
+      return undefined;
+    }
+    if (claims.scope !== "credits" || typeof claims.sub !== "string" || claims.exp * 1000 <= now) return undefined;
+    return claims;
+  }
+
+  private sign(body: string): string {
+    return createHmac("sha256", this.secret).update(body).digest("base64url");
+  }
+}
+
+function base64url(text: string): string {
+  return Buffer.from(text, "utf8").toString("base64url");
+}
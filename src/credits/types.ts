@@ -0,0 +1,42 @@
+// ============================================
+// Credit balance types
+// ============================================
+
+/** Why a balance changed. */
+export type CreditReason = "top-up" | "spend" | "refund";
+
+/**
+ * One balance change. Amounts are atomic USDC units (6 decimals) as
+ * decimal strings, like the payment ledger.
+ */
+export interface CreditEntry {
+  id: string;
+  account: string;
+  reason: CreditReason;
+  /** Positive for top-ups and refunds, negative for spends. */
+  delta: string;
+  /** Payment id for top-ups, route key for spends and refunds. */
+  reference: string;
+  createdAt: string;
+}
+
+/**
+ * Storage backend for prepaid balances. Implementations: SQLite (default)
+ * and in-memory (tests). Every change is kept as a CreditEntry.
+ */
+export interface CreditStore {
+  /** Current balance of an account ("0" if it never topped up). */
+  balance(account: string): Promise<string>;
+  /** Adds `amount` and returns the new balance. */
+  credit(account: string, amount: string, reason: CreditReason, reference: string): Promise<string>;
+  /** Takes `amount` if the balance covers it and returns the new balance, else undefined. */
+  debit(account: string, amount: string, reason: CreditReason, reference: string): Promise<string | undefined>;
+  /**
+   * Credits the account spent per route key since `from` (ISO 8601), net of
+   * refunds. Routes with nothing left spent are left out.
+   */
+  spentSince(account: string, from: string): Promise<{ route: string; amount: string }[]>;
+  /** Balance changes of an account, newest first. */
+  entries(account: string, limit?: number): Promise<CreditEntry[]>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,107 @@
+import { toJsonSafe } from "x402/shared";
+import type {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedPaymentKindsResponse,
+  VerifyResponse,
+} from "x402/types";
+import type { FacilitatorDefinition } from "../config/registry";
+import { toFacilitatorConfig } from "./config";
+
+/**
+ * Raised when a facilitator call fails at the transport level or with a
+ * non-200 status. `retryable` marks failures worth moving to the next
+ * facilitator for: timeouts, network errors and 5xx responses.
+ * `reached` is false only when the facilitator provably did not act on the
+ * request: the connection was refused or the host unknown, or a proxy in
+ * front of it answered 502/503. After a timeout or any other error it may
+ * have (for settle: submitted the transfer).
+ */
+export class FacilitatorRequestError extends Error {
+  constructor(
+    public readonly facilitatorId: string,
+    message: string,
+    public readonly retryable: boolean,
+    public readonly status?: number,
+    public readonly reached = true
+  ) {
+    super(message);
+    this.name = "FacilitatorRequestError";
+  }
+}
+
+export interface FacilitatorClient {
+  id: string;
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>;
+  supported(): Promise<SupportedPaymentKindsResponse>;
+}
+
+// Network errors raised before the request could be sent
+const NOT_CONNECTED = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"]);
+
+/**
+ * HTTP client for a registry facilitator. Same wire format as x402's
+ * `useFacilitator`, plus a per-request timeout and typed errors so the
+ * failover chain can tell outages apart from rejected payments.
+ */
+export function createFacilitatorClient(definition: FacilitatorDefinition, timeoutMs: number): FacilitatorClient {
+  const config = toFacilitatorConfig(definition);
+
+  async function request<T>(action: "verify" | "settle" | "supported", init: RequestInit): Promise<T> {
+    let headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.createAuthHeaders) {
+      const authHeaders = await config.createAuthHeaders();
+      headers = { ...headers, ...authHeaders[action] };
+    }
+
+    let res: globalThis.Response;
+    try {
+      res = await fetch(`${config.url}/${action}`, {
+        ...init,
+        headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error: any) {
+      const reason = error?.name === "TimeoutError" ? `timed out after ${timeoutMs}ms` : error.message;
+      const reached = !NOT_CONNECTED.has(error?.cause?.code);
+      throw new FacilitatorRequestError(definition.id, `${action} request failed: ${reason}`, true, undefined, reached);
+    }
+
+    if (res.status !== 200) {
+      let message = `${action} failed: ${res.status} ${res.statusText}`;
+      try {
+        const data = (await res.json()) as { error?: string };
+        if (data.error) message = data.error;
+      } catch {
+        // Body was not JSON - keep the status text
+      }
+      throw new FacilitatorRequestError(
+        definition.id,
+        message,
+        res.status >= 500,
+        res.status,
+        res.status !== 502 && res.status !== 503
+      );
+    }
+    return (await res.json()) as T;
+  }
+
+  function paymentBody(payload: PaymentPayload, requirements: PaymentRequirements): string {
+    return JSON.stringify({
+      x402Version: payload.x402Version,
+      paymentPayload: toJsonSafe(payload),
+      paymentRequirements: toJsonSafe(requirements),
+    });
+  }
+
+  return {
+    id: definition.id,
+    verify: (payload, requirements) =>
+      request<VerifyResponse>("verify", { method: "POST", body: paymentBody(payload, requirements) }),
+    settle: (payload, requirements) =>
+      request<SettleResponse>("settle", { method: "POST", body: paymentBody(payload, requirements) }),
+    supported: () => request<SupportedPaymentKindsResponse>("supported", { method: "GET" }),
+  };
+}
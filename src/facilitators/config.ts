@@ -0,0 +1,21 @@
+import { facilitator as coinbaseFacilitator } from "@coinbase/x402";
+import type { FacilitatorConfig, Resource } from "x402/types";
+import type { FacilitatorDefinition } from "../config/registry";
+
+/**
+ * Maps a registry facilitator to the config x402 expects. URL-based
+ * facilitators are called directly; `@coinbase/x402` brings its own URL and
+ * CDP auth headers (CDP_API_KEY_ID / CDP_API_KEY_SECRET). A `url` set on a
+ * package facilitator wins, so it can be pointed at a mock without CDP keys.
+ */
+export function toFacilitatorConfig(definition: FacilitatorDefinition): FacilitatorConfig {
+  if (definition.url) {
+    return { url: definition.url as Resource };
+  }
+  return coinbaseFacilitator;
+}
+
+/** Where a facilitator lives, for display: its URL or package name. */
+export function facilitatorLocation(definition: FacilitatorDefinition): { url: string } | { package: string } {
+  return definition.url ? { url: definition.url } : { package: definition.package! };
+}
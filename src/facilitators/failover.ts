@@ -0,0 +1,293 @@
+import type { Network, PaymentPayload, PaymentRequirements, SettleResponse, VerifyResponse } from "x402/types";
+import type { Registry } from "../config/registry";
+import { log } from "../observability/logger";
+import { FacilitatorClient, FacilitatorRequestError, createFacilitatorClient } from "./client";
+
+// ============================================
+// Circuit breaker
+// ============================================
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Opens after `threshold` consecutive retryable failures and stays open for
+ * `cooldownMs`. Once the cool-down elapses the next call is a trial: success
+ * closes the circuit, another failure re-opens it straight away. Only one
+ * trial runs at a time; other calls are turned away until it is done.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private trial = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  state(now = Date.now()): CircuitState {
+    if (this.failures < this.threshold) return "closed";
+    return now < this.openUntil ? "open" : "half-open";
+  }
+
+  /**
+   * Whether a call may go through now: always while closed, never while
+   * open, and as the trial when half-open and no trial is running. A call
+   * let through must end with recordSuccess, recordFailure or endTrial.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    const state = this.state(now);
+    if (state === "closed") return true;
+    if (state === "open" || this.trial) return false;
+    this.trial = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.trial = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    this.trial = false;
+    if (this.failures >= this.threshold) {
+      this.openUntil = now + this.cooldownMs;
+    }
+  }
+
+  /** Ends a call that says nothing about the facilitator's health. */
+  endTrial(): void {
+    this.trial = false;
+  }
+}
+
+// ============================================
+// Facilitator pool
+// ============================================
+
+export interface FailoverAttempt {
+  facilitatorId: string;
+  error: string;
+}
+
+/** Every facilitator in a chain was skipped or failed with a retryable error. */
+export class FacilitatorUnavailableError extends Error {
+  constructor(
+    public readonly action: string,
+    public readonly attempts: FailoverAttempt[]
+  ) {
+    super(
+      `No facilitator could ${action} the payment: ${attempts.map((a) => `${a.facilitatorId} (${a.error})`).join(", ")}`
+    );
+    this.name = "FacilitatorUnavailableError";
+  }
+}
+
+/**
+ * A settle request failed in a way that does not tell whether the
+ * facilitator submitted the transfer (e.g. it timed out). It is not sent to
+ * the next facilitator: the payment may already be settled on-chain.
+ */
+export class SettlementOutcomeUnknownError extends Error {
+  constructor(
+    public readonly facilitatorId: string,
+    reason: string
+  ) {
+    super(`Settlement outcome unknown: ${reason}`);
+    this.name = "SettlementOutcomeUnknownError";
+  }
+}
+
+export type FacilitatorAction = "verify" | "settle";
+
+/**
+ * One verify or settle request to one facilitator. `rejected` means the
+ * facilitator answered but declined the payment; `error` means the request
+ * itself failed.
+ */
+export interface FacilitatorCall {
+  facilitator: string;
+  action: FacilitatorAction;
+  outcome: "success" | "rejected" | "error";
+  latencyMs: number;
+  at: string;
+  error?: string;
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  facilitatorId: string;
+}
+
+/**
+ * Holds one client and circuit breaker per registry facilitator and runs
+ * verify/settle calls down an ordered chain. Verify moves on when a
+ * facilitator times out, cannot be reached or answers 5xx. Settle is not
+ * idempotent, so it only moves on when the facilitator provably did not act
+ * on the request (see `FacilitatorRequestError.reached`); otherwise it
+ * throws SettlementOutcomeUnknownError.
+ */
+export class FacilitatorPool {
+  private readonly clients = new Map<string, FacilitatorClient>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly callListeners: ((call: FacilitatorCall) => void)[] = [];
+  private readonly feePayers = new Map<string, Promise<string | undefined>>();
+
+  constructor(registry: Registry) {
+    const { timeoutMs, failureThreshold, cooldownMs } = registry.failover;
+    for (const definition of registry.facilitators) {
+      this.clients.set(definition.id, createFacilitatorClient(definition, timeoutMs));
+      this.breakers.set(definition.id, new CircuitBreaker(failureThreshold, cooldownMs));
+    }
+  }
+
+  client(id: string): FacilitatorClient {
+    const client = this.clients.get(id);
+    if (!client) throw new Error(`Unknown facilitator: ${id}`);
+    return client;
+  }
+
+  /** Registers a listener notified after every verify/settle request. */
+  onCall(listener: (call: FacilitatorCall) => void): void {
+    this.callListeners.push(listener);
+  }
+
+  circuitState(id: string): CircuitState {
+    return this.breakers.get(id)!.state();
+  }
+
+  /**
+   * The fee payer a facilitator advertises for a Solana network in
+   * `/supported`. Solana payments are co-signed by it, so only that
+   * facilitator can verify or settle them. Lookups are cached; failed ones
+   * are retried on the next call.
+   */
+  feePayer(facilitatorId: string, network: Network): Promise<string | undefined> {
+    const key = `${facilitatorId}:${network}`;
+    if (!this.feePayers.has(key)) {
+      const lookup = this.client(facilitatorId)
+        .supported()
+        .then((supported) => {
+          const kind = supported.kinds.find((k) => k.network === network && k.scheme === "exact");
+          return kind?.extra?.feePayer as string | undefined;
+        });
+      lookup.catch(() => this.feePayers.delete(key));
+      this.feePayers.set(key, lookup);
+    }
+    return this.feePayers.get(key)!;
+  }
+
+  /** Fee payer of the first facilitator in `chain` that is up and advertises one. */
+  async firstFeePayer(chain: string[], network: Network): Promise<string | undefined> {
+    for (const id of chain) {
+      if (this.circuitState(id) === "open") continue;
+      const feePayer = await this.feePayer(id, network).catch(() => undefined);
+      if (feePayer) return feePayer;
+    }
+    return undefined;
+  }
+
+  verify(
+    chain: string[],
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<FailoverResult<VerifyResponse>> {
+    return this.run(
+      chain,
+      "verify",
+      (client) => client.verify(payload, requirements),
+      (result) => result.isValid
+    );
+  }
+
+  settle(
+    chain: string[],
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<FailoverResult<SettleResponse>> {
+    return this.run(
+      chain,
+      "settle",
+      (client) => client.settle(payload, requirements),
+      (result) => result.success
+    );
+  }
+
+  private async run<T>(
+    chain: string[],
+    action: FacilitatorAction,
+    call: (client: FacilitatorClient) => Promise<T>,
+    accepted: (result: T) => boolean
+  ): Promise<FailoverResult<T>> {
+    const attempts: FailoverAttempt[] = [];
+
+    for (const facilitatorId of chain) {
+      const breaker = this.breakers.get(facilitatorId)!;
+      if (!breaker.tryAcquire()) {
+        const error = breaker.state() === "open" ? "circuit open" : "circuit half-open, trial call in flight";
+        attempts.push({ facilitatorId, error });
+        continue;
+      }
+
+      const started = Date.now();
+      try {
+        const result = await call(this.client(facilitatorId));
+        breaker.recordSuccess();
+        this.notify({
+          facilitator: facilitatorId,
+          action,
+          outcome: accepted(result) ? "success" : "rejected",
+          latencyMs: Date.now() - started,
+          at: new Date(started).toISOString(),
+        });
+        return { result, facilitatorId };
+      } catch (error) {
+        this.notify({
+          facilitator: facilitatorId,
+          action,
+          outcome: "error",
+          latencyMs: Date.now() - started,
+          at: new Date(started).toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!(error instanceof FacilitatorRequestError)) {
+          breaker.endTrial();
+          throw error;
+        }
+        if (!error.retryable) {
+          // It answered, so it is up
+          breaker.recordSuccess();
+          throw error;
+        }
+        breaker.recordFailure();
+        if (action === "settle" && error.reached) {
+          log.error("settle request failed after it may have been acted on, not trying the next facilitator", {
+            facilitator: facilitatorId,
+            error: error.message,
+          });
+          throw new SettlementOutcomeUnknownError(facilitatorId, error.message);
+        }
+        attempts.push({ facilitatorId, error: error.message });
+        log.warn("facilitator request failed, trying next facilitator", {
+          facilitator: facilitatorId,
+          action,
+          error: error.message,
+        });
+      }
+    }
+
+    throw new FacilitatorUnavailableError(action, attempts);
+  }
+
+  private notify(call: FacilitatorCall): void {
+    for (const listener of this.callListeners) {
+      try {
+        listener(call);
+      } catch (error) {
+        log.error("facilitator call listener failed", { error });
+      }
+    }
+  }
+}
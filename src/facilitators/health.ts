@@ -0,0 +1,197 @@
+import type { Network } from "x402/types";
+import { PaidRouteDefinition, Registry, routeKey } from "../config/registry";
+import { FacilitatorClient, createFacilitatorClient } from "./client";
+import { CircuitState, FacilitatorPool } from "./failover";
+
+// ============================================
+// Facilitator health probes
+// ============================================
+
+/**
+ * `up`: answered `/supported` and lists every network we use it for.
+ * `unsupported`: answered, but misses at least one of those networks.
+ * `down`: the probe failed or timed out. `unknown`: not probed yet.
+ */
+export type FacilitatorStatus = "up" | "unsupported" | "down" | "unknown";
+
+export interface FacilitatorHealth {
+  status: FacilitatorStatus;
+  /** Latency of the last probe in milliseconds. */
+  latencyMs: number | null;
+  checkedAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: { message: string; at: string } | null;
+  circuit: CircuitState;
+  /** Whether `/supported` lists the `exact` scheme on each network we rely on. */
+  supports: Record<string, boolean | null>;
+}
+
+export type RouteStatus = "ok" | "degraded" | "down";
+
+export interface RouteHealth {
+  status: RouteStatus;
+  /** Working facilitators per payment option network. */
+  networks: Record<string, string[]>;
+}
+
+export type OverallStatus = "healthy" | "degraded" | "unhealthy" | "starting";
+
+export interface HealthReport {
+  status: OverallStatus;
+  checkedAt: string | null;
+  facilitators: Record<string, FacilitatorHealth>;
+  routes: Record<string, RouteHealth>;
+}
+
+export interface HealthMonitorOptions {
+  /** Time between probe rounds. */
+  intervalMs: number;
+  /** Per-probe timeout. */
+  timeoutMs: number;
+}
+
+/**
+ * Probes each facilitator's `/supported` endpoint on an interval and keeps
+ * the latest results, so health checks never wait on a facilitator.
+ *
+ * A route option works while at least one facilitator in its chain is up,
+ * supports the option's network and is not skipped by its circuit breaker.
+ * Overall status is `healthy` when every route works through every
+ * facilitator, `degraded` when a facilitator or a route (or one of its
+ * options) is down, and `unhealthy` when no paid route can be paid for.
+ */
+export class FacilitatorHealthMonitor {
+  private readonly clients = new Map<string, FacilitatorClient>();
+  private readonly results = new Map<string, Omit<FacilitatorHealth, "circuit">>();
+  /** Networks each facilitator is used for by at least one route. */
+  private readonly reliedOn = new Map<string, Set<Network>>();
+  private lastRound: string | null = null;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly registry: Registry,
+    private readonly pool: FacilitatorPool,
+    private readonly options: HealthMonitorOptions
+  ) {
+    for (const definition of registry.facilitators) {
+      this.clients.set(definition.id, createFacilitatorClient(definition, options.timeoutMs));
+      this.reliedOn.set(definition.id, new Set());
+    }
+    for (const route of [...registry.routes, ...registry.tenants.flatMap((tenant) => tenant.routes)]) {
+      for (const option of route.accepts) {
+        for (const id of option.facilitators) this.reliedOn.get(id)!.add(option.network);
+      }
+    }
+    for (const [id, networks] of this.reliedOn) {
+      this.results.set(id, {
+        status: "unknown",
+        latencyMs: null,
+        checkedAt: null,
+        lastSuccessAt: null,
+        lastError: null,
+        supports: Object.fromEntries([...networks].map((network) => [network, null])),
+      });
+    }
+  }
+
+  /** Probes now, then every `intervalMs`. The timer does not keep the process alive. */
+  start(): void {
+    void this.probeAll();
+    this.timer = setInterval(() => void this.probeAll(), this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  async probeAll(): Promise<void> {
+    await Promise.all([...this.clients.keys()].map((id) => this.probe(id)));
+    this.lastRound = new Date().toISOString();
+  }
+
+  private async probe(id: string): Promise<void> {
+    const previous = this.results.get(id)!;
+    const started = Date.now();
+    const checkedAt = new Date(started).toISOString();
+    try {
+      const { kinds } = await this.clients.get(id)!.supported();
+      const supports: Record<string, boolean> = {};
+      for (const network of this.reliedOn.get(id)!) {
+        supports[network] = kinds.some((k) => k.network === network && k.scheme === "exact");
+      }
+      const missing = Object.entries(supports).filter(([, ok]) => !ok);
+      this.results.set(id, {
+        status: missing.length > 0 ? "unsupported" : "up",
+        latencyMs: Date.now() - started,
+        checkedAt,
+        lastSuccessAt: checkedAt,
+        lastError:
+          missing.length > 0
+            ? { message: `exact scheme not supported on ${missing.map(([n]) => n).join(", ")}`, at: checkedAt }
+            : previous.lastError,
+        supports,
+      });
+    } catch (error) {
+      this.results.set(id, {
+        ...previous,
+        status: "down",
+        latencyMs: Date.now() - started,
+        checkedAt,
+        lastError: { message: error instanceof Error ? error.message : String(error), at: checkedAt },
+      });
+    }
+  }
+
+  /** Latest probe results, with the status of `routes` (the top-level routes by default, or a tenant's). */
+  report(routes: PaidRouteDefinition[] = this.registry.routes): HealthReport {
+    const facilitators: Record<string, FacilitatorHealth> = {};
+    for (const [id, result] of this.results) {
+      facilitators[id] = { ...result, circuit: this.pool.circuitState(id) };
+    }
+
+    const routeHealth: Record<string, RouteHealth> = {};
+    for (const route of routes) {
+      const networks: Record<string, string[]> = {};
+      for (const option of route.accepts) {
+        networks[option.network] = option.facilitators.filter((id) => {
+          const health = facilitators[id];
+          return health.supports[option.network] === true && health.status !== "down" && health.circuit !== "open";
+        });
+      }
+      const working = Object.values(networks).filter((ids) => ids.length > 0).length;
+      routeHealth[routeKey(route)] = {
+        status: working === route.accepts.length ? "ok" : working > 0 ? "degraded" : "down",
+        networks,
+      };
+    }
+
+    return {
+      status: this.overall(facilitators, routeHealth),
+      checkedAt: this.lastRound,
+      facilitators,
+      routes: routeHealth,
+    };
+  }
+
+  private overall(facilitators: Record<string, FacilitatorHealth>, routes: Record<string, RouteHealth>): OverallStatus {
+    if (!this.lastRound) return "starting";
+    const routeStatuses = Object.values(routes).map((r) => r.status);
+    if (routeStatuses.length > 0 && routeStatuses.every((s) => s === "down")) return "unhealthy";
+    const allUp = Object.values(facilitators).every((f) => f.status === "up" && f.circuit !== "open");
+    return allUp && routeStatuses.every((s) => s === "ok") ? "healthy" : "degraded";
+  }
+}
+
+/**
+ * Networks that a facilitator answered `/supported` for without listing
+ * them, i.e. routes that would be refused on that network. Facilitators
+ * that did not answer are left out: nothing is known about them yet.
+ */
+export function unsupportedNetworks(report: HealthReport): { facilitator: string; network: string }[] {
+  return Object.entries(report.facilitators).flatMap(([facilitator, health]) =>
+    Object.entries(health.supports)
+      .filter(([, supported]) => supported === false)
+      .map(([network]) => ({ facilitator, network }))
+  );
+}
@@ -0,0 +1,220 @@
+import express, { Express, Request, Response } from "express";
+import { randomBytes } from "node:crypto";
+import { getAddress, verifyTypedData } from "viem";
+import { getNetworkId } from "x402/shared";
+import {
+  ExactEvmPayload,
+  Network,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+  VerifyResponse,
+  evm,
+} from "x402/types";
+
+// ============================================
+// Mock facilitator
+// ============================================
+// Implements the facilitator HTTP API (/verify, /settle, /supported) in
+// process, for offline development and tests. EVM payments get a real
+// EIP-3009 signature check with viem; nothing is sent on-chain and settle
+// returns a random transaction hash. Solana payloads are accepted as-is.
+
+export type MockFailure =
+  | "none"
+  | "invalid_signature" // verify reports a bad signature
+  | "insufficient_funds" // verify and settle report insufficient funds
+  | "timeout" // every endpoint hangs for `timeoutMs`, then answers 504
+  | "settle_timeout" // verify succeeds, settle hangs for `timeoutMs`, then answers 504
+  | "settle_failure"; // verify succeeds, settle fails
+
+export const MOCK_FAILURES: MockFailure[] = [
+  "none",
+  "invalid_signature",
+  "insufficient_funds",
+  "timeout",
+  "settle_timeout",
+  "settle_failure",
+];
+
+export interface MockFacilitatorOptions {
+  /** Networks advertised by /supported. */
+  networks?: Network[];
+  /** Failure to simulate; can be changed later with setFailure() or PUT /mock/failure. */
+  failure?: MockFailure;
+  /** How long a simulated timeout hangs before answering. */
+  timeoutMs?: number;
+  /** Fee payer advertised for Solana networks. */
+  svmFeePayer?: string;
+}
+
+export interface MockFacilitator {
+  app: Express;
+  setFailure(failure: MockFailure): void;
+  /** Payments settled so far, newest last. */
+  settlements: SettleResponse[];
+}
+
+const DEFAULT_NETWORKS: Network[] = ["base-sepolia", "base", "solana-devnet", "solana"];
+const DEFAULT_SVM_FEE_PAYER = "MockFeePayer1111111111111111111111111111111";
+
+export function createMockFacilitator(options: MockFacilitatorOptions = {}): MockFacilitator {
+  const networks = options.networks ?? DEFAULT_NETWORKS;
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const svmFeePayer = options.svmFeePayer ?? DEFAULT_SVM_FEE_PAYER;
+  let failure: MockFailure = options.failure ?? "none";
+  const usedNonces = new Set<string>();
+  const settlements: SettleResponse[] = [];
+
+  const app = express();
+  app.use(express.json());
+
+  // Simulated outage: hold facilitator calls, then give up with a 504.
+  app.use((req, res, next) => {
+    const hangs = failure === "timeout" ? !req.path.startsWith("/mock/") : failure === "settle_timeout" && req.path === "/settle";
+    if (!hangs) return next();
+    setTimeout(() => {
+      if (!res.headersSent) res.status(504).json({ error: "Mock facilitator timed out" });
+    }, timeoutMs);
+  });
+
+  app.get("/supported", (_req: Request, res: Response) => {
+    res.json({
+      kinds: networks.map((network) => ({
+        x402Version: 1,
+        scheme: "exact",
+        network,
+        ...(SupportedSVMNetworks.includes(network) && { extra: { feePayer: svmFeePayer } }),
+      })),
+    });
+  });
+
+  app.post("/verify", async (req: Request, res: Response) => {
+    const { paymentPayload, paymentRequirements } = req.body as {
+      paymentPayload: PaymentPayload;
+      paymentRequirements: PaymentRequirements;
+    };
+    res.json(await verifyPayment(paymentPayload, paymentRequirements));
+  });
+
+  app.post("/settle", async (req: Request, res: Response) => {
+    const { paymentPayload, paymentRequirements } = req.body as {
+      paymentPayload: PaymentPayload;
+      paymentRequirements: PaymentRequirements;
+    };
+    const network = paymentRequirements.network;
+    const verification = await verifyPayment(paymentPayload, paymentRequirements);
+    const payer = verification.payer ?? "";
+
+    let response: SettleResponse;
+    if (!verification.isValid) {
+      response = { success: false, errorReason: verification.invalidReason, transaction: "", network, payer };
+    } else if (failure === "settle_failure") {
+      response = { success: false, errorReason: "unexpected_settle_error", transaction: "", network, payer };
+    } else {
+      const nonce = nonceOf(paymentPayload);
+      if (nonce && usedNonces.has(nonce)) {
+        response = { success: false, errorReason: "invalid_transaction_state", transaction: "", network, payer };
+      } else {
+        if (nonce) usedNonces.add(nonce);
+        response = { success: true, transaction: `0x${randomBytes(32).toString("hex")}`, network, payer };
+        settlements.push(response);
+      }
+    }
+    res.json(response);
+  });
+
+  app.put("/mock/failure", (req: Request, res: Response) => {
+    const next = req.body?.failure as MockFailure;
+    if (!MOCK_FAILURES.includes(next)) {
+      res.status(400).json({ error: `failure must be one of: ${MOCK_FAILURES.join(", ")}` });
+      return;
+    }
+    failure = next;
+    res.json({ failure });
+  });
+
+  async function verifyPayment(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    if (payload.scheme !== "exact" || requirements.scheme !== "exact") {
+      return { isValid: false, invalidReason: "unsupported_scheme" };
+    }
+    if (payload.network !== requirements.network || !networks.includes(requirements.network)) {
+      return { isValid: false, invalidReason: "invalid_network" };
+    }
+    if (SupportedSVMNetworks.includes(requirements.network)) {
+      return { isValid: true, payer: "MockSolanaPayer" };
+    }
+    if (!SupportedEVMNetworks.includes(requirements.network)) {
+      return { isValid: false, invalidReason: "invalid_network" };
+    }
+
+    const { authorization, signature } = payload.payload as ExactEvmPayload;
+    const payer = authorization.from;
+
+    if (failure === "invalid_signature") {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_signature", payer };
+    }
+
+    let signatureValid = false;
+    try {
+      signatureValid = await verifyTypedData({
+        address: getAddress(authorization.from),
+        types: evm.authorizationTypes,
+        primaryType: "TransferWithAuthorization",
+        domain: {
+          name: requirements.extra?.name,
+          version: requirements.extra?.version,
+          chainId: getNetworkId(requirements.network),
+          verifyingContract: getAddress(requirements.asset),
+        },
+        message: {
+          from: getAddress(authorization.from),
+          to: getAddress(authorization.to),
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+          nonce: authorization.nonce as `0x${string}`,
+        },
+        signature: signature as `0x${string}`,
+      });
+    } catch {
+      signatureValid = false;
+    }
+    if (!signatureValid) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_signature", payer };
+    }
+
+    if (getAddress(authorization.to) !== getAddress(requirements.payTo)) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_recipient_mismatch", payer };
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (BigInt(authorization.validBefore) < BigInt(now + 6)) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_before", payer };
+    }
+    if (BigInt(authorization.validAfter) > BigInt(now)) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_after", payer };
+    }
+    if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_value", payer };
+    }
+    if (failure === "insufficient_funds") {
+      return { isValid: false, invalidReason: "insufficient_funds", payer };
+    }
+    return { isValid: true, payer };
+  }
+
+  return {
+    app,
+    setFailure(next) {
+      failure = next;
+    },
+    settlements,
+  };
+}
+
+function nonceOf(payload: PaymentPayload): string | undefined {
+  const evmPayload = payload.payload as Partial<ExactEvmPayload>;
+  return evmPayload.authorization?.nonce;
+}
@@ -0,0 +1,174 @@
+import { randomUUID } from "node:crypto";
+import type { FacilitatorCall } from "../facilitators/failover";
+import { log } from "../observability/logger";
+import { MemoryLedgerStore } from "./memory";
+import { SqliteLedgerStore } from "./sqlite";
+import type { LedgerStore, PaymentRecord, RevenueShare } from "./types";
+
+export * from "./types";
+export { MemoryLedgerStore } from "./memory";
+export { SqliteLedgerStore } from "./sqlite";
+
+/**
+ * Picks the ledger backend from the environment:
+ *   LEDGER_STORE = sqlite (default) | memory
+ *   LEDGER_PATH  = SQLite file, default ./data/ledger.db
+ */
+export function createLedgerStore(env: NodeJS.ProcessEnv = process.env): LedgerStore {
+  const kind = env.LEDGER_STORE || "sqlite";
+  if (kind === "memory") {
+    return new MemoryLedgerStore();
+  }
+  if (kind === "sqlite") {
+    return new SqliteLedgerStore(env.LEDGER_PATH || "./data/ledger.db");
+  }
+  throw new Error(`Unknown LEDGER_STORE "${kind}" (expected "sqlite" or "memory")`);
+}
+
+export type NewPayment = Pick<
+  PaymentRecord,
+  "tenant" | "route" | "price" | "amount" | "asset" | "network" | "payTo" | "payer" | "nonce"
+>;
+
+export type PaymentChangeListener = (record: PaymentRecord) => void | Promise<void>;
+
+/**
+ * Records payment attempts as they move through the payment flow. Writes
+ * for one payment are applied in order; a storage error is logged but
+ * never fails the request, since the payment itself is already in flight.
+ */
+export class PaymentLedger {
+  private readonly changeListeners: PaymentChangeListener[] = [];
+
+  constructor(public readonly store: LedgerStore) {}
+
+  /** Registers a listener called with the stored record after every payment status change. */
+  onChange(listener: PaymentChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  /** Records a new payment, with the revenue shares its amount is split into (if any). */
+  begin(payment: NewPayment, shares: Omit<RevenueShare, "paymentId">[] = []): LedgerEntry {
+    const now = new Date().toISOString();
+    const record: PaymentRecord = {
+      ...payment,
+      id: randomUUID(),
+      facilitator: null,
+      status: "pending",
+      verifyValid: null,
+      verifyReason: null,
+      txHash: null,
+      failureReason: null,
+      createdAt: now,
+      verifiedAt: null,
+      settledAt: null,
+      refundStatus: null,
+      refundReason: null,
+      refundAmount: null,
+      refundTxHash: null,
+      refundError: null,
+      refundedAt: null,
+      updatedAt: now,
+    };
+    const stored = this.store.insert(record).then(async () => {
+      if (shares.length > 0) await this.store.insertShares(shares.map((share) => ({ ...share, paymentId: record.id })));
+    });
+    return new LedgerEntry(this.store, record.id, stored, (changed) => this.notify(changed));
+  }
+
+  /** Entry for a payment recorded earlier, e.g. one settled in the background. */
+  resume(id: string): LedgerEntry {
+    return new LedgerEntry(this.store, id, Promise.resolve(), (changed) => this.notify(changed));
+  }
+
+  /** Stores a facilitator call for the admin stats; errors are logged only. */
+  recordCall(call: FacilitatorCall): void {
+    this.store.recordCall(call).catch((error) => {
+      log.error("ledger write failed for facilitator call", { error });
+    });
+  }
+
+  private notify(record: PaymentRecord): void {
+    for (const listener of this.changeListeners) {
+      Promise.resolve()
+        .then(() => listener(record))
+        .catch((error) => log.error("payment change listener failed", { paymentId: record.id, error }));
+    }
+  }
+}
+
+export class LedgerEntry {
+  constructor(
+    private readonly store: LedgerStore,
+    public readonly id: string,
+    private pending: Promise<void>,
+    private readonly changed: (record: PaymentRecord) => void
+  ) {
+    this.pending = pending.catch((error) => logLedgerError(id, error));
+  }
+
+  verified(facilitator: string, payer: string | undefined): Promise<void> {
+    const now = new Date().toISOString();
+    return this.write({
+      status: "verified",
+      facilitator,
+      verifyValid: true,
+      verifiedAt: now,
+      ...(payer && { payer }),
+    });
+  }
+
+  rejected(facilitator: string, reason: string | undefined, payer: string | undefined): Promise<void> {
+    return this.write({
+      status: "failed",
+      facilitator,
+      verifyValid: false,
+      verifyReason: reason ?? null,
+      failureReason: reason ?? "verification failed",
+      ...(payer && { payer }),
+    });
+  }
+
+  settled(facilitator: string, txHash: string): Promise<void> {
+    return this.write({ status: "settled", facilitator, txHash, settledAt: new Date().toISOString() });
+  }
+
+  /**
+   * A settle request may have gone through but no answer came back. The
+   * payment stays verified (its nonce stays spent) with the reason, to be
+   * checked on-chain.
+   */
+  settleUnknown(reason: string, facilitator: string): Promise<void> {
+    return this.write({ failureReason: reason, facilitator });
+  }
+
+  failed(reason: string, facilitator?: string): Promise<void> {
+    return this.write({ status: "failed", failureReason: reason, ...(facilitator && { facilitator }) });
+  }
+
+  /**
+   * The payer is owed a refund on a settled payment: all of it when its
+   * handler failed, or `amount` (atomic units) of it, e.g. a metered call's
+   * unused budget.
+   */
+  refundOwed(reason: string, amount?: string): Promise<void> {
+    return this.write({ refundStatus: "owed", refundReason: reason, refundAmount: amount ?? null });
+  }
+
+  private write(patch: Partial<Omit<PaymentRecord, "id">>): Promise<void> {
+    const update = { ...patch, updatedAt: new Date().toISOString() };
+    this.pending = this.pending
+      .then(() => this.store.update(this.id, update))
+      .then(async () => {
+        if (!patch.status) return;
+        const record = await this.store.get(this.id);
+        if (record) this.changed(record);
+      })
+      .catch((error) => logLedgerError(this.id, error));
+    return this.pending;
+  }
+}
+
+function logLedgerError(id: string, error: unknown): void {
+  log.error("ledger write failed", { paymentId: id, error });
+}
@@ -0,0 +1,148 @@
+import type { FacilitatorCall } from "../facilitators/failover";
+import type {
+  CallFilter,
+  CallStatsRow,
+  LedgerStore,
+  PaymentFilter,
+  PaymentRecord,
+  RevenueGroup,
+  RevenueRow,
+  RevenueShare,
+} from "./types";
+
+/** Keeps payment records in memory. Meant for tests and throwaway runs. */
+export class MemoryLedgerStore implements LedgerStore {
+  private readonly records = new Map<string, PaymentRecord>();
+  private readonly calls: FacilitatorCall[] = [];
+  private readonly shares: RevenueShare[] = [];
+
+  async insert(record: PaymentRecord): Promise<void> {
+    if (this.records.has(record.id)) {
+      throw new Error(`Payment ${record.id} already exists`);
+    }
+    this.records.set(record.id, { ...record });
+  }
+
+  async update(id: string, patch: Partial<Omit<PaymentRecord, "id">>): Promise<void> {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new Error(`Payment ${id} not found`);
+    }
+    this.records.set(id, { ...record, ...patch });
+  }
+
+  async get(id: string): Promise<PaymentRecord | undefined> {
+    const record = this.records.get(id);
+    return record && { ...record };
+  }
+
+  async list(filter: PaymentFilter = {}): Promise<PaymentRecord[]> {
+    const matches = [...this.records.values()]
+      .filter((r) => matchesFilter(r, filter))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const offset = filter.offset ?? 0;
+    return matches.slice(offset, filter.limit === undefined ? undefined : offset + filter.limit).map((r) => ({ ...r }));
+  }
+
+  async count(filter: PaymentFilter = {}): Promise<number> {
+    return [...this.records.values()].filter((r) => matchesFilter(r, filter)).length;
+  }
+
+  async revenue(groupBy: RevenueGroup, filter: PaymentFilter = {}): Promise<RevenueRow[]> {
+    const groups = new Map<string, { payments: number; amount: bigint }>();
+    for (const record of this.records.values()) {
+      const refunded = record.refundStatus === "refunded";
+      if (record.status !== "settled" || (refunded && record.refundAmount === null) || !matchesFilter(record, filter)) continue;
+      // What a partial refund left of the payment; shares are scaled to it
+      const total = BigInt(record.amount);
+      const kept = refunded ? total - BigInt(record.refundAmount!) : total;
+      const shares = groupBy === "tenant" ? this.shares.filter((share) => share.paymentId === record.id) : [];
+      const credits =
+        shares.length > 0
+          ? shares.map((share) => ({ key: share.tenant, amount: share.amount }))
+          : [{ key: groupBy === "day" ? record.createdAt.slice(0, 10) : (record[groupBy] ?? ""), amount: record.amount }];
+      for (const { key, amount } of credits) {
+        const group = groups.get(key) ?? { payments: 0, amount: 0n };
+        group.payments++;
+        group.amount += kept === total ? BigInt(amount) : (BigInt(amount) * kept) / total;
+        groups.set(key, group);
+      }
+    }
+    return [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, { payments, amount }]) => ({ key, payments, amount: amount.toString() }));
+  }
+
+  async insertShares(shares: RevenueShare[]): Promise<void> {
+    this.shares.push(...shares.map((share) => ({ ...share })));
+  }
+
+  async listShares(paymentId: string): Promise<RevenueShare[]> {
+    return this.shares.filter((share) => share.paymentId === paymentId).map((share) => ({ ...share }));
+  }
+
+  async recordCall(call: FacilitatorCall): Promise<void> {
+    this.calls.push({ ...call });
+  }
+
+  async listCalls(filter: CallFilter = {}): Promise<FacilitatorCall[]> {
+    return this.calls.filter(
+      (c) =>
+        (!filter.facilitator || c.facilitator === filter.facilitator) &&
+        (!filter.from || c.at >= filter.from) &&
+        (!filter.to || c.at < filter.to)
+    );
+  }
+
+  async callStats(filter: CallFilter = {}): Promise<CallStatsRow[]> {
+    const groups = new Map<string, FacilitatorCall[]>();
+    for (const call of await this.listCalls(filter)) {
+      const key = `${call.facilitator} ${call.action}`;
+      groups.set(key, [...(groups.get(key) ?? []), call]);
+    }
+    return [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, calls]) => {
+        const latencies = calls.map((c) => c.latencyMs).sort((a, b) => a - b);
+        const lastFailure = calls
+          .filter((c) => c.outcome === "error")
+          .reduce<FacilitatorCall | undefined>((last, c) => (!last || c.at > last.at ? c : last), undefined);
+        return {
+          facilitator: calls[0].facilitator,
+          action: calls[0].action,
+          calls: calls.length,
+          succeeded: calls.filter((c) => c.outcome === "success").length,
+          rejected: calls.filter((c) => c.outcome === "rejected").length,
+          errors: calls.filter((c) => c.outcome === "error").length,
+          p50: percentile(latencies, 50),
+          p90: percentile(latencies, 90),
+          p99: percentile(latencies, 99),
+          lastErrorAt: lastFailure?.at ?? null,
+          lastError: lastFailure ? (lastFailure.error ?? null) : null,
+        };
+      });
+  }
+
+  async close(): Promise<void> {}
+}
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+function matchesFilter(record: PaymentRecord, filter: PaymentFilter): boolean {
+  return (
+    (filter.tenant === undefined || record.tenant === filter.tenant) &&
+    (!filter.route || record.route === filter.route) &&
+    (!filter.facilitator || record.facilitator === filter.facilitator) &&
+    (!filter.network || record.network === filter.network) &&
+    (!filter.payer || record.payer?.toLowerCase() === filter.payer.toLowerCase()) &&
+    (!filter.status || record.status === filter.status) &&
+    (!filter.nonce || record.nonce === filter.nonce) &&
+    (!filter.refundStatus || record.refundStatus === filter.refundStatus) &&
+    (!filter.from || record.createdAt >= filter.from) &&
+    (!filter.to || record.createdAt < filter.to)
+  );
+}
@@ -0,0 +1,317 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { FacilitatorCall } from "../facilitators/failover";
+import type {
+  CallFilter,
+  CallStatsRow,
+  LedgerStore,
+  PaymentFilter,
+  PaymentRecord,
+  RevenueGroup,
+  RevenueRow,
+  RevenueShare,
+} from "./types";
+
+// Applied in order; PRAGMA user_version records how many have run.
+const MIGRATIONS = [
+  `CREATE TABLE payments (
+     id              TEXT PRIMARY KEY,
+     route           TEXT NOT NULL,
+     price           TEXT NOT NULL,
+     amount          TEXT NOT NULL,
+     asset           TEXT NOT NULL,
+     network         TEXT NOT NULL,
+     pay_to          TEXT NOT NULL,
+     facilitator     TEXT,
+     payer           TEXT,
+     nonce           TEXT,
+     status          TEXT NOT NULL,
+     verify_valid    INTEGER,
+     verify_reason   TEXT,
+     tx_hash         TEXT,
+     failure_reason  TEXT,
+     created_at      TEXT NOT NULL,
+     verified_at     TEXT,
+     settled_at      TEXT,
+     updated_at      TEXT NOT NULL
+   );
+   CREATE INDEX payments_created_at ON payments (created_at);
+   CREATE INDEX payments_route ON payments (route, created_at);
+   CREATE INDEX payments_facilitator ON payments (facilitator, created_at);
+   CREATE INDEX payments_payer ON payments (payer COLLATE NOCASE);
+   CREATE INDEX payments_nonce ON payments (nonce);`,
+  `CREATE TABLE facilitator_calls (
+     facilitator  TEXT NOT NULL,
+     action       TEXT NOT NULL,
+     outcome      TEXT NOT NULL,
+     latency_ms   INTEGER NOT NULL,
+     at           TEXT NOT NULL,
+     error        TEXT
+   );
+   CREATE INDEX facilitator_calls_at ON facilitator_calls (at);`,
+  `ALTER TABLE payments ADD COLUMN refund_status TEXT;
+   ALTER TABLE payments ADD COLUMN refund_reason TEXT;
+   ALTER TABLE payments ADD COLUMN refund_tx_hash TEXT;
+   ALTER TABLE payments ADD COLUMN refund_error TEXT;
+   ALTER TABLE payments ADD COLUMN refunded_at TEXT;
+   CREATE INDEX payments_refund_status ON payments (refund_status);`,
+  `ALTER TABLE payments ADD COLUMN tenant TEXT;
+   CREATE INDEX payments_tenant ON payments (tenant, created_at);
+   CREATE TABLE revenue_shares (
+     payment_id  TEXT NOT NULL REFERENCES payments (id),
+     tenant      TEXT NOT NULL,
+     address     TEXT NOT NULL,
+     amount      TEXT NOT NULL
+   );
+   CREATE INDEX revenue_shares_payment ON revenue_shares (payment_id);`,
+  `ALTER TABLE payments ADD COLUMN refund_amount TEXT;`,
+];
+
+const REVENUE_KEYS: Record<RevenueGroup, string> = {
+  route: "route",
+  facilitator: "facilitator",
+  network: "network",
+  day: "substr(created_at, 1, 10)",
+  // Shares when the payment has any (see revenue())
+  tenant: "COALESCE(s.tenant, p.tenant)",
+};
+
+const COLUMNS: Record<keyof PaymentRecord, string> = {
+  id: "id",
+  tenant: "tenant",
+  route: "route",
+  price: "price",
+  amount: "amount",
+  asset: "asset",
+  network: "network",
+  payTo: "pay_to",
+  facilitator: "facilitator",
+  payer: "payer",
+  nonce: "nonce",
+  status: "status",
+  verifyValid: "verify_valid",
+  verifyReason: "verify_reason",
+  txHash: "tx_hash",
+  failureReason: "failure_reason",
+  createdAt: "created_at",
+  verifiedAt: "verified_at",
+  settledAt: "settled_at",
+  refundStatus: "refund_status",
+  refundReason: "refund_reason",
+  refundAmount: "refund_amount",
+  refundTxHash: "refund_tx_hash",
+  refundError: "refund_error",
+  refundedAt: "refunded_at",
+  updatedAt: "updated_at",
+};
+
+type Row = Record<string, unknown>;
+
+/** Stores payment records in a local SQLite file (or `:memory:`). */
+export class SqliteLedgerStore implements LedgerStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  async insert(record: PaymentRecord): Promise<void> {
+    const keys = Object.keys(COLUMNS) as (keyof PaymentRecord)[];
+    this.db
+      .prepare(
+        `INSERT INTO payments (${keys.map((k) => COLUMNS[k]).join(", ")})
+         VALUES (${keys.map((k) => `@${k}`).join(", ")})`
+      )
+      .run(toRow(record));
+  }
+
+  async update(id: string, patch: Partial<Omit<PaymentRecord, "id">>): Promise<void> {
+    const keys = Object.keys(patch) as (keyof PaymentRecord)[];
+    if (keys.length === 0) return;
+    const result = this.db
+      .prepare(`UPDATE payments SET ${keys.map((k) => `${COLUMNS[k]} = @${k}`).join(", ")} WHERE id = @id`)
+      .run(toRow({ ...patch, id }));
+    if (result.changes === 0) {
+      throw new Error(`Payment ${id} not found`);
+    }
+  }
+
+  async get(id: string): Promise<PaymentRecord | undefined> {
+    const row = this.db.prepare("SELECT * FROM payments WHERE id = ?").get(id) as Row | undefined;
+    return row && fromRow(row);
+  }
+
+  async list(filter: PaymentFilter = {}): Promise<PaymentRecord[]> {
+    const { where, params } = whereClause(filter);
+    const rows = this.db
+      .prepare(`SELECT * FROM payments ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: filter.limit ?? -1, offset: filter.offset ?? 0 }) as Row[];
+    return rows.map(fromRow);
+  }
+
+  async count(filter: PaymentFilter = {}): Promise<number> {
+    const { where, params } = whereClause(filter);
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM payments ${where}`).get(params) as { n: number };
+    return row.n;
+  }
+
+  async revenue(groupBy: RevenueGroup, filter: PaymentFilter = {}): Promise<RevenueRow[]> {
+    const { where, params } = whereClause({ ...filter, status: "settled" });
+    const key = REVENUE_KEYS[groupBy];
+    // `kept` is what a partial refund left of the payment; shares are scaled to it
+    const rows = this.db
+      .prepare(
+        `SELECT COALESCE(${key}, '') AS key, COUNT(*) AS payments,
+           SUM(CASE WHEN p.kept = CAST(p.amount AS INTEGER) THEN CAST(COALESCE(s.amount, p.amount) AS INTEGER)
+               ELSE CAST(COALESCE(s.amount, p.amount) AS INTEGER) * p.kept / CAST(p.amount AS INTEGER) END) AS amount
+         FROM (SELECT *, CAST(amount AS INTEGER) - CASE WHEN refund_status IS 'refunded' THEN CAST(refund_amount AS INTEGER) ELSE 0 END AS kept
+               FROM payments ${where} AND (refund_status IS NOT 'refunded' OR refund_amount IS NOT NULL)) p
+         LEFT JOIN revenue_shares s ON s.payment_id = p.id AND ${groupBy === "tenant" ? "1" : "0"}
+         GROUP BY 1 ORDER BY 1`
+      )
+      .all(params) as { key: string; payments: number; amount: number }[];
+    return rows.map((row) => ({ ...row, amount: String(row.amount) }));
+  }
+
+  async insertShares(shares: RevenueShare[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO revenue_shares (payment_id, tenant, address, amount) VALUES (@paymentId, @tenant, @address, @amount)`
+    );
+    this.db.transaction(() => shares.forEach((share) => insert.run(share)))();
+  }
+
+  async listShares(paymentId: string): Promise<RevenueShare[]> {
+    return this.db
+      .prepare(
+        `SELECT payment_id AS paymentId, tenant, address, amount FROM revenue_shares WHERE payment_id = ? ORDER BY rowid`
+      )
+      .all(paymentId) as RevenueShare[];
+  }
+
+  async recordCall(call: FacilitatorCall): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO facilitator_calls (facilitator, action, outcome, latency_ms, at, error)
+         VALUES (@facilitator, @action, @outcome, @latencyMs, @at, @error)`
+      )
+      .run({ ...call, error: call.error ?? null });
+  }
+
+  async listCalls(filter: CallFilter = {}): Promise<FacilitatorCall[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT facilitator, action, outcome, latency_ms AS latencyMs, at, error FROM facilitator_calls
+         ${callWhereClause(filter)} ORDER BY at`
+      )
+      .all(filter) as (FacilitatorCall & { error: string | null })[];
+    return rows.map(({ error, ...call }) => (error ? { ...call, error } : call));
+  }
+
+  async callStats(filter: CallFilter = {}): Promise<CallStatsRow[]> {
+    // Each call's latency rank and its group's size give the nearest-rank
+    // percentiles; error calls are also ranked newest first for lastError.
+    return this.db
+      .prepare(
+        `WITH ranked AS (
+           SELECT *,
+             ROW_NUMBER() OVER (PARTITION BY facilitator, action ORDER BY latency_ms) AS latency_rank,
+             COUNT(*) OVER (PARTITION BY facilitator, action) AS n,
+             ROW_NUMBER() OVER (PARTITION BY facilitator, action, outcome ORDER BY at DESC) AS recency
+           FROM facilitator_calls ${callWhereClause(filter)}
+         )
+         SELECT facilitator, action, COUNT(*) AS calls,
+           SUM(outcome = 'success') AS succeeded,
+           SUM(outcome = 'rejected') AS rejected,
+           SUM(outcome = 'error') AS errors,
+           MAX(CASE WHEN latency_rank = (50 * n + 99) / 100 THEN latency_ms END) AS p50,
+           MAX(CASE WHEN latency_rank = (90 * n + 99) / 100 THEN latency_ms END) AS p90,
+           MAX(CASE WHEN latency_rank = (99 * n + 99) / 100 THEN latency_ms END) AS p99,
+           MAX(CASE WHEN outcome = 'error' AND recency = 1 THEN at END) AS lastErrorAt,
+           MAX(CASE WHEN outcome = 'error' AND recency = 1 THEN error END) AS lastError
+         FROM ranked GROUP BY facilitator, action ORDER BY facilitator, action`
+      )
+      .all(filter) as CallStatsRow[];
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+function callWhereClause(filter: CallFilter): string {
+  const conditions: string[] = [];
+  if (filter.facilitator) conditions.push("facilitator = @facilitator");
+  if (filter.from) conditions.push("at >= @from");
+  if (filter.to) conditions.push("at < @to");
+  return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+}
+
+function whereClause(filter: PaymentFilter): { where: string; params: Row } {
+  const conditions: string[] = [];
+  const params: Row = {};
+  const equals: (keyof PaymentFilter & keyof PaymentRecord)[] = [
+    "route",
+    "facilitator",
+    "network",
+    "status",
+    "nonce",
+    "refundStatus",
+  ];
+  for (const key of equals) {
+    if (filter[key]) {
+      conditions.push(`${COLUMNS[key]} = @${key}`);
+      params[key] = filter[key];
+    }
+  }
+  if (filter.tenant === null) {
+    conditions.push("tenant IS NULL");
+  } else if (filter.tenant !== undefined) {
+    conditions.push("tenant = @tenant");
+    params.tenant = filter.tenant;
+  }
+  if (filter.payer) {
+    conditions.push("payer = @payer COLLATE NOCASE");
+    params.payer = filter.payer;
+  }
+  if (filter.from) {
+    conditions.push("created_at >= @from");
+    params.from = filter.from;
+  }
+  if (filter.to) {
+    conditions.push("created_at < @to");
+    params.to = filter.to;
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+function toRow(record: Partial<PaymentRecord>): Row {
+  const row: Row = { ...record };
+  if (typeof record.verifyValid === "boolean") {
+    row.verifyValid = record.verifyValid ? 1 : 0;
+  }
+  return row;
+}
+
+function fromRow(row: Row): PaymentRecord {
+  const record = Object.fromEntries(
+    (Object.entries(COLUMNS) as [keyof PaymentRecord, string][]).map(([key, column]) => [key, row[column]])
+  ) as unknown as PaymentRecord;
+  record.verifyValid = row.verify_valid === null ? null : row.verify_valid === 1;
+  return record;
+}
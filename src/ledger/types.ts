@@ -0,0 +1,150 @@
+import type { Network } from "x402/types";
+import type { FacilitatorAction, FacilitatorCall } from "../facilitators/failover";
+
+// ============================================
+// Payment ledger types
+// ============================================
+
+/**
+ * pending  - payment received, not yet verified
+ * verified - facilitator accepted the authorization, handler running (or, with
+ *            deferred settlement, served and queued for settlement; or the
+ *            settle outcome is unknown, see failureReason)
+ * settled  - funds moved on-chain
+ * failed   - rejected at verify, handler error or settle failure (not charged)
+ */
+export type PaymentStatus = "pending" | "verified" | "settled" | "failed";
+
+/**
+ * Set on settled payments whose handler failed afterwards:
+ * owed     - the payer is owed a refund, nothing sent yet
+ * sending  - refund being sent; once broadcast, refundTxHash is set, and if
+ *            it could not be confirmed (refundError) sending again checks it
+ * refunded - funds returned (refundTxHash)
+ * failed   - nothing was transferred (refundError); can be retried
+ */
+export type RefundStatus = "owed" | "sending" | "refunded" | "failed";
+
+export interface PaymentRecord {
+  id: string;
+  /** Tenant whose route was paid; null for the top-level routes. */
+  tenant: string | null;
+  /** Route key, e.g. "GET /api/weather". */
+  route: string;
+  /** Configured price, e.g. "$0.001". */
+  price: string;
+  /** Amount required, in the asset's atomic units (USDC: 6 decimals). */
+  amount: string;
+  asset: string;
+  network: Network;
+  payTo: string;
+  /** Facilitator that verified, then the one that settled. */
+  facilitator: string | null;
+  payer: string | null;
+  /** EIP-3009 authorization nonce (EVM only). */
+  nonce: string | null;
+  status: PaymentStatus;
+  verifyValid: boolean | null;
+  verifyReason: string | null;
+  txHash: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  verifiedAt: string | null;
+  settledAt: string | null;
+  refundStatus: RefundStatus | null;
+  /** Why the payer is owed a refund, e.g. "handler responded 500". */
+  refundReason: string | null;
+  /** Part of `amount` to refund (e.g. the unused budget of a metered call); null means all of it. */
+  refundAmount: string | null;
+  refundTxHash: string | null;
+  refundError: string | null;
+  refundedAt: string | null;
+  updatedAt: string;
+}
+
+export interface PaymentFilter {
+  /** A tenant id, or null for payments to the top-level routes. */
+  tenant?: string | null;
+  route?: string;
+  facilitator?: string;
+  network?: Network;
+  payer?: string;
+  status?: PaymentStatus;
+  nonce?: string;
+  refundStatus?: RefundStatus;
+  /** Inclusive lower bound on createdAt (ISO 8601). */
+  from?: string;
+  /** Exclusive upper bound on createdAt (ISO 8601). */
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * `tenant` groups by the tenant credited: a payment's revenue shares when
+ * it has any, else the tenant that was paid ("" for the top-level routes).
+ */
+export type RevenueGroup = "route" | "facilitator" | "network" | "day" | "tenant";
+
+/** Settled revenue for one group; `day` keys are UTC dates (YYYY-MM-DD). */
+export interface RevenueRow {
+  key: string;
+  payments: number;
+  /** Sum of settled amounts, in atomic units. */
+  amount: string;
+}
+
+/** Part of a payment credited to a tenant by a revenue split, in atomic units. */
+export interface RevenueShare {
+  paymentId: string;
+  tenant: string;
+  /** The tenant's pay-to address on the payment's network. */
+  address: string;
+  amount: string;
+}
+
+export interface CallFilter {
+  facilitator?: string;
+  from?: string;
+  to?: string;
+}
+
+/** Facilitator calls for one facilitator and action, aggregated by the store. */
+export interface CallStatsRow {
+  facilitator: string;
+  action: FacilitatorAction;
+  calls: number;
+  succeeded: number;
+  rejected: number;
+  errors: number;
+  /** Nearest-rank latency percentiles, in milliseconds. */
+  p50: number;
+  p90: number;
+  p99: number;
+  /** Time and message of the most recent error (null without errors). */
+  lastErrorAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Storage backend for payment records and facilitator call history.
+ * Implementations: SQLite (default) and in-memory (tests). Results of
+ * list() are newest first.
+ */
+export interface LedgerStore {
+  insert(record: PaymentRecord): Promise<void>;
+  update(id: string, patch: Partial<Omit<PaymentRecord, "id">>): Promise<void>;
+  get(id: string): Promise<PaymentRecord | undefined>;
+  list(filter?: PaymentFilter): Promise<PaymentRecord[]>;
+  /** Number of records matching the filter, ignoring limit/offset. */
+  count(filter?: PaymentFilter): Promise<number>;
+  /** Settled revenue matching the filter, less refunds sent, grouped and sorted by key. */
+  revenue(groupBy: RevenueGroup, filter?: PaymentFilter): Promise<RevenueRow[]>;
+  insertShares(shares: RevenueShare[]): Promise<void>;
+  listShares(paymentId: string): Promise<RevenueShare[]>;
+  recordCall(call: FacilitatorCall): Promise<void>;
+  listCalls(filter?: CallFilter): Promise<FacilitatorCall[]>;
+  /** Counts and latency percentiles of the calls matching the filter, per facilitator and action. */
+  callStats(filter?: CallFilter): Promise<CallStatsRow[]>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,61 @@
+import dotenv from "dotenv";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Registry, RegistryError, loadRegistry } from "./config/registry";
+import { McpBridge, createMcpBridge, createMcpHttpApp } from "./mcp";
+import { setLogLevel } from "./observability/logger";
+
+// Quiet: dotenv would otherwise announce itself on stdout
+dotenv.config({ quiet: true });
+
+// Configuration
+const TRANSPORT = process.env.MCP_TRANSPORT || "stdio";
+const PORT = process.env.MCP_PORT || 4023;
+
+if (TRANSPORT !== "stdio" && TRANSPORT !== "http") {
+  console.error(`Error: MCP_TRANSPORT must be stdio or http (got "${TRANSPORT}")`);
+  process.exit(1);
+}
+
+// Over stdio, stdout carries the protocol: only warnings and errors are
+// logged (to stderr), and messages go to stderr as well
+if (TRANSPORT === "stdio") setLogLevel("warn");
+
+// The tools are the registry's paid routes, so the bridge loads the same registry as the merchant
+let registry: Registry;
+try {
+  registry = loadRegistry();
+} catch (error) {
+  if (error instanceof RegistryError) {
+    console.error(`Error: invalid facilitator registry (${error.source})`);
+    for (const issue of error.issues) {
+      console.error(`  - ${issue}`);
+    }
+    process.exit(1);
+  }
+  throw error;
+}
+
+let bridge: McpBridge;
+try {
+  bridge = await createMcpBridge(registry);
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+const tools = bridge.tools.map((tool) => tool.name).join(", ");
+const payment = process.env.MCP_PAYMENT === "wallet" ? `wallet, budget ${process.env.MCP_BUDGET}` : "passed through";
+
+if (TRANSPORT === "stdio") {
+  await bridge.server().connect(new StdioServerTransport());
+  console.error(`🤖 x402 MCP bridge on stdio for ${process.env.MERCHANT_URL || "http://localhost:4021"}`);
+  console.error(`   Tools: ${tools}`);
+  console.error(`   Payment: ${payment}`);
+} else {
+  createMcpHttpApp(bridge).listen(PORT, () => {
+    console.log(`🤖 x402 MCP bridge running on http://localhost:${PORT}/mcp`);
+    console.log(`   Merchant: ${process.env.MERCHANT_URL || "http://localhost:4021"}`);
+    console.log(`   Tools: ${tools}`);
+    console.log(`   Payment: ${payment}`);
+  });
+}
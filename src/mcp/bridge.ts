@@ -0,0 +1,134 @@
+import axios, { AxiosError, type AxiosInstance, type AxiosResponse } from "axios";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { decodeXPaymentResponse } from "x402/shared";
+import type { Registry } from "../config/registry";
+import {
+  type PaymentWallets,
+  type SelectionStrategy,
+  SpendingPolicy,
+  SpendingPolicyError,
+  withSpendingPolicy,
+} from "../client";
+import { PAYMENT_ARGUMENT, PaidTool, paidTools } from "./tools";
+
+// ============================================
+// MCP bridge
+// ============================================
+
+/** `_meta` keys of the x402 MCP transport, for payments carried outside the arguments. */
+const PAYMENT_META = "x402/payment";
+const PAYMENT_RESPONSE_META = "x402/payment-response";
+
+export interface McpWallet {
+  wallets: PaymentWallets;
+  /** Every payment is checked against it; its session budget caps what the bridge spends. */
+  policy: SpendingPolicy;
+  strategy?: SelectionStrategy;
+}
+
+export interface McpBridgeOptions {
+  /** Base URL of the merchant (with a tenant path prefix, if any). */
+  merchantUrl: string;
+  /** Pays for tool calls itself. Without it, the calling agent passes its own payment. */
+  wallet?: McpWallet;
+}
+
+/**
+ * Exposes the registry's paid routes as MCP tools that call the merchant
+ * over HTTP.
+ *
+ * With a wallet, the bridge pays for each call within the wallet's
+ * spending policy; refusals (e.g. budget exhausted) come back as tool
+ * errors. Without one, a call is made with the agent's X-PAYMENT value from
+ * the `payment` argument (or `_meta["x402/payment"]`); a call without a
+ * payment returns the 402 body as a tool error, so the agent can sign one
+ * of its `accepts` and call again.
+ */
+export class McpBridge {
+  readonly tools: PaidTool[];
+  private readonly http: AxiosInstance;
+  private readonly baseUrl: string;
+
+  constructor(
+    registry: Registry,
+    private readonly options: McpBridgeOptions
+  ) {
+    this.tools = paidTools(registry, { payment: !options.wallet });
+    this.baseUrl = options.merchantUrl.endsWith("/") ? options.merchantUrl : `${options.merchantUrl}/`;
+    const { wallet } = options;
+    this.http = wallet ? withSpendingPolicy(axios.create(), wallet.wallets, wallet.policy, wallet.strategy) : axios.create();
+  }
+
+  /** A new MCP server over the bridge; one per stdio process, or per request over stateless HTTP. */
+  server(): Server {
+    const server = new Server({ name: "x402-merchant", version: "1.0.0" }, { capabilities: { tools: {} } });
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const tool = this.tools.find((t) => t.name === request.params.name);
+      if (!tool) return failure(`Unknown tool "${request.params.name}"`);
+      const meta = request.params._meta?.[PAYMENT_META];
+      return this.call(tool, request.params.arguments ?? {}, typeof meta === "string" ? meta : undefined);
+    });
+
+    return server;
+  }
+
+  /** Calls the tool's route: arguments go in the query string for GET and DELETE, else in a JSON body. */
+  async call(tool: PaidTool, args: Record<string, unknown>, paymentMeta?: string): Promise<CallToolResult> {
+    const { [PAYMENT_ARGUMENT]: paymentArgument, ...input } = args;
+    const payment = this.options.wallet ? undefined : typeof paymentArgument === "string" ? paymentArgument : paymentMeta;
+    const { method, path } = tool.route;
+    const withQuery = method === "GET" || method === "DELETE";
+
+    let response: AxiosResponse;
+    try {
+      response = await this.http.request({
+        method,
+        url: new URL(path.replace(/^\//, ""), this.baseUrl).toString(),
+        ...(withQuery ? { params: queryParams(input) } : { data: input }),
+        headers: payment ? { "X-PAYMENT": payment } : {},
+      });
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) return failure(`Payment refused (${error.code}): ${error.message}`);
+      if (!(error instanceof AxiosError) || !error.response) {
+        return failure(`Could not reach the merchant: ${error instanceof Error ? error.message : error}`);
+      }
+      response = error.response;
+    }
+
+    const text = typeof response.data === "string" ? response.data : JSON.stringify(response.data, null, 2);
+    if (response.status === 402) {
+      return failure(
+        payment || this.options.wallet
+          ? `Payment was not accepted (402):\n${text}`
+          : `Payment required (402). Sign one of \`accepts\` and call again with \`${PAYMENT_ARGUMENT}\`:\n${text}`
+      );
+    }
+    if (response.status >= 400) return failure(`${tool.route.method} ${path} answered ${response.status}:\n${text}`);
+
+    const settlement = response.headers["x-payment-response"];
+    return {
+      content: [{ type: "text", text }],
+      ...(typeof settlement === "string" && { _meta: { [PAYMENT_RESPONSE_META]: decodeXPaymentResponse(settlement) } }),
+    };
+  }
+}
+
+function failure(text: string): CallToolResult {
+  return { isError: true, content: [{ type: "text", text }] };
+}
+
+function queryParams(input: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(input).map(([name, value]) => [name, typeof value === "string" ? value : JSON.stringify(value)])
+  );
+}
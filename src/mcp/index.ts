@@ -0,0 +1,75 @@
+import express, { type Express, type Request, type Response } from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Registry } from "../config/registry";
+import { createPaymentWallets, createSelectionStrategy, createSpendingPolicy } from "../client";
+import { log } from "../observability/logger";
+import { McpBridge } from "./bridge";
+
+export { McpBridge, type McpBridgeOptions, type McpWallet } from "./bridge";
+export { PAYMENT_ARGUMENT, paidTools, type PaidTool } from "./tools";
+
+export const MCP_PAYMENT_MODES = ["passthrough", "wallet"] as const;
+
+/**
+ * Builds the bridge from the environment:
+ *   MERCHANT_URL = merchant the tools call, default http://localhost:4021
+ *   MCP_PAYMENT  = passthrough (default: the agent pays) | wallet
+ *   MCP_BUDGET   = most the wallet may spend while the bridge runs (required for wallet)
+ * In wallet mode the wallets, strategy and other limits come from the
+ * client's EVM_PRIVATE_KEY / SOLANA_PRIVATE_KEY and CLIENT_* variables.
+ */
+export async function createMcpBridge(registry: Registry, env: NodeJS.ProcessEnv = process.env): Promise<McpBridge> {
+  const merchantUrl = env.MERCHANT_URL || "http://localhost:4021";
+  const mode = env.MCP_PAYMENT || "passthrough";
+  if (!MCP_PAYMENT_MODES.includes(mode as (typeof MCP_PAYMENT_MODES)[number])) {
+    throw new Error(`MCP_PAYMENT must be one of ${MCP_PAYMENT_MODES.join(", ")} (got "${mode}")`);
+  }
+  if (mode === "passthrough") return new McpBridge(registry, { merchantUrl });
+
+  if (!env.MCP_BUDGET) {
+    throw new Error("MCP_PAYMENT=wallet needs MCP_BUDGET, the most the bridge may spend (e.g. $1)");
+  }
+  return new McpBridge(registry, {
+    merchantUrl,
+    wallet: {
+      wallets: await createPaymentWallets(env),
+      policy: createSpendingPolicy({ ...env, CLIENT_SESSION_BUDGET: env.MCP_BUDGET }),
+      strategy: createSelectionStrategy(env),
+    },
+  });
+}
+
+/**
+ * Serves the bridge over Streamable HTTP at `POST /mcp`. Stateless: each
+ * request gets its own MCP server, while the wallet and its budget are
+ * shared by all of them.
+ */
+export function createMcpHttpApp(bridge: McpBridge): Express {
+  const app = express();
+  app.use(express.json());
+
+  app.post("/mcp", async (req: Request, res: Response) => {
+    const server = bridge.server();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      void transport.close();
+      void server.close();
+    });
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      log.error("MCP request failed", { error });
+      if (!res.headersSent) {
+        res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal server error" }, id: null });
+      }
+    }
+  });
+
+  // No sessions, so no server-initiated stream (GET) or session end (DELETE)
+  app.all("/mcp", (_req: Request, res: Response) => {
+    res.status(405).json({ jsonrpc: "2.0", error: { code: -32000, message: "Method not allowed" }, id: null });
+  });
+
+  return app;
+}
@@ -0,0 +1,68 @@
+import { networkLabel } from "../config/networks";
+import { PaidRouteDefinition, Registry, facilitatorsFor, routeKey } from "../config/registry";
+import { TOP_UP_PATH } from "../credits";
+import { describePrice } from "../payments/pricing";
+import { JsonSchema, ROUTE_SCHEMAS } from "../server/schemas";
+
+// ============================================
+// Paid routes as MCP tools
+// ============================================
+// One tool per paid route in the registry, except the credits top-up
+// (credit tokens are of no use to an MCP client). Input schemas come from
+// the route's query and body schemas; the description carries the price
+// and where it can be paid.
+
+export interface PaidTool {
+  /** Tool name, e.g. `weather` for GET /api/weather or `ai_image` for POST /api/ai/image. */
+  name: string;
+  route: PaidRouteDefinition;
+  description: string;
+  inputSchema: { type: "object"; properties: Record<string, JsonSchema>; additionalProperties?: boolean };
+}
+
+/** The X-PAYMENT header value an agent paying for itself passes along. */
+export const PAYMENT_ARGUMENT = "payment";
+
+/** Tools for the registry's paid routes. `payment` adds the pass-through payment argument to each input schema. */
+export function paidTools(registry: Registry, { payment }: { payment: boolean }): PaidTool[] {
+  const routes = registry.routes.filter((route) => route.path !== TOP_UP_PATH);
+  const names = routes.map((route) => toolName(route.path));
+
+  return routes.map((route, i) => {
+    const schema = ROUTE_SCHEMAS[routeKey(route)];
+    const properties: Record<string, JsonSchema> = {
+      ...schema?.query,
+      ...(schema?.body?.properties as Record<string, JsonSchema> | undefined),
+    };
+    if (payment) {
+      properties[PAYMENT_ARGUMENT] = {
+        type: "string",
+        description:
+          "Base64 X-PAYMENT header signed for one of the payment requirements this tool returns when called without it",
+      };
+    }
+    return {
+      // Two methods on one path get the method as a prefix
+      name: names.indexOf(names[i]) === names.lastIndexOf(names[i]) ? names[i] : `${route.method.toLowerCase()}_${names[i]}`,
+      route,
+      description: `${schema?.summary ?? route.description}. ${priceDescription(registry, route)}`,
+      inputSchema: { type: "object", properties, ...(schema ? {} : { additionalProperties: true }) },
+    };
+  });
+}
+
+/** E.g. "Costs $0.001 in USDC on Base Sepolia (via PayAI)." */
+function priceDescription(registry: Registry, route: PaidRouteDefinition): string {
+  const options = route.accepts.map((option) => {
+    const via = facilitatorsFor(registry, option)
+      .map((f) => f.name)
+      .join(", ");
+    return `${describePrice(route, option)} in USDC on ${networkLabel(option.network)} (via ${via})`;
+  });
+  return `Costs ${options.join(", or ")}.`;
+}
+
+function toolName(path: string): string {
+  const words = path.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return (words[0] === "api" && words.length > 1 ? words.slice(1) : words).join("_").toLowerCase();
+}
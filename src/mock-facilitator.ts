@@ -0,0 +1,23 @@
+import "dotenv/config";
+import { MOCK_FAILURES, MockFailure, createMockFacilitator } from "./facilitators/mock";
+
+// Configuration
+const PORT = process.env.MOCK_FACILITATOR_PORT || 4022;
+const FAILURE = (process.env.MOCK_FACILITATOR_FAILURE || "none") as MockFailure;
+const TIMEOUT_MS = Number(process.env.MOCK_FACILITATOR_TIMEOUT_MS || 30_000);
+
+if (!MOCK_FAILURES.includes(FAILURE)) {
+  console.error(`Error: MOCK_FACILITATOR_FAILURE must be one of: ${MOCK_FAILURES.join(", ")}`);
+  process.exit(1);
+}
+
+const { app } = createMockFacilitator({ failure: FAILURE, timeoutMs: TIMEOUT_MS });
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock x402 facilitator running on http://localhost:${PORT}`);
+  console.log(`   Simulated failure: ${FAILURE}`);
+  console.log(`\n   Point the merchant at it, e.g.:`);
+  console.log(`   PAYAI_FACILITATOR_URL=http://localhost:${PORT}`);
+  console.log(`\n   Change the failure mode at runtime:`);
+  console.log(`   curl -X PUT localhost:${PORT}/mock/failure -H 'content-type: application/json' -d '{"failure":"timeout"}'`);
+});
@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// ============================================
+// Structured logging
+// ============================================
+// One JSON object per line on stdout/stderr. Every line written while a
+// request is being handled carries its correlation id (`requestId`) and,
+// once the payment middleware has matched it, the paid `route`, so one
+// payment can be followed through challenge -> verify -> handler -> settle.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface RequestContext {
+  requestId: string;
+  route?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** Context of the request being handled, if any. */
+export function currentRequest(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+/** Tags the current request's log lines and metrics with its paid route. */
+export function setRequestRoute(route: string): void {
+  const context = requestContext.getStore();
+  if (context) context.route = route;
+}
+
+let minimumLevel: LogLevel = (process.env.LOG_LEVEL as LogLevel) in LEVELS ? (process.env.LOG_LEVEL as LogLevel) : "info";
+
+export function setLogLevel(level: LogLevel): void {
+  minimumLevel = level;
+}
+
+function write(level: LogLevel, msg: string, fields: Record<string, unknown> = {}): void {
+  if (LEVELS[level] < LEVELS[minimumLevel]) return;
+  const line: Record<string, unknown> = { time: new Date().toISOString(), level, msg, ...currentRequest() };
+  for (const [key, value] of Object.entries(fields)) {
+    line[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+  const text = JSON.stringify(line);
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(text + "\n");
+  else process.stdout.write(text + "\n");
+}
+
+export const log = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write("error", msg, fields),
+};
+
+// Accept a caller's id so a request can be traced across services.
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives each request a correlation id (the incoming `X-Request-Id` when it
+ * looks sane, else a new UUID), echoes it back in `X-Request-Id` and logs
+ * the request once the response is finished.
+ */
+export function requestLogging() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.header("X-Request-Id");
+    const context: RequestContext = { requestId: incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID() };
+    res.setHeader("X-Request-Id", context.requestId);
+
+    const started = process.hrtime.bigint();
+    res.on("finish", () => {
+      requestContext.run(context, () =>
+        log.info("request completed", {
+          method: req.method,
+          // As received, before a tenant path prefix is stripped
+          path: req.originalUrl.split("?")[0],
+          status: res.statusCode,
+          durationMs: Number(process.hrtime.bigint() - started) / 1e6,
+        })
+      );
+    });
+    requestContext.run(context, next);
+  };
+}
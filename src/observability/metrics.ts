@@ -0,0 +1,111 @@
+import type { Request, Response } from "express";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import type { FacilitatorCall } from "../facilitators/failover";
+import { currentRequest } from "./logger";
+
+// ============================================
+// Prometheus metrics
+// ============================================
+// Served at GET /metrics. `route` labels use the registry key, e.g.
+// "GET /api/weather"; amounts are atomic units of the asset (USDC: 6 decimals).
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: "x402_merchant_" });
+
+export const challengesIssued = new Counter({
+  name: "x402_challenges_total",
+  help: "402 responses asking for payment (no X-PAYMENT or credit token sent)",
+  labelNames: ["route"],
+  registers: [metricsRegistry],
+});
+
+export const paymentsRejected = new Counter({
+  name: "x402_payments_rejected_total",
+  help: "Payments refused before settlement, by reason (e.g. invalid signature, duplicate, underpaid)",
+  labelNames: ["route", "reason"],
+  registers: [metricsRegistry],
+});
+
+export const facilitatorRequests = new Counter({
+  name: "x402_facilitator_requests_total",
+  help: "Verify and settle requests sent to facilitators, by outcome (success, rejected, error)",
+  labelNames: ["facilitator", "action", "outcome", "route"],
+  registers: [metricsRegistry],
+});
+
+export const facilitatorLatency = new Histogram({
+  name: "x402_facilitator_request_duration_seconds",
+  help: "Latency of verify and settle requests to facilitators",
+  labelNames: ["facilitator", "action", "route"],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const paymentsCompleted = new Counter({
+  name: "x402_payments_total",
+  help: "Payments that reached a final state after verification (settled, failed, or unknown when settle went unanswered)",
+  labelNames: ["route", "facilitator", "network", "status"],
+  registers: [metricsRegistry],
+});
+
+export const revenue = new Counter({
+  name: "x402_revenue_atomic_total",
+  help: "Settled revenue in atomic units of the asset",
+  labelNames: ["route", "facilitator", "network", "asset"],
+  registers: [metricsRegistry],
+});
+
+export const creditSpends = new Counter({
+  name: "x402_credit_spends_total",
+  help: "Paid requests covered by prepaid credits, by outcome (spent, refunded, insufficient, invalid_token)",
+  labelNames: ["route", "outcome"],
+  registers: [metricsRegistry],
+});
+
+export const handlerDuration = new Histogram({
+  name: "x402_paid_handler_duration_seconds",
+  help: "Time spent in paid route handlers, between verification and settlement",
+  labelNames: ["route", "status"],
+  buckets: [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5],
+  registers: [metricsRegistry],
+});
+
+export const refunds = new Counter({
+  name: "x402_refunds_total",
+  help: "Refunds for payments whose handler failed after settlement, by status (owed, refunded, failed)",
+  labelNames: ["route", "status"],
+  registers: [metricsRegistry],
+});
+
+export const webhookDeliveries = new Counter({
+  name: "x402_webhook_deliveries_total",
+  help: "Webhook delivery attempts; outcome is delivered, retry or dead (dead-lettered)",
+  labelNames: ["event", "outcome"],
+  registers: [metricsRegistry],
+});
+
+export const deferredSettlements = new Counter({
+  name: "x402_deferred_settlements_total",
+  help: "Deferred payments by outcome (queued, settled, retry, failed, expired, unknown)",
+  labelNames: ["route", "outcome"],
+  registers: [metricsRegistry],
+});
+
+export const deferredQueued = new Gauge({
+  name: "x402_deferred_queued",
+  help: "Deferred payments waiting to be settled",
+  registers: [metricsRegistry],
+});
+
+/** FacilitatorPool listener: counts and times every verify/settle request. */
+export function observeFacilitatorCall(call: FacilitatorCall): void {
+  const route = currentRequest()?.route ?? "";
+  facilitatorRequests.inc({ facilitator: call.facilitator, action: call.action, outcome: call.outcome, route });
+  facilitatorLatency.observe({ facilitator: call.facilitator, action: call.action, route }, call.latencyMs / 1000);
+}
+
+/** Handler for GET /metrics. */
+export async function metricsHandler(_req: Request, res: Response): Promise<void> {
+  res.setHeader("Content-Type", metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+}
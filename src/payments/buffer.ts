@@ -0,0 +1,85 @@
+import type { Response } from "express";
+
+export interface BufferedResponse {
+  /** Resolves once the handler (or an error handler) calls `res.end`. */
+  ended: Promise<void>;
+  /** Replays everything the handler wrote and restores the real methods. */
+  flush(): void;
+  /** Everything the handler wrote so far, as one buffer. */
+  body(): Buffer;
+  /** Drops what the handler wrote (e.g. to send a 402 instead) and restores the real methods. */
+  discard(): void;
+}
+
+/**
+ * Holds back the handler's response until the payment settles, so a failed
+ * settlement never leaks the paid resource. Same approach as x402-express.
+ */
+export function bufferResponse(res: Response): BufferedResponse {
+  const originalWriteHead = res.writeHead.bind(res);
+  const originalWrite = res.write.bind(res);
+  const originalEnd = res.end.bind(res);
+  const originalFlushHeaders = res.flushHeaders.bind(res);
+
+  let calls: [string, any[]][] = [];
+  let released = false;
+  let markEnded!: () => void;
+  const ended = new Promise<void>((resolve) => (markEnded = resolve));
+
+  res.writeHead = function (...args: any[]) {
+    if (released) return (originalWriteHead as any)(...args);
+    calls.push(["writeHead", args]);
+    return res;
+  } as typeof res.writeHead;
+  res.write = function (...args: any[]) {
+    if (released) return (originalWrite as any)(...args);
+    calls.push(["write", args]);
+    return true;
+  } as typeof res.write;
+  res.end = function (...args: any[]) {
+    if (released) return (originalEnd as any)(...args);
+    calls.push(["end", args]);
+    markEnded();
+    return res;
+  } as typeof res.end;
+  res.flushHeaders = function () {
+    if (released) return originalFlushHeaders();
+    calls.push(["flushHeaders", []]);
+  };
+
+  function restore(): void {
+    released = true;
+    res.writeHead = originalWriteHead;
+    res.write = originalWrite;
+    res.end = originalEnd;
+    res.flushHeaders = originalFlushHeaders;
+  }
+
+  return {
+    ended,
+    body() {
+      const chunks: Buffer[] = [];
+      for (const [method, args] of calls) {
+        if (method !== "write" && method !== "end") continue;
+        const [chunk, encoding] = args;
+        if (chunk === undefined || chunk === null || typeof chunk === "function") continue;
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"));
+      }
+      return Buffer.concat(chunks);
+    },
+    flush() {
+      restore();
+      for (const [method, args] of calls) {
+        if (method === "writeHead") (originalWriteHead as any)(...args);
+        else if (method === "write") (originalWrite as any)(...args);
+        else if (method === "end") (originalEnd as any)(...args);
+        else if (method === "flushHeaders") originalFlushHeaders();
+      }
+      calls = [];
+    },
+    discard() {
+      restore();
+      calls = [];
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import type { Response } from "express";
+import type { Network } from "x402/types";
+import type { UsageMeter } from "./metering";
+
+// ============================================
+// Per-request payment context
+// ============================================
+// The payment middleware leaves the verified payment on `res.locals`, so a
+// paid handler can see who paid and how much, and ask to run code once the
+// payment has settled (e.g. crediting a prepaid balance). On metered
+// routes it also holds the meter the handler reports its usage on.
+
+export interface VerifiedPayment {
+  /** Payment ledger id. */
+  id: string;
+  route: string;
+  payer: string | null;
+  price: string;
+  /** Amount in atomic units of `asset`. */
+  amount: string;
+  asset: string;
+  network: Network;
+}
+
+export type SettledCallback = (transaction: string) => void | Promise<void>;
+
+interface PaymentLocals {
+  payment?: VerifiedPayment;
+  settledCallbacks?: SettledCallback[];
+  usageMeter?: UsageMeter;
+}
+
+function localsOf(res: Response): PaymentLocals {
+  return res.locals as PaymentLocals;
+}
+
+/** The payment verified for this request, if the route is paid. */
+export function verifiedPayment(res: Response): VerifiedPayment | undefined {
+  return localsOf(res).payment;
+}
+
+export function setVerifiedPayment(res: Response, payment: VerifiedPayment): void {
+  localsOf(res).payment = payment;
+}
+
+/** The usage meter of a request to a metered route (registry `metering`), paid by payment or credits. */
+export function usageMeter(res: Response): UsageMeter | undefined {
+  return localsOf(res).usageMeter;
+}
+
+export function setUsageMeter(res: Response, meter: UsageMeter): void {
+  localsOf(res).usageMeter = meter;
+}
+
+/**
+ * Runs `callback` after the payment settles and before the response is
+ * sent. It never runs if settlement fails.
+ */
+export function onSettled(res: Response, callback: SettledCallback): void {
+  (localsOf(res).settledCallbacks ??= []).push(callback);
+}
+
+/** Whether the handler asked to run code on settlement (which rules out deferring it). */
+export function hasSettledCallbacks(res: Response): boolean {
+  return (localsOf(res).settledCallbacks?.length ?? 0) > 0;
+}
+
+export async function runSettledCallbacks(res: Response, transaction: string): Promise<void> {
+  for (const callback of localsOf(res).settledCallbacks ?? []) {
+    await callback(transaction);
+  }
+}
@@ -0,0 +1,88 @@
+import { createHash } from "node:crypto";
+
+// ============================================
+// Idempotency-Key cache
+// ============================================
+
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+}
+
+export type IdempotencyLookup =
+  | { state: "new" }
+  | { state: "in_progress" }
+  | { state: "mismatch" }
+  | { state: "completed"; response: CachedResponse };
+
+interface CacheEntry {
+  fingerprint: string;
+  expiresAt: number;
+  response?: CachedResponse;
+}
+
+export interface IdempotencyCacheOptions {
+  /** How long a successful response is kept. Default 24 hours. */
+  ttlMs?: number;
+  /** Oldest entries are dropped beyond this many. Default 10,000. */
+  maxEntries?: number;
+}
+
+/**
+ * Remembers the first successful paid response per Idempotency-Key, so a
+ * client retrying after a network error gets that response back instead
+ * of running the handler and settling a second time. A key is bound to the
+ * payment it was first sent with; only successful responses are cached,
+ * so a failed attempt frees the key for another try.
+ */
+export class IdempotencyCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+
+  constructor({ ttlMs = 24 * 60 * 60 * 1000, maxEntries = 10_000 }: IdempotencyCacheOptions = {}) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  /** Looks up `key` and, when it is new, reserves it for this payment. */
+  begin(key: string, payment: string): IdempotencyLookup {
+    const now = Date.now();
+    const fingerprint = fingerprintOf(payment);
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > now) {
+      if (entry.fingerprint !== fingerprint) return { state: "mismatch" };
+      return entry.response ? { state: "completed", response: entry.response } : { state: "in_progress" };
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { fingerprint, expiresAt: now + this.ttlMs });
+    this.evict(now);
+    return { state: "new" };
+  }
+
+  complete(key: string, response: CachedResponse): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.response = response;
+      entry.expiresAt = Date.now() + this.ttlMs;
+    }
+  }
+
+  /** Frees a key whose request did not succeed. */
+  abandon(key: string): void {
+    if (!this.entries.get(key)?.response) this.entries.delete(key);
+  }
+
+  private evict(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now || this.entries.size > this.maxEntries) this.entries.delete(key);
+    }
+  }
+}
+
+function fingerprintOf(payment: string): string {
+  return createHash("sha256").update(payment).digest("hex");
+}
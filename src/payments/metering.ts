@@ -0,0 +1,169 @@
+import type { Response } from "express";
+import type { MeteringDefinition } from "../config/registry";
+import { unitPriceToAtomic } from "./pricing";
+
+// ============================================
+// Usage-metered billing
+// ============================================
+// On a route with `metering`, the payment authorizes the route price as a
+// maximum. The handler reports the units it used on the request's meter
+// (see `usageMeter` in context.ts) and only their cost is charged. A
+// streamed response is stopped once the maximum is used up.
+
+/** Usage of one metered request, as reported in X-PAYMENT-RESPONSE. Amounts are atomic units. */
+export interface UsageSummary {
+  unit: string;
+  units: number;
+  unitPrice: string;
+  /** The most the request could cost (the amount authorized). */
+  authorized: string;
+  /** What the units used cost, capped at `authorized`. */
+  charged: string;
+  /** Whether the handler ran out of budget. */
+  exhausted: boolean;
+}
+
+export class UsageMeter {
+  /** Most units the authorized amount pays for. */
+  readonly maxUnits: number;
+  private used = 0;
+  private ranOut = false;
+  private readonly controller = new AbortController();
+  private readonly unitPrice: bigint;
+
+  constructor(
+    private readonly definition: MeteringDefinition,
+    private readonly authorized: bigint
+  ) {
+    this.unitPrice = unitPriceToAtomic(definition.unitPrice)!;
+    this.maxUnits = Number(authorized / this.unitPrice);
+  }
+
+  get unit(): string {
+    return this.definition.unit;
+  }
+
+  /** Whether the response is streamed to the client as the handler writes it. */
+  get streaming(): boolean {
+    return this.definition.stream;
+  }
+
+  get units(): number {
+    return this.used;
+  }
+
+  get remainingUnits(): number {
+    return this.maxUnits - this.used;
+  }
+
+  get exhausted(): boolean {
+    return this.ranOut;
+  }
+
+  /** Aborted when the budget runs out or the client goes away; a handler doing long work should stop then. */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Cost of the units used so far, in atomic units. */
+  get charged(): bigint {
+    return BigInt(this.used) * this.unitPrice;
+  }
+
+  /**
+   * Reports `units` more used. Returns false when they do not fit in what
+   * is left of the budget: only what fits is counted, the meter is
+   * exhausted and the handler should stop (a streamed response drops
+   * anything written from then on). Once the meter is stopped nothing more
+   * is counted.
+   */
+  record(units: number): boolean {
+    if (!Number.isInteger(units) || units < 0) {
+      throw new RangeError(`Usage must be a whole number of ${this.unit}s, got ${units}`);
+    }
+    if (this.controller.signal.aborted) return false;
+    if (units > this.remainingUnits) {
+      this.used = this.maxUnits;
+      this.ranOut = true;
+      this.controller.abort(new Error(`Authorized budget of ${this.maxUnits} ${this.unit}s used up`));
+      return false;
+    }
+    this.used += units;
+    return true;
+  }
+
+  /** Stops the meter without exhausting it, e.g. when the client disconnected. */
+  stop(reason: string): void {
+    this.controller.abort(new Error(reason));
+  }
+
+  summary(): UsageSummary {
+    return {
+      unit: this.unit,
+      units: this.used,
+      unitPrice: this.unitPrice.toString(),
+      authorized: this.authorized.toString(),
+      charged: this.charged.toString(),
+      exhausted: this.ranOut,
+    };
+  }
+}
+
+export interface MeteredStream {
+  /** Resolves once the handler ends the response, the budget runs out or the client goes away. */
+  ended: Promise<void>;
+  /**
+   * Ends the response with the given trailers. An event stream also gets
+   * a final `usage` event carrying `event`.
+   */
+  finish(trailers: Record<string, string>, event: object): void;
+}
+
+/**
+ * Lets the handler's response through as it is written, for metered routes
+ * with `stream: true`. Anything written once the meter is exhausted is
+ * dropped; the end of the response is held back so the settlement can be
+ * sent after the content, as HTTP trailers (`trailerNames`) and, for SSE,
+ * as a last event.
+ */
+export function meteredStream(res: Response, meter: UsageMeter, trailerNames: string[]): MeteredStream {
+  const originalWrite = res.write.bind(res);
+  const originalEnd = res.end.bind(res);
+
+  let finished = false;
+  let markEnded!: () => void;
+  const ended = new Promise<void>((resolve) => (markEnded = resolve));
+
+  res.setHeader("Trailer", trailerNames.join(", "));
+  res.write = function (...args: any[]) {
+    if (finished || meter.exhausted) return true;
+    return (originalWrite as any)(...args);
+  } as typeof res.write;
+  res.end = function (...args: any[]) {
+    const [chunk] = args;
+    if (!finished && !meter.exhausted && chunk !== undefined && chunk !== null && typeof chunk !== "function") {
+      (originalWrite as any)(...args.filter((arg) => typeof arg !== "function"));
+    }
+    markEnded();
+    return res;
+  } as typeof res.end;
+
+  meter.signal.addEventListener("abort", () => markEnded());
+  res.on("close", () => {
+    if (!res.writableEnded) meter.stop("client disconnected");
+  });
+
+  return {
+    ended,
+    finish(trailers, event) {
+      if (finished) return;
+      finished = true;
+      if (res.destroyed || res.writableEnded) return;
+      if (String(res.getHeader("Content-Type") ?? "").includes("text/event-stream")) {
+        originalWrite(`event: usage\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      res.addTrailers(trailers);
+      originalEnd();
+    },
+  };
+}
@@ -0,0 +1,689 @@
+import type { NextFunction, Request, Response } from "express";
+import { exact } from "x402/schemes";
+import {
+  computeRoutePatterns,
+  findMatchingPaymentRequirements,
+  findMatchingRoute,
+  safeBase64Encode,
+  toJsonSafe,
+} from "x402/shared";
+import { getPaywallHtml } from "x402/paywall";
+import {
+  ExactEvmPayload,
+  Network,
+  PaymentPayload,
+  PaymentRequirements,
+  SupportedSVMNetworks,
+  moneySchema,
+} from "x402/types";
+import { PaymentOption, Registry, routeKey } from "../config/registry";
+import { FacilitatorPool, FacilitatorUnavailableError, SettlementOutcomeUnknownError } from "../facilitators/failover";
+import { CreditAccounts, TOP_UP_PATH } from "../credits";
+import { PaymentLedger, RefundStatus } from "../ledger";
+import { RefundService } from "../refunds";
+import { PaymentPolicy, PolicyViolation } from "../policy";
+import type { Tenant } from "../tenants";
+import { DEFERRED_HEADER, type Deferral, type DeferredSettler } from "../settlement";
+import { log, setRequestRoute } from "../observability/logger";
+import {
+  challengesIssued,
+  creditSpends,
+  handlerDuration,
+  paymentsCompleted,
+  paymentsRejected,
+  revenue,
+} from "../observability/metrics";
+import { BufferedResponse, bufferResponse } from "./buffer";
+import { hasSettledCallbacks, runSettledCallbacks, setUsageMeter, setVerifiedPayment } from "./context";
+import { CachedResponse, IdempotencyCache } from "./idempotency";
+import { UsageMeter, meteredStream } from "./metering";
+import { NonceGuard, paymentNonce } from "./replay";
+import { PricingError, creditPrice, resolvePrice } from "./pricing";
+import { buildPaymentRequirements, resourceUrl } from "./requirements";
+
+const x402Version = 1;
+
+export interface PaymentMiddlewareOptions {
+  /** Records every payment attempt from receipt to settlement. */
+  ledger: PaymentLedger;
+  /** Keeps successful responses for Idempotency-Key retries. */
+  idempotency?: IdempotencyCache;
+  /** Prepaid balances; when set, a credit token can pay instead of X-PAYMENT. */
+  credits?: CreditAccounts;
+  /** Sends refunds owed when a handler fails after its payment settled. */
+  refunds?: RefundService;
+  /** Rate limits, allow/deny lists and spend caps, checked before charging. */
+  policy?: PaymentPolicy;
+  /** Tenant whose catalog `registry` is; payments are recorded under it, with its revenue shares. */
+  tenant?: Tenant;
+  /** Queues payments on `settlement: deferred` routes; without it they settle after the handler. */
+  settler?: DeferredSettler;
+}
+
+/**
+ * x402 payment middleware for every paid route in the registry.
+ *
+ * Follows the x402-express flow (challenge -> verify -> handler -> settle)
+ * with two additions: a route advertises one `accepts` entry per payment
+ * option, and the incoming payment is routed to the option matching its
+ * scheme and network. Verify and settle then go down that option's
+ * facilitator chain, so one facilitator being down does not take the route
+ * with it. The facilitator that settled is reported in `X-PAYMENT-RESPONSE`.
+ *
+ * Prices are resolved per request (see `pricing.ts`). On the paid retry
+ * the signed amount must cover the price of that request.
+ *
+ * A request without X-PAYMENT may instead carry a credit token from the
+ * top-up route (`Authorization: Bearer ...`); the price is then taken from
+ * the token's prepaid balance and refunded if the handler fails.
+ *
+ * A payment nonce is accepted once: presenting it again while it is in
+ * flight or after it settled is refused with `duplicate_payment`.
+ *
+ * By default a payment settles only after the handler answered 2xx. Routes
+ * with `settlement: before-handler` settle first; if their handler then
+ * fails (or a post-settlement step does), the payment is marked refund-owed
+ * and the error response reports the refund.
+ *
+ * Routes with `settlement: deferred` answer as soon as the handler
+ * succeeded, with an X-PAYMENT-DEFERRED header (the payment id) instead of
+ * X-PAYMENT-RESPONSE, and leave the payment to the settler's next batch.
+ * A payment settles right away instead when its authorization expires too
+ * soon, the payer is over their unsettled limit, or the handler registered
+ * `onSettled` callbacks.
+ *
+ * Routes with `metering` treat the price as a maximum. The handler reports
+ * the units it used (see `usageMeter`), the payment settles once it is done
+ * and the unused part is owed back to the payer as a refund; with no usage
+ * nothing settles. X-PAYMENT-RESPONSE carries a `usage` summary. With
+ * `stream: true` the response is passed through as it is written, cut off
+ * when the budget runs out, and X-PAYMENT-RESPONSE is sent as a trailer.
+ *
+ * The payment policy runs twice: per-IP limits before the challenge, and
+ * payer checks (lists, per-payer limits, spend caps) once verification has
+ * named the payer. Refusals are 403 or 429 and the payment is not settled.
+ */
+export function paymentMiddleware(
+  registry: Registry,
+  pool: FacilitatorPool,
+  { ledger, idempotency = new IdempotencyCache(), credits, refunds, policy, tenant, settler }: PaymentMiddlewareOptions
+) {
+  const nonces = new NonceGuard(ledger.store);
+
+  const routePatterns = registry.routes.map((route) => {
+    const [first] = route.accepts;
+    return computeRoutePatterns({ [routeKey(route)]: { price: first.price, network: first.network } })[0];
+  });
+
+  // A Solana transaction names its fee payer, so only facilitators with that
+  // fee payer can verify or settle it.
+  async function chainFor(option: PaymentOption, requirements: PaymentRequirements): Promise<string[]> {
+    if (!SupportedSVMNetworks.includes(option.network)) return option.facilitators;
+    const chain: string[] = [];
+    for (const id of option.facilitators) {
+      const feePayer = await pool.feePayer(id, option.network).catch(() => undefined);
+      if (feePayer && feePayer === requirements.extra?.feePayer) chain.push(id);
+    }
+    return chain;
+  }
+
+  return async function x402PaymentMiddleware(req: Request, res: Response, next: NextFunction) {
+    const match = findMatchingRoute(routePatterns, req.path, req.method.toUpperCase());
+    if (!match) {
+      return next();
+    }
+    const route = registry.routes[routePatterns.indexOf(match)];
+    const key = routeKey(route);
+    setRequestRoute(key);
+
+    // The price may depend on the request, so it is worked out per request.
+    const prices = new Map<PaymentOption, string>();
+    try {
+      for (const option of route.accepts) {
+        prices.set(option, resolvePrice(route, option, req));
+      }
+    } catch (error) {
+      if (!(error instanceof PricingError)) throw error;
+      res.status(400).json({ x402Version, error: "invalid_pricing_input", message: error.message });
+      return;
+    }
+
+    // One accepts entry per option. A Solana option is left out while none of
+    // its facilitators can provide a fee payer, unless it is the only one.
+    const offers: { option: PaymentOption; price: string; requirements: PaymentRequirements }[] = [];
+    for (const option of route.accepts) {
+      let feePayer: string | undefined;
+      if (SupportedSVMNetworks.includes(option.network)) {
+        feePayer = await pool.firstFeePayer(option.facilitators, option.network);
+        if (!feePayer && route.accepts.length > 1) continue;
+      }
+      const price = prices.get(option)!;
+      offers.push({
+        option,
+        price,
+        requirements: buildPaymentRequirements(registry, route, { ...option, price }, resourceUrl(req), feePayer),
+      });
+    }
+    const paymentRequirements = offers.map((offer) => offer.requirements);
+
+    const reject = (status: number, error: unknown, extra: object = {}) => {
+      const reason = error instanceof Error ? error.name : String(error);
+      paymentsRejected.inc({ route: key, reason });
+      log.warn("payment rejected", { status, reason, ...(error instanceof Error && { error }), ...extra });
+      res.status(status).json({
+        x402Version,
+        error: error instanceof Error ? error.message : error,
+        accepts: toJsonSafe(paymentRequirements),
+        ...extra,
+      });
+    };
+
+    const refuse = (violation: PolicyViolation) => {
+      if (violation.retryAfterSeconds !== undefined) res.setHeader("Retry-After", violation.retryAfterSeconds);
+      reject(violation.status, violation.error, { message: violation.message });
+    };
+
+    const ipViolation = policy?.checkRequest(route, req.ip);
+    if (ipViolation) return refuse(ipViolation);
+
+    const payment = req.header("X-PAYMENT");
+    const creditToken = !payment && credits && route.path !== TOP_UP_PATH ? bearerToken(req) : undefined;
+    if (credits && creditToken) {
+      const account = credits.authenticate(creditToken);
+      if (!account) {
+        creditSpends.inc({ route: key, outcome: "invalid_token" });
+        return reject(402, "invalid_credit_token");
+      }
+      const amount = creditPrice(route, prices.get(route.accepts[0]));
+      const admission = await policy?.admit(route, account, amount);
+      if (admission && !admission.ok) return refuse(admission.violation);
+      let balance: string | undefined;
+      try {
+        balance = await credits.store.debit(account, amount, "spend", key);
+      } finally {
+        // From here the spend is in the credit entries, which the caps count
+        if (admission?.ok) admission.release();
+      }
+      if (balance === undefined) {
+        creditSpends.inc({ route: key, outcome: "insufficient" });
+        return reject(402, "insufficient_credit", { balance: await credits.store.balance(account) });
+      }
+      log.info("paid with credits", { account, amount, balance });
+
+      // A metered route takes the price up front and gives back what was not used
+      const meter = route.metering && new UsageMeter(route.metering, BigInt(amount));
+      if (meter) setUsageMeter(res, meter);
+      const stream = meter?.streaming ? meteredStream(res, meter, ["X-CREDIT-BALANCE", "X-CREDIT-USAGE"]) : undefined;
+      const buffered = stream ? undefined : bufferResponse(res);
+      next();
+      await (stream ?? buffered)!.ended;
+      if (res.statusCode >= 400) {
+        balance = await credits.store.credit(account, amount, "refund", key);
+        creditSpends.inc({ route: key, outcome: "refunded" });
+        log.warn("handler failed, credits refunded", { status: res.statusCode, account, amount, balance });
+      } else {
+        const unused = meter ? BigInt(amount) - meter.charged : 0n;
+        if (unused > 0n) {
+          balance = await credits.store.credit(account, unused.toString(), "refund", key);
+          log.info("unused metered credits returned", { account, units: meter!.units, returned: unused.toString(), balance });
+        }
+        creditSpends.inc({ route: key, outcome: "spent" });
+      }
+      const headers: Record<string, string> = { "X-CREDIT-BALANCE": balance };
+      if (meter) headers["X-CREDIT-USAGE"] = safeBase64Encode(JSON.stringify(meter.summary()));
+      if (stream) {
+        stream.finish(headers, { balance, usage: meter!.summary() });
+        return;
+      }
+      for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+      buffered!.flush();
+      return;
+    }
+
+    if (!payment) {
+      challengesIssued.inc({ route: key });
+      log.info("payment required", { price: offers[0].price, networks: offers.map((o) => o.option.network) });
+      const userAgent = req.header("User-Agent") || "";
+      const acceptHeader = req.header("Accept") || "";
+      if (acceptHeader.includes("text/html") && userAgent.includes("Mozilla")) {
+        const amount = moneySchema.safeParse(offers[0].price);
+        res.status(402).send(
+          getPaywallHtml({
+            amount: amount.success ? amount.data : Number.NaN,
+            paymentRequirements: toJsonSafe(paymentRequirements) as PaymentRequirements[],
+            currentUrl: req.originalUrl,
+            testnet: offers[0].option.network === "base-sepolia",
+          })
+        );
+        return;
+      }
+      res.status(402).json({
+        x402Version,
+        error: "X-PAYMENT header is required",
+        accepts: toJsonSafe(paymentRequirements),
+      });
+      return;
+    }
+
+    // A retry carrying the Idempotency-Key of a request that already
+    // succeeded gets that response back, without running the handler again.
+    const idempotencyKey = req.header("Idempotency-Key");
+    let cacheKey: string | undefined;
+    if (idempotencyKey !== undefined) {
+      if (!idempotencyKey || idempotencyKey.length > 255) {
+        return reject(400, "invalid_idempotency_key");
+      }
+      cacheKey = `${key} ${idempotencyKey}`;
+      const lookup = idempotency.begin(cacheKey, payment);
+      if (lookup.state === "completed") {
+        log.info("replaying cached response for idempotency key", { idempotencyKey });
+        return sendCached(res, lookup.response);
+      }
+      if (lookup.state === "in_progress") return reject(409, "idempotency_key_in_progress");
+      if (lookup.state === "mismatch") return reject(422, "idempotency_key_reused");
+    }
+
+    let nonce: string | undefined;
+    let releasePolicy: (() => void) | undefined;
+    let deferral: Deferral | undefined;
+    let settled = false;
+    let response: CachedResponse | undefined;
+    try {
+      let decodedPayment: PaymentPayload;
+      try {
+        decodedPayment = exact.evm.decodePayment(payment);
+        decodedPayment.x402Version = x402Version;
+      } catch (error) {
+        log.debug("could not decode X-PAYMENT", { error });
+        return reject(402, "Invalid or malformed payment header");
+      }
+
+      const selectedRequirements = findMatchingPaymentRequirements(paymentRequirements, decodedPayment);
+      if (!selectedRequirements) {
+        return reject(402, "Unable to find matching payment requirements");
+      }
+      const { option, price } = offers[paymentRequirements.indexOf(selectedRequirements)];
+
+      // The body may differ from the request that got the 402, so the signed
+      // amount is checked against this request's price before verifying.
+      const authorization = (decodedPayment.payload as Partial<ExactEvmPayload>).authorization;
+      if (authorization && BigInt(authorization.value) < BigInt(selectedRequirements.maxAmountRequired)) {
+        return reject(402, "insufficient_payment_amount", {
+          message: `Payment authorizes ${authorization.value} but this request costs ${selectedRequirements.maxAmountRequired} (${price})`,
+        });
+      }
+
+      const claimedNonce = paymentNonce(decodedPayment);
+      if (claimedNonce) {
+        const claim = await nonces.claim(claimedNonce);
+        if (claim !== "claimed") {
+          return reject(402, "duplicate_payment", {
+            message:
+              claim === "in_flight"
+                ? "This payment is already being processed by another request"
+                : "This payment has already been used",
+          });
+        }
+        nonce = claimedNonce;
+      }
+
+      const entry = ledger.begin(
+        {
+          tenant: tenant?.id ?? null,
+          route: key,
+          price,
+          amount: selectedRequirements.maxAmountRequired,
+          asset: selectedRequirements.asset,
+          network: selectedRequirements.network,
+          payTo: selectedRequirements.payTo,
+          payer: authorization?.from ?? null,
+          nonce: nonce ?? null,
+        },
+        tenant?.shares(selectedRequirements.network, selectedRequirements.maxAmountRequired)
+      );
+
+      const chain = await chainFor(option, selectedRequirements);
+      let verifiedBy: string;
+      let payer: string | null;
+      try {
+        const { result, facilitatorId } = await pool.verify(chain, decodedPayment, selectedRequirements);
+        if (!result.isValid) {
+          entry.rejected(facilitatorId, result.invalidReason, result.payer);
+          return reject(402, result.invalidReason, { payer: result.payer, facilitator: facilitatorId });
+        }
+        verifiedBy = facilitatorId;
+        payer = result.payer ?? authorization?.from ?? null;
+        entry.verified(facilitatorId, result.payer);
+        log.info("payment verified", {
+          paymentId: entry.id,
+          facilitator: facilitatorId,
+          payer: result.payer,
+          network: selectedRequirements.network,
+          amount: selectedRequirements.maxAmountRequired,
+        });
+        setVerifiedPayment(res, {
+          id: entry.id,
+          route: key,
+          payer,
+          price,
+          amount: selectedRequirements.maxAmountRequired,
+          asset: selectedRequirements.asset,
+          network: selectedRequirements.network,
+        });
+      } catch (error) {
+        entry.failed(`verify error: ${error instanceof Error ? error.message : error}`);
+        return reject(error instanceof FacilitatorUnavailableError ? 503 : 402, error);
+      }
+
+      if (policy) {
+        const admission = await policy.admit(route, payer ?? "", selectedRequirements.maxAmountRequired);
+        if (!admission.ok) {
+          entry.failed(`refused by policy: ${admission.violation.error}`);
+          return refuse(admission.violation);
+        }
+        releasePolicy = admission.release;
+      }
+
+      const meter = route.metering && new UsageMeter(route.metering, BigInt(selectedRequirements.maxAmountRequired));
+      if (meter) setUsageMeter(res, meter);
+
+      if (route.settlement === "deferred" && settler && authorization && payer) {
+        const validBefore = new Date(Number(authorization.validBefore) * 1000);
+        deferral = await settler.admit(payer, selectedRequirements.maxAmountRequired, validBefore);
+        if (!deferral.ok) log.info("settling now instead of deferring", { paymentId: entry.id, reason: deferral.reason });
+      }
+
+      const outcome = { route: key, facilitator: verifiedBy, network: selectedRequirements.network };
+
+      // Settle with the facilitator that verified first. Retrying elsewhere is
+      // safe: the authorization nonce can only be spent once on-chain.
+      // `earned` is the revenue it brings in, less than the amount when part
+      // of it is owed back (metered routes).
+      const settleChain = [verifiedBy, ...chain.filter((id) => id !== verifiedBy)];
+      const trySettle = async (earned = selectedRequirements.maxAmountRequired): Promise<Settlement> => {
+        try {
+          const { result, facilitatorId } = await pool.settle(settleChain, decodedPayment, selectedRequirements);
+          const receipt = { ...result, facilitator: facilitatorId };
+          if (!result.success) {
+            entry.failed(`settle failed: ${result.errorReason}`, facilitatorId);
+            paymentsCompleted.inc({ ...outcome, facilitator: facilitatorId, status: "failed" });
+            return {
+              ok: false,
+              status: 402,
+              error: result.errorReason,
+              extra: { paymentId: entry.id, facilitator: facilitatorId },
+              receipt,
+            };
+          }
+          entry.settled(facilitatorId, result.transaction);
+          settled = true;
+          paymentsCompleted.inc({ ...outcome, facilitator: facilitatorId, status: "settled" });
+          revenue.inc({ ...outcome, facilitator: facilitatorId, asset: selectedRequirements.asset }, Number(earned));
+          log.info("payment settled", {
+            paymentId: entry.id,
+            facilitator: facilitatorId,
+            transaction: result.transaction,
+            amount: selectedRequirements.maxAmountRequired,
+          });
+          return { ok: true, transaction: result.transaction, receipt };
+        } catch (error) {
+          if (error instanceof SettlementOutcomeUnknownError) {
+            entry.settleUnknown(error.message, error.facilitatorId);
+            // It may be on-chain, so the payment must not be used again
+            settled = true;
+            paymentsCompleted.inc({ ...outcome, facilitator: error.facilitatorId, status: "unknown" });
+            log.error("settlement outcome unknown", { paymentId: entry.id, facilitator: error.facilitatorId, error });
+            return {
+              ok: false,
+              status: 502,
+              error: "settle_outcome_unknown",
+              extra: { paymentId: entry.id, facilitator: error.facilitatorId, message: error.message },
+            };
+          }
+          entry.failed(`settle error: ${error instanceof Error ? error.message : error}`);
+          paymentsCompleted.inc({ ...outcome, status: "failed" });
+          return {
+            ok: false,
+            status: error instanceof FacilitatorUnavailableError ? 503 : 402,
+            error,
+            extra: { paymentId: entry.id },
+          };
+        }
+      };
+
+      // Resolves with the transaction, or undefined once a rejection was sent.
+      const settle = async (buffered?: BufferedResponse): Promise<string | undefined> => {
+        const settlement = await trySettle();
+        if (settlement.receipt) res.setHeader("X-PAYMENT-RESPONSE", safeBase64Encode(JSON.stringify(settlement.receipt)));
+        if (!settlement.ok) {
+          buffered?.discard();
+          reject(settlement.status, settlement.error, settlement.extra);
+          return undefined;
+        }
+        return settlement.transaction;
+      };
+
+      // The payer was charged but did not get (all of) what they paid for.
+      const oweRefund = async (reason: string, amount?: string) => {
+        const status: RefundStatus = refunds
+          ? await refunds.owe(entry, key, selectedRequirements.network, reason, amount)
+          : await entry.refundOwed(reason, amount).then(() => "owed" as const);
+        return {
+          status,
+          paymentId: entry.id,
+          amount: amount ?? selectedRequirements.maxAmountRequired,
+          asset: selectedRequirements.asset,
+          network: selectedRequirements.network,
+          to: payer,
+        };
+      };
+
+      // Charges a metered request for the units its handler used. The whole
+      // authorization settles (an exact payment cannot settle less), so the
+      // unused part is owed back; with no usage nothing is settled at all.
+      const settleUsage = async (meter: UsageMeter): Promise<MeteredSettlement> => {
+        const usage = meter.summary();
+        const unsettled = { success: false, transaction: "", network: selectedRequirements.network, payer };
+        if (meter.charged === 0n) {
+          entry.failed("no usage reported");
+          paymentsCompleted.inc({ ...outcome, status: "failed" });
+          log.info("no metered usage, payment not settled", { paymentId: entry.id });
+          return { receipt: { ...unsettled, errorReason: "no_usage", usage } };
+        }
+        const settlement = await trySettle(usage.charged);
+        if (!settlement.ok) {
+          const errorReason = settlement.error instanceof Error ? settlement.error.message : String(settlement.error);
+          return { receipt: { ...(settlement.receipt ?? { ...unsettled, errorReason }), usage }, failure: settlement };
+        }
+        const unused = BigInt(usage.authorized) - meter.charged;
+        if (unused === 0n) return { receipt: { ...settlement.receipt, usage }, transaction: settlement.transaction };
+        const { status } = await oweRefund(
+          `unused metered budget: ${usage.units} of ${meter.maxUnits} ${usage.unit}s used`,
+          unused.toString()
+        );
+        return {
+          receipt: { ...settlement.receipt, usage: { ...usage, refund: { status, amount: unused.toString() } } },
+          transaction: settlement.transaction,
+        };
+      };
+
+      let transaction: string | undefined;
+      if (route.settlement === "before-handler") {
+        transaction = await settle();
+        if (!transaction) return;
+      }
+
+      // A metered stream reaches the client as it is written; the payment
+      // settles once it ends and the receipt follows as a trailer.
+      if (meter?.streaming) {
+        const stream = meteredStream(res, meter, ["X-PAYMENT-RESPONSE"]);
+        const stopHandlerTimer = handlerDuration.startTimer({ route: key });
+        next();
+        await stream.ended;
+        stopHandlerTimer({ status: res.statusCode });
+
+        let receipt: MeteredSettlement["receipt"];
+        if (res.statusCode >= 400) {
+          entry.failed(`handler responded ${res.statusCode}`);
+          paymentsCompleted.inc({ ...outcome, status: "failed" });
+          log.warn("handler failed, payment not settled", { paymentId: entry.id, status: res.statusCode });
+          receipt = { success: false, errorReason: "handler_failed", transaction: "", network: selectedRequirements.network, payer };
+        } else {
+          const usage = await settleUsage(meter);
+          receipt = usage.receipt;
+          if (usage.transaction) {
+            try {
+              await runSettledCallbacks(res, usage.transaction);
+            } catch (error) {
+              log.error("post-settlement step failed", { paymentId: entry.id, error });
+              receipt = {
+                ...receipt,
+                refund: await oweRefund(`post-settlement step failed: ${error instanceof Error ? error.message : error}`),
+              };
+            }
+          }
+        }
+        stream.finish({ "X-PAYMENT-RESPONSE": safeBase64Encode(JSON.stringify(receipt)) }, receipt);
+        return;
+      }
+
+      const buffered = bufferResponse(res);
+      const stopHandlerTimer = handlerDuration.startTimer({ route: key });
+      next();
+      await buffered.ended;
+      stopHandlerTimer({ status: res.statusCode });
+
+      if (res.statusCode >= 400) {
+        if (transaction) {
+          const refund = await oweRefund(`handler responded ${res.statusCode}`);
+          const body = withRefund(buffered.body(), refund);
+          buffered.discard();
+          res.json(body);
+          return;
+        }
+        entry.failed(`handler responded ${res.statusCode}`);
+        paymentsCompleted.inc({ ...outcome, status: "failed" });
+        log.warn("handler failed, payment not settled", { paymentId: entry.id, status: res.statusCode });
+        buffered.flush();
+        return;
+      }
+
+      // Served on the verified payment; the settler takes it from here
+      if (!transaction && deferral?.ok && !hasSettledCallbacks(res)) {
+        try {
+          await settler!.enqueue({
+            id: entry.id,
+            tenant: tenant?.id ?? null,
+            route: key,
+            payer: payer!,
+            network: selectedRequirements.network,
+            amount: selectedRequirements.maxAmountRequired,
+            asset: selectedRequirements.asset,
+            payment,
+            requirements: JSON.stringify(toJsonSafe(selectedRequirements)),
+            facilitators: settleChain,
+            validBefore: new Date(Number(authorization!.validBefore) * 1000).toISOString(),
+          });
+          // Spent as far as replays go, though not settled yet
+          settled = true;
+          res.setHeader(DEFERRED_HEADER, entry.id);
+          response = { status: res.statusCode, headers: headersOf(res), body: buffered.body() };
+          buffered.flush();
+          return;
+        } catch (error) {
+          log.error("could not queue payment for deferred settlement, settling now", { paymentId: entry.id, error });
+        }
+      }
+
+      if (meter) {
+        const usage = await settleUsage(meter);
+        res.setHeader("X-PAYMENT-RESPONSE", safeBase64Encode(JSON.stringify(usage.receipt)));
+        if (usage.failure) {
+          buffered.discard();
+          reject(usage.failure.status, usage.failure.error, usage.failure.extra);
+          return;
+        }
+        if (!usage.transaction) {
+          // Nothing was charged, so the payment can be used again and the response is not kept
+          buffered.flush();
+          return;
+        }
+        transaction = usage.transaction;
+      }
+
+      if (!transaction) {
+        transaction = await settle(buffered);
+        if (!transaction) return;
+      }
+
+      try {
+        await runSettledCallbacks(res, transaction);
+      } catch (error) {
+        log.error("post-settlement step failed", { paymentId: entry.id, error });
+        buffered.discard();
+        const refund = await oweRefund(`post-settlement step failed: ${error instanceof Error ? error.message : error}`);
+        res.status(500).json({
+          success: false,
+          error: "Payment settled but could not be processed",
+          paymentId: entry.id,
+          refund,
+        });
+        return;
+      }
+      response = { status: res.statusCode, headers: headersOf(res), body: buffered.body() };
+      buffered.flush();
+    } finally {
+      releasePolicy?.();
+      if (deferral?.ok) deferral.release();
+      if (nonce) nonces.release(nonce, settled);
+      if (cacheKey) {
+        if (response) idempotency.complete(cacheKey, response);
+        else idempotency.abandon(cacheKey);
+      }
+    }
+  };
+}
+
+/** Outcome of settling a payment; `receipt` is what X-PAYMENT-RESPONSE reports. */
+type Settlement =
+  | { ok: true; transaction: string; receipt: object }
+  | { ok: false; status: number; error: unknown; extra: object; receipt?: object };
+
+/** A metered request's receipt, with the transaction when it settled or the failure when settling did. */
+interface MeteredSettlement {
+  receipt: object;
+  transaction?: string;
+  failure?: Extract<Settlement, { ok: false }>;
+}
+
+function headersOf(res: Response): Record<string, string | string[]> {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(res.getHeaders())) {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value : String(value);
+  }
+  return headers;
+}
+
+function sendCached(res: Response, cached: CachedResponse): void {
+  res.status(cached.status);
+  for (const [name, value] of Object.entries(cached.headers)) {
+    res.setHeader(name, value);
+  }
+  res.setHeader("Idempotent-Replayed", "true");
+  res.end(cached.body);
+}
+
+function bearerToken(req: Request): string | undefined {
+  return /^Bearer (.+)$/.exec(req.header("Authorization") ?? "")?.[1];
+}
+
+/** Adds the refund to a failed handler's JSON error body (or wraps a non-JSON one). */
+function withRefund(body: Buffer, refund: object): object {
+  try {
+    const parsed = JSON.parse(body.toString("utf8"));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return { ...parsed, refund };
+  } catch {
+    // Not JSON - replaced below
+  }
+  return { success: false, error: "Request failed after the payment settled", refund };
+}
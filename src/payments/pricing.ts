@@ -0,0 +1,141 @@
+import type { Request } from "express";
+import { processPriceToAtomicAmount } from "x402/shared";
+import { moneySchema } from "x402/types";
+import type { PaidRouteDefinition, PaymentOption, PricingDefinition } from "../config/registry";
+
+// ============================================
+// Request-dependent pricing
+// ============================================
+// A route's `pricing` turns its static price into a function of the
+// request: the first matching rule picks the price, and `units` multiplies
+// it by a whole number read from the body, query or headers.
+
+/** The request cannot be priced, e.g. a unit count that is not a number. */
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+/** Price of one payment option for this request, as a USD string such as "$0.15". */
+export function resolvePrice(route: PaidRouteDefinition, option: PaymentOption, req: Request): string {
+  const { pricing } = route;
+  if (!pricing) return option.price;
+
+  const rule = pricing.rules.find((r) =>
+    Object.entries(r.when).every(([field, expected]) => matches(readField(req, field), expected))
+  );
+  const price = rule?.price ?? option.price;
+  const units = pricing.units ? readUnits(req, pricing.units) : 1;
+  return units === 1 ? price : multiply(price, units);
+}
+
+/**
+ * What paying with credits costs, in atomic units: the route's first payment
+ * option at `price` (its price for the request, the base price by default).
+ * Spends and `/credits/remaining` both price credits this way.
+ */
+export function creditPrice(route: PaidRouteDefinition, price = route.accepts[0].price): string {
+  const atomic = processPriceToAtomicAmount(price, route.accepts[0].network);
+  if ("error" in atomic) throw new Error(atomic.error);
+  return atomic.maxAmountRequired;
+}
+
+/**
+ * Human-readable pricing rule for the info document, e.g. "$0.05 per
+ * body.computeUnits", or "$0.00005 per token, up to $0.01" when metered.
+ */
+export function describePrice(route: PaidRouteDefinition, option: PaymentOption): string {
+  const { metering } = route;
+  const description = describeAuthorized(route, option);
+  return metering ? `${metering.unitPrice} per ${metering.unit}, up to ${description}` : description;
+}
+
+function describeAuthorized(route: PaidRouteDefinition, option: PaymentOption): string {
+  const { pricing } = route;
+  if (!pricing) return option.price;
+
+  const parts = pricing.rules.map(
+    (rule) =>
+      `${rule.price} when ${Object.entries(rule.when)
+        .map(([field, value]) => `${field} is ${Array.isArray(value) ? value.join(" or ") : value}`)
+        .join(" and ")}`
+  );
+  parts.push(parts.length > 0 ? `otherwise ${option.price}` : option.price);
+
+  let description = parts.join(", ");
+  if (pricing.units) {
+    const { field, default: fallback, max } = pricing.units;
+    const limits = [`default ${fallback}`, ...(max ? [`max ${max}`] : [])].join(", ");
+    description += ` per ${field} (${limits})`;
+  }
+  return description;
+}
+
+function readField(req: Request, field: string): unknown {
+  const [source, ...path] = field.split(".");
+  if (source === "headers") return req.header(path[0]);
+  if (source === "query") return req.query[path[0]];
+  let value: unknown = req.body;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+type FieldValue = string | number | boolean;
+
+function matches(actual: unknown, expected: FieldValue | FieldValue[]): boolean {
+  if (actual === undefined || actual === null || typeof actual === "object") return false;
+  const candidates = Array.isArray(expected) ? expected : [expected];
+  return candidates.some((candidate) => String(candidate) === String(actual));
+}
+
+function readUnits(req: Request, units: NonNullable<PricingDefinition["units"]>): number {
+  const raw = readField(req, units.field);
+  if (raw === undefined || raw === "") return units.default;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new PricingError(`${units.field} must be a positive whole number`);
+  }
+  if (units.max !== undefined && value > units.max) {
+    throw new PricingError(`${units.field} must be at most ${units.max}`);
+  }
+  return value;
+}
+
+// USD prices are settled in 6-decimal stablecoins, so multiply in millionths
+// to keep the result exact.
+function multiply(price: string, units: number): string {
+  const micros = BigInt(Math.round(moneySchema.parse(price) * 1_000_000)) * BigInt(units);
+  const whole = micros / 1_000_000n;
+  const fraction = (micros % 1_000_000n).toString().padStart(6, "0").replace(/0+$/, "");
+  return `$${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/** Converts a dollar string such as "$1.50" to atomic USDC units (6 decimals). */
+export function usdToAtomic(price: string): string {
+  return BigInt(Math.round(moneySchema.parse(price) * 1_000_000)).toString();
+}
+
+/**
+ * Converts a metered unit price such as "$0.00005" to atomic USDC units.
+ * Unlike route prices these may go below x402's $0.0001 floor, down to
+ * $0.000001 (anything smaller comes out as 0). Undefined if not a dollar
+ * amount.
+ */
+export function unitPriceToAtomic(price: string): bigint | undefined {
+  const match = /^\$?(\d+(?:\.\d+)?)$/.exec(price.trim());
+  return match ? BigInt(Math.round(Number(match[1]) * 1_000_000)) : undefined;
+}
+
+/** Formats an atomic USDC amount (6 decimals) as a dollar string. */
+export function atomicToUsd(amount: string): string {
+  const value = BigInt(amount);
+  const whole = value / 1_000_000n;
+  const fraction = (value % 1_000_000n).toString().padStart(6, "0");
+  return `$${whole}.${fraction}`;
+}
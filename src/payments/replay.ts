@@ -0,0 +1,70 @@
+import { createHash } from "node:crypto";
+import type { ExactEvmPayload, ExactSvmPayload, PaymentPayload } from "x402/types";
+import type { LedgerStore } from "../ledger";
+import { log } from "../observability/logger";
+
+// ============================================
+// Replay protection
+// ============================================
+
+/**
+ * Identifies a payment for replay checks: the EIP-3009 authorization nonce
+ * on EVM networks, a SHA-256 of the signed transaction on Solana.
+ */
+export function paymentNonce(payment: PaymentPayload): string | undefined {
+  const evmPayload = payment.payload as Partial<ExactEvmPayload>;
+  if (evmPayload.authorization?.nonce) return evmPayload.authorization.nonce;
+  const svmPayload = payment.payload as Partial<ExactSvmPayload>;
+  if (svmPayload.transaction) return createHash("sha256").update(svmPayload.transaction).digest("hex");
+  return undefined;
+}
+
+export type NonceClaim = "claimed" | "in_flight" | "used";
+
+// How long a settled nonce is remembered in memory; the ledger is the
+// long-term record, this only covers the gap until its write lands.
+const USED_RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * Tracks payment nonces so the same X-PAYMENT cannot be presented twice.
+ * A nonce is refused while another request holds it and once the ledger
+ * has a payment with it that did not fail. Failed payments were never
+ * charged, so their nonce may be tried again.
+ */
+export class NonceGuard {
+  private readonly inFlight = new Set<string>();
+  private readonly used = new Map<string, number>();
+
+  constructor(private readonly store: LedgerStore) {}
+
+  async claim(nonce: string): Promise<NonceClaim> {
+    this.prune();
+    if (this.inFlight.has(nonce)) return "in_flight";
+    if (this.used.has(nonce)) return "used";
+
+    // Reserve before the ledger lookup so concurrent requests cannot both pass
+    this.inFlight.add(nonce);
+    try {
+      const previous = await this.store.list({ nonce });
+      if (previous.some((record) => record.status !== "failed")) {
+        this.inFlight.delete(nonce);
+        return "used";
+      }
+    } catch (error) {
+      log.error("ledger lookup failed for payment nonce", { error });
+    }
+    return "claimed";
+  }
+
+  /** Frees a claimed nonce; `settled` keeps it refused from now on. */
+  release(nonce: string, settled: boolean): void {
+    this.inFlight.delete(nonce);
+    if (settled) this.used.set(nonce, Date.now() + USED_RETENTION_MS);
+  }
+
+  private prune(now = Date.now()): void {
+    for (const [nonce, expiresAt] of this.used) {
+      if (expiresAt <= now) this.used.delete(nonce);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { Request } from "express";
+import { getAddress } from "viem";
+import { processPriceToAtomicAmount } from "x402/shared";
+import { PaymentRequirements, SupportedEVMNetworks, SupportedSVMNetworks } from "x402/types";
+import { usdcFor } from "../config/profiles";
+import { PaidRouteDefinition, PaymentOption, Registry, payToFor, routeKey } from "../config/registry";
+import { ROUTE_SCHEMAS, envelope } from "../server/schemas";
+
+/** Absolute URL of the resource a request is for, as advertised in `resource` (with any tenant path prefix). */
+export function resourceUrl(req: Request): string {
+  return `${req.protocol}://${req.headers.host}${req.originalUrl.split("?")[0]}`;
+}
+
+/**
+ * Builds the `accepts` entry for one of a paid route's payment options,
+ * asking for the profile's USDC on the option's network. Solana options need the settling facilitator's fee payer, which the
+ * caller looks up from `/supported`.
+ */
+export function buildPaymentRequirements(
+  registry: Registry,
+  route: PaidRouteDefinition,
+  option: PaymentOption,
+  resource: string,
+  feePayer?: string
+): PaymentRequirements {
+  const atomicAmount = processPriceToAtomicAmount(option.price, option.network);
+  if ("error" in atomicAmount) {
+    throw new Error(atomicAmount.error);
+  }
+  const { maxAmountRequired } = atomicAmount;
+  const asset = usdcFor(registry.profile, option.network);
+  const payTo = payToFor(registry, option);
+  const schema = ROUTE_SCHEMAS[routeKey(route)];
+
+  const common = {
+    scheme: "exact" as const,
+    network: option.network,
+    maxAmountRequired,
+    resource,
+    description: route.description,
+    mimeType: "application/json",
+    // A deferred payment must stay valid until its batch is settled
+    maxTimeoutSeconds: route.settlement === "deferred" ? registry.deferredSettlement.authorizationSeconds : 60,
+    outputSchema: {
+      input: {
+        type: "http",
+        method: route.method,
+        discoverable: true,
+        ...(schema?.query && { queryParams: schema.query }),
+        ...(schema?.body && { bodyType: "json", bodyFields: schema.body.properties }),
+      },
+      ...(schema && { output: envelope(schema.data) }),
+    },
+  };
+
+  if (SupportedEVMNetworks.includes(option.network)) {
+    return {
+      ...common,
+      payTo,
+      asset: getAddress(asset.address),
+      extra: asset.eip712,
+    };
+  }
+  if (SupportedSVMNetworks.includes(option.network)) {
+    if (!feePayer) {
+      throw new Error(`No facilitator provided a fee payer for network: ${option.network}`);
+    }
+    return {
+      ...common,
+      payTo,
+      asset: asset.address,
+      extra: { feePayer },
+    };
+  }
+  throw new Error(`Unsupported network: ${option.network}`);
+}
@@ -0,0 +1,25 @@
+import type { Registry } from "../config/registry";
+import type { LedgerStore } from "../ledger";
+import { AddressList } from "./lists";
+import { PaymentPolicy, type SpendSources } from "./policy";
+
+export { AddressList, normalizeAddress } from "./lists";
+export { SlidingWindowLimiter } from "./limiter";
+export { PaymentPolicy, type Admission, type PolicyLists, type PolicyViolation, type SpendSources } from "./policy";
+
+/**
+ * Builds the policy from the registry's `policy` section, reading the
+ * allow/deny list files. `sources` hold spending the ledger does not show.
+ */
+export function createPaymentPolicy(registry: Registry, store: LedgerStore, sources: SpendSources = {}): PaymentPolicy {
+  const { allowlist, denylist } = registry.policy;
+  return new PaymentPolicy(
+    registry,
+    store,
+    {
+      allowlist: allowlist ? new AddressList(allowlist) : undefined,
+      denylist: denylist ? new AddressList(denylist) : undefined,
+    },
+    sources
+  );
+}
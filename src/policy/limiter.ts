@@ -0,0 +1,52 @@
+// ============================================
+// Sliding-window rate limiter
+// ============================================
+
+interface Window {
+  windowMs: number;
+  /** Timestamps of the hits still inside the window, oldest first. */
+  hits: number[];
+}
+
+/**
+ * In-memory sliding-window log: a key may have at most `limit` hits in any
+ * `windowMs` span. Only allowed hits are recorded, so a client that keeps
+ * retrying while limited does not push its own reset further out.
+ */
+export class SlidingWindowLimiter {
+  private readonly windows = new Map<string, Window>();
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(pruneIntervalMs = 60_000) {
+    this.timer = setInterval(() => this.prune(), pruneIntervalMs);
+    this.timer.unref();
+  }
+
+  /** Records a hit and returns 0, or returns the ms until `key` may try again. */
+  take(key: string, limit: number, windowMs: number, now = Date.now()): number {
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { windowMs, hits: [] };
+      this.windows.set(key, window);
+    }
+    const start = now - windowMs;
+    while (window.hits.length > 0 && window.hits[0] <= start) window.hits.shift();
+
+    if (window.hits.length >= limit) {
+      return window.hits[window.hits.length - limit] + windowMs - now;
+    }
+    window.hits.push(now);
+    return 0;
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  private prune(now = Date.now()): void {
+    for (const [key, window] of this.windows) {
+      const newest = window.hits[window.hits.length - 1];
+      if (newest === undefined || newest <= now - window.windowMs) this.windows.delete(key);
+    }
+  }
+}
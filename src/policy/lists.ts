@@ -0,0 +1,51 @@
+import { readFileSync, watchFile } from "node:fs";
+import { log } from "../observability/logger";
+
+// ============================================
+// Address lists
+// ============================================
+
+/** EVM addresses are compared lowercased; Solana (base58) addresses as-is. */
+export function normalizeAddress(address: string): string {
+  return address.startsWith("0x") ? address.toLowerCase() : address;
+}
+
+/**
+ * A set of payer addresses read from a text file: one address per line,
+ * blank lines and `#` comments ignored. The file is re-read when it
+ * changes; if the new contents cannot be read the previous list is kept.
+ */
+export class AddressList {
+  private addresses = new Set<string>();
+
+  constructor(public readonly path: string) {
+    this.addresses = AddressList.read(path);
+    watchFile(path, { persistent: false, interval: 5_000 }, () => this.reload());
+  }
+
+  has(address: string): boolean {
+    return this.addresses.has(normalizeAddress(address));
+  }
+
+  get size(): number {
+    return this.addresses.size;
+  }
+
+  private reload(): void {
+    try {
+      this.addresses = AddressList.read(this.path);
+      log.info("address list reloaded", { path: this.path, addresses: this.addresses.size });
+    } catch (error) {
+      log.error("address list could not be reloaded, keeping the previous one", { path: this.path, error });
+    }
+  }
+
+  private static read(path: string): Set<string> {
+    const addresses = new Set<string>();
+    for (const line of readFileSync(path, "utf8").split(/\r?\n/)) {
+      const address = line.replace(/#.*/, "").trim();
+      if (address) addresses.add(normalizeAddress(address));
+    }
+    return addresses;
+  }
+}
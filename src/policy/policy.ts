@@ -0,0 +1,210 @@
+import { routeKey, type PaidRouteDefinition, type RateLimit, type Registry } from "../config/registry";
+import { TOP_UP_PATH, type CreditStore } from "../credits";
+import type { LedgerStore } from "../ledger";
+import { atomicToUsd, usdToAtomic } from "../payments/pricing";
+import type { SettlementStore } from "../settlement";
+import { SlidingWindowLimiter } from "./limiter";
+import { AddressList, normalizeAddress } from "./lists";
+
+// ============================================
+// Payment policy
+// ============================================
+
+export interface PolicyViolation {
+  status: 403 | 429;
+  error: "payer_denied" | "payer_not_allowed" | "rate_limited" | "daily_spend_cap_exceeded";
+  message: string;
+  /** Seconds until the request may succeed, sent as Retry-After. */
+  retryAfterSeconds?: number;
+}
+
+/** Outcome of the payer checks. An admitted payer holds a spend reservation until `release`. */
+export type Admission = { ok: true; release(): void } | { ok: false; violation: PolicyViolation };
+
+export interface PolicyLists {
+  allowlist?: AddressList;
+  denylist?: AddressList;
+}
+
+/** Where spending not yet (or never) in the ledger's settled revenue is kept. */
+export interface SpendSources {
+  /** Deferred settlement queue: queued payments were served, so they count as spent. */
+  queue?: SettlementStore;
+  /** Prepaid credits: spends count per route, and top-ups do not count (they are counted when spent). */
+  credits?: CreditStore;
+}
+
+/**
+ * Rules on top of payment: per-IP and per-payer rate limits per route,
+ * address allow/deny lists and daily spend caps per payer.
+ *
+ * `checkRequest` runs before the 402 challenge; `admit` runs once the
+ * payer is known (after verification) and before settlement, so a refused
+ * payment is never charged.
+ *
+ * Spend caps count today's (UTC) settled, unrefunded payments in the
+ * ledger, payments served and queued for deferred settlement, credits spent
+ * (instead of the top-ups that bought them), and amounts reserved by
+ * requests still in flight.
+ */
+export class PaymentPolicy {
+  private readonly limiter = new SlidingWindowLimiter();
+  private readonly reserved = new Map<string, bigint>();
+  private readonly globalCap?: bigint;
+  /** Tenant whose routes the per-route limits and caps count; null for the top-level routes. */
+  private readonly tenant: string | null = null;
+
+  constructor(
+    registry: Registry,
+    private readonly store: LedgerStore,
+    private readonly lists: PolicyLists = {},
+    private readonly sources: SpendSources = {}
+  ) {
+    const cap = registry.policy.dailySpendCap;
+    this.globalCap = cap ? BigInt(usdToAtomic(cap)) : undefined;
+  }
+
+  /**
+   * The same lists, limiter state and reservations for one tenant's routes.
+   * Per-route limits and caps count that tenant's requests and payments
+   * only; the overall cap still counts everything the payer spent.
+   */
+  forTenant(tenant: string): PaymentPolicy {
+    return Object.assign(Object.create(PaymentPolicy.prototype), this, { tenant });
+  }
+
+  /** Per-IP rate limit, counted on every request to the route. */
+  checkRequest(route: PaidRouteDefinition, ip: string | undefined): PolicyViolation | undefined {
+    const limit = route.limits?.perIp;
+    if (!limit || !ip) return undefined;
+    return this.limit(`ip ${this.scoped(route)} ${ip}`, limit, `Too many requests from this IP to ${routeKey(route)}`);
+  }
+
+  /**
+   * Allow/deny lists, the per-payer rate limit and, when `amount` (atomic
+   * units) is given, the daily spend caps. For a credit spend `payer` is the
+   * credit account.
+   */
+  async admit(route: PaidRouteDefinition, payer: string, amount?: string): Promise<Admission> {
+    const key = routeKey(route);
+    const address = normalizeAddress(payer);
+
+    if (this.lists.denylist?.has(address)) {
+      return refuse({ status: 403, error: "payer_denied", message: "This payer address is not allowed to pay" });
+    }
+    if (this.lists.allowlist && !this.lists.allowlist.has(address)) {
+      return refuse({ status: 403, error: "payer_not_allowed", message: "This payer address is not on the allowlist" });
+    }
+
+    const perPayer = route.limits?.perPayer;
+    if (perPayer) {
+      const violation = this.limit(
+        `payer ${this.scoped(route)} ${address}`,
+        perPayer,
+        `Too many requests from this payer to ${key}`
+      );
+      if (violation) return refuse(violation);
+    }
+
+    if (amount === undefined) return { ok: true, release: () => {} };
+
+    const routeCap = route.limits?.dailySpendCap ? BigInt(usdToAtomic(route.limits.dailySpendCap)) : undefined;
+    if (routeCap === undefined && this.globalCap === undefined) return { ok: true, release: () => {} };
+
+    const reservations = [address, `${address} ${this.scoped(route)}`];
+    const spent = await this.spentToday(address);
+    const charge = BigInt(amount);
+    const usedOverall = spent.total + this.reservedFor(reservations[0]);
+    if (this.globalCap !== undefined && usedOverall + charge > this.globalCap) {
+      return refuse(capExceeded(this.globalCap, usedOverall, "across all routes"));
+    }
+    const usedOnRoute = (spent.routes.get(key) ?? 0n) + this.reservedFor(reservations[1]);
+    if (routeCap !== undefined && usedOnRoute + charge > routeCap) {
+      return refuse(capExceeded(routeCap, usedOnRoute, `on ${key}`));
+    }
+
+    for (const reservation of reservations) this.reserved.set(reservation, this.reservedFor(reservation) + charge);
+    let released = false;
+    return {
+      ok: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        for (const reservation of reservations) {
+          const left = this.reservedFor(reservation) - charge;
+          if (left > 0n) this.reserved.set(reservation, left);
+          else this.reserved.delete(reservation);
+        }
+      },
+    };
+  }
+
+  private limit(key: string, { requests, windowSeconds }: RateLimit, message: string): PolicyViolation | undefined {
+    const waitMs = this.limiter.take(key, requests, windowSeconds * 1000);
+    if (waitMs === 0) return undefined;
+    return {
+      status: 429,
+      error: "rate_limited",
+      message: `${message} (limit ${requests} per ${windowSeconds}s)`,
+      retryAfterSeconds: Math.ceil(waitMs / 1000),
+    };
+  }
+
+  /** Key of a route within its tenant. */
+  private scoped(route: PaidRouteDefinition): string {
+    return this.tenant === null ? routeKey(route) : `${this.tenant} ${routeKey(route)}`;
+  }
+
+  private reservedFor(key: string): bigint {
+    return this.reserved.get(key) ?? 0n;
+  }
+
+  private async spentToday(payer: string): Promise<{ total: bigint; routes: Map<string, bigint> }> {
+    const from = new Date().toISOString().slice(0, 10) + "T00:00:00.000Z";
+    const { queue, credits } = this.sources;
+    const spent = { total: 0n, routes: new Map<string, bigint>() };
+    const add = (route: string, amount: bigint, tenant: string | null) => {
+      spent.total += amount;
+      if (tenant === this.tenant) spent.routes.set(route, (spent.routes.get(route) ?? 0n) + amount);
+    };
+
+    for (const row of await this.store.revenue("tenant", { payer, from })) {
+      const tenant = row.key || null;
+      for (const route of await this.store.revenue("route", { payer, from, tenant })) {
+        // Credits bought are counted as they are spent
+        if (credits && tenant === null && route.key === `POST ${TOP_UP_PATH}`) continue;
+        add(route.key, BigInt(route.amount), tenant);
+      }
+    }
+    // Served but not settled (or not known to be), so not in the ledger's revenue
+    const unsettled = queue
+      ? [...(await queue.list({ status: "queued", payer })), ...(await queue.list({ status: "unknown", payer }))]
+      : [];
+    for (const payment of unsettled.filter((payment) => payment.createdAt >= from)) {
+      add(payment.route, BigInt(payment.amount), payment.tenant);
+    }
+    // Credits are spent on the top-level routes only
+    for (const { route, amount } of credits ? await credits.spentSince(payer, from) : []) {
+      add(route, BigInt(amount), null);
+    }
+    return spent;
+  }
+}
+
+function refuse(violation: PolicyViolation): Admission {
+  return { ok: false, violation };
+}
+
+function capExceeded(cap: bigint, used: bigint, scope: string): PolicyViolation {
+  return {
+    status: 429,
+    error: "daily_spend_cap_exceeded",
+    message: `Daily spend cap of ${atomicToUsd(cap.toString())} ${scope} reached (spent ${atomicToUsd(used.toString())} today)`,
+    retryAfterSeconds: secondsUntilUtcMidnight(),
+  };
+}
+
+function secondsUntilUtcMidnight(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
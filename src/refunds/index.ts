@@ -0,0 +1,22 @@
+import type { Hex } from "viem";
+import type { LedgerStore } from "../ledger";
+import { EvmRefundSender } from "./senders";
+import { RefundService } from "./service";
+
+export { EvmRefundSender, type RefundSender, type RefundTransfer } from "./senders";
+export { RefundError, RefundService, chainFamily, type ChainFamily, type RefundOptions } from "./service";
+
+/**
+ * Builds the refund service from the environment:
+ *   REFUND_EVM_PRIVATE_KEY = hot wallet that sends EVM refunds (none: refunds stay owed)
+ *   REFUND_EVM_RPC_URL     = RPC endpoint, default the chain's public RPC
+ *   REFUNDS_AUTO           = "true" to send refunds as soon as they are owed
+ * Solana refunds need a sender registered with `setSender("svm", ...)`.
+ */
+export function createRefundService(store: LedgerStore, env: NodeJS.ProcessEnv = process.env): RefundService {
+  const refunds = new RefundService(store, { auto: env.REFUNDS_AUTO === "true" });
+  if (env.REFUND_EVM_PRIVATE_KEY) {
+    refunds.setSender("evm", new EvmRefundSender(env.REFUND_EVM_PRIVATE_KEY as Hex, env.REFUND_EVM_RPC_URL || undefined));
+  }
+  return refunds;
+}
@@ -0,0 +1,70 @@
+import { createWalletClient, erc20Abi, http, publicActions, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { evm, type Network } from "x402/types";
+
+// ============================================
+// Refund senders
+// ============================================
+
+/** Funds to send back: `amount` atomic units of the `asset` token, to `to`. */
+export interface RefundTransfer {
+  network: Network;
+  asset: string;
+  to: string;
+  amount: string;
+}
+
+/**
+ * Sends refunds for one chain family, in two steps so the transaction hash
+ * can be recorded before waiting on it. `submit` broadcasts the transfer
+ * and resolves with its hash; it rejects only when nothing was broadcast.
+ * `confirm` waits for a broadcast transfer and resolves true once it
+ * succeeded or false if it reverted; it rejects when the outcome cannot be
+ * told yet (e.g. an RPC timeout).
+ */
+export interface RefundSender {
+  submit(transfer: RefundTransfer): Promise<string>;
+  confirm(network: Network, hash: string): Promise<boolean>;
+}
+
+/**
+ * Refunds ERC-20 payments (USDC) on EVM networks from a merchant hot
+ * wallet with viem. The wallet needs the token to refund and native gas.
+ * `rpcUrl` overrides the chain's default public RPC.
+ */
+export class EvmRefundSender implements RefundSender {
+  private readonly account;
+
+  constructor(
+    privateKey: Hex,
+    private readonly rpcUrl?: string
+  ) {
+    this.account = privateKeyToAccount(privateKey);
+  }
+
+  get address(): string {
+    return this.account.address;
+  }
+
+  submit({ network, asset, to, amount }: RefundTransfer): Promise<string> {
+    return this.client(network).writeContract({
+      address: asset as Hex,
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [to as Hex, BigInt(amount)],
+    });
+  }
+
+  async confirm(network: Network, hash: string): Promise<boolean> {
+    const receipt = await this.client(network).waitForTransactionReceipt({ hash: hash as Hex });
+    return receipt.status === "success";
+  }
+
+  private client(network: Network) {
+    return createWalletClient({
+      account: this.account,
+      chain: evm.getChainFromNetwork(network),
+      transport: http(this.rpcUrl),
+    }).extend(publicActions);
+  }
+}
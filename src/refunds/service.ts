@@ -0,0 +1,153 @@
+import { SupportedSVMNetworks, type Network } from "x402/types";
+import type { LedgerEntry, LedgerStore, PaymentRecord, RefundStatus } from "../ledger";
+import { log } from "../observability/logger";
+import { refunds as refundsMetric } from "../observability/metrics";
+import type { RefundSender } from "./senders";
+
+// ============================================
+// Refunds
+// ============================================
+
+export type ChainFamily = "evm" | "svm";
+
+export function chainFamily(network: Network): ChainFamily {
+  return SupportedSVMNetworks.includes(network) ? "svm" : "evm";
+}
+
+/** A refund cannot be sent for this payment; `status` is the HTTP status to answer with. */
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+export interface RefundOptions {
+  /** Send refunds as soon as they are owed, instead of waiting for an admin. */
+  auto: boolean;
+}
+
+/**
+ * Tracks refunds owed on settled payments whose handler failed, and sends
+ * them back to the payer with the sender registered for the payment's
+ * chain family. Refund state lives on the payment record in the ledger.
+ */
+export class RefundService {
+  private readonly senders = new Map<ChainFamily, RefundSender>();
+  private readonly inFlight = new Set<string>();
+
+  constructor(
+    private readonly store: LedgerStore,
+    private readonly options: RefundOptions
+  ) {}
+
+  /** Registers the sender for EVM or Solana refunds, replacing any previous one. */
+  setSender(family: ChainFamily, sender: RefundSender): void {
+    this.senders.set(family, sender);
+  }
+
+  canSend(network: Network): boolean {
+    return this.senders.has(chainFamily(network));
+  }
+
+  /** Whether refunds owed on `network` are sent right away, without an admin. */
+  sendsAutomatically(network: Network): boolean {
+    return this.options.auto && this.canSend(network);
+  }
+
+  /**
+   * Records that the payer of a settled payment is owed its amount back
+   * (or `amount` of it, in atomic units). With `auto`, the refund is sent
+   * in the background and "sending" is returned; otherwise it waits for an
+   * admin and "owed" is.
+   */
+  async owe(entry: LedgerEntry, route: string, network: Network, reason: string, amount?: string): Promise<RefundStatus> {
+    await entry.refundOwed(reason, amount);
+    refundsMetric.inc({ route, status: "owed" });
+    log.warn("refund owed", { paymentId: entry.id, reason, ...(amount && { amount }) });
+
+    if (!this.sendsAutomatically(network)) return "owed";
+    this.send(entry.id).catch((error) => log.error("automatic refund failed", { paymentId: entry.id, error }));
+    return "sending";
+  }
+
+  /**
+   * Sends an owed (or previously failed) refund to the payer and returns
+   * the updated payment record. A failed transfer is recorded on the
+   * payment, not thrown; RefundError is thrown when nothing can be sent.
+   *
+   * The transaction hash is recorded as soon as the transfer is broadcast.
+   * If its confirmation cannot be had, the refund stays "sending" with that
+   * hash, and sending it again checks that transaction instead of sending
+   * another: it becomes "refunded" once confirmed, and is only sent anew
+   * if it reverted.
+   */
+  async send(paymentId: string): Promise<PaymentRecord> {
+    const record = await this.store.get(paymentId);
+    if (!record) throw new RefundError(`Payment ${paymentId} not found`, 404);
+    const unconfirmed = record.refundStatus === "sending" && record.refundTxHash !== null;
+    if (record.refundStatus !== "owed" && record.refundStatus !== "failed" && !unconfirmed) {
+      throw new RefundError(`Payment ${paymentId} has no refund to send (refund status: ${record.refundStatus})`, 409);
+    }
+    if (!record.payer) throw new RefundError(`Payment ${paymentId} has no payer address to refund`, 409);
+    const sender = this.senders.get(chainFamily(record.network));
+    if (!sender) {
+      throw new RefundError(`No refund sender is configured for ${record.network}`, 409);
+    }
+    if (this.inFlight.has(paymentId)) throw new RefundError(`Refund for ${paymentId} is already being sent`, 409);
+
+    const amount = record.refundAmount ?? record.amount;
+    const fields = { paymentId, to: record.payer, amount };
+    const failed = async (message: string, error?: unknown) => {
+      await this.update(paymentId, { refundStatus: "failed", refundError: message });
+      refundsMetric.inc({ route: record.route, status: "failed" });
+      log.error("refund could not be sent", { ...fields, ...(error !== undefined && { error }) });
+    };
+
+    this.inFlight.add(paymentId);
+    let txHash = unconfirmed ? record.refundTxHash : null;
+    try {
+      // Broadcast by an earlier attempt: only a reverted transfer is sent again
+      if (txHash && !(await sender.confirm(record.network, txHash))) {
+        log.warn("earlier refund transaction reverted, sending again", { ...fields, transaction: txHash });
+        txHash = null;
+      }
+      if (!txHash) {
+        await this.update(paymentId, { refundStatus: "sending", refundError: null, refundTxHash: null });
+        try {
+          txHash = await sender.submit({ network: record.network, asset: record.asset, to: record.payer, amount });
+        } catch (error) {
+          await failed(errorMessage(error), error);
+          return (await this.store.get(paymentId))!;
+        }
+        await this.update(paymentId, { refundTxHash: txHash });
+        if (!(await sender.confirm(record.network, txHash))) {
+          await failed(`Refund transaction ${txHash} reverted`);
+          return (await this.store.get(paymentId))!;
+        }
+      }
+      await this.update(paymentId, { refundStatus: "refunded", refundError: null, refundedAt: new Date().toISOString() });
+      refundsMetric.inc({ route: record.route, status: "refunded" });
+      log.info("refund sent", { ...fields, transaction: txHash });
+    } catch (error) {
+      // The transfer may still go through, so it stays "sending" with its hash
+      await this.update(paymentId, { refundError: `could not confirm ${txHash}: ${errorMessage(error)}` });
+      log.error("refund sent but not confirmed", { ...fields, transaction: txHash, error });
+    } finally {
+      this.inFlight.delete(paymentId);
+    }
+    return (await this.store.get(paymentId))!;
+  }
+
+  private update(id: string, patch: Partial<Omit<PaymentRecord, "id">>): Promise<void> {
+    return this.store.update(id, { ...patch, updatedAt: new Date().toISOString() });
+  }
+}
+
+// viem errors carry a one-line summary next to their multi-line message
+function errorMessage(error: unknown): string {
+  return (error as { shortMessage?: string }).shortMessage ?? (error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,99 @@
+import { Network } from "x402/types";
+import { FacilitatorDefinition, Registry, facilitatorsFor } from "../config/registry";
+import { networkLabel } from "../config/networks";
+
+// ============================================
+// Console banners built from the registry
+// ============================================
+
+function location(facilitator: FacilitatorDefinition): string {
+  return facilitator.url ?? `${facilitator.package} package`;
+}
+
+export function printStartupBanner(registry: Registry): void {
+  console.log("🚀 Starting x402 Multi-Facilitator Merchant Server...");
+  const { profile } = registry;
+  console.log(`\n🌐 Profile: ${profile.name} (${profile.production ? "real funds" : "test funds only"})`);
+  console.log(`\n📍 Facilitators:`);
+  for (const facilitator of registry.facilitators) {
+    const networks = facilitator.networks.map(networkLabel).join(", ");
+    console.log(`   ${facilitator.name} (${networks}): ${location(facilitator)}`);
+  }
+
+  const addresses = new Map<Network, Set<string>>();
+  for (const facilitator of registry.facilitators) {
+    for (const [network, address] of Object.entries(facilitator.payTo) as [Network, string][]) {
+      if (!addresses.has(network)) addresses.set(network, new Set());
+      addresses.get(network)!.add(address);
+    }
+  }
+  console.log(`\n💰 Payment Addresses:`);
+  for (const [network, set] of addresses) {
+    console.log(`   ${networkLabel(network)}: ${[...set].join(", ")}`);
+  }
+
+  if (registry.tenants.length > 0) {
+    console.log(`\n🏢 Tenants:`);
+    for (const tenant of registry.tenants) {
+      const selectors = [
+        tenant.pathPrefix && `path ${tenant.pathPrefix}`,
+        tenant.subdomain && `subdomain ${tenant.subdomain}`,
+        tenant.apiKeys && `${tenant.apiKeys.length} API key${tenant.apiKeys.length > 1 ? "s" : ""}`,
+      ].filter(Boolean);
+      const splits = tenant.splits.map((split) => `${split.percent}% to ${split.tenant}`);
+      console.log(
+        `   ${tenant.name} (${tenant.id}): ${tenant.routes.length} routes via ${selectors.join(", ")}${splits.length > 0 ? `; splits ${splits.join(", ")}` : ""}`
+      );
+    }
+  }
+}
+
+export interface ListeningBannerOptions {
+  /** Whether the /admin API is mounted. */
+  admin?: boolean;
+}
+
+export function printListeningBanner(
+  registry: Registry,
+  port: number | string,
+  { admin = false }: ListeningBannerOptions = {}
+): void {
+  console.log(`\n✅ x402 Multi-Facilitator Merchant Server is running!`);
+  console.log(`📡 Server: http://localhost:${port}`);
+  console.log(`\n📋 Available endpoints:`);
+  console.log(`   Public:`);
+  console.log(`   - GET  /              - Server info`);
+  console.log(`   - GET  /health        - Health check (facilitator probes)`);
+  console.log(`   - GET  /health/live        - Liveness`);
+  console.log(`   - GET  /health/ready       - Readiness`);
+  console.log(`   - GET  /.well-known/x402   - x402 discovery document`);
+  console.log(`   - GET  /openapi.json       - OpenAPI 3.1 spec`);
+  console.log(`   - GET  /metrics            - Prometheus metrics`);
+  console.log(`   - GET  /credits/balance    - Prepaid credit balance (credit token)`);
+  console.log(`   - GET  /credits/remaining  - Calls left per paid route (credit token)`);
+  if (admin) {
+    console.log(`\n   Admin (bearer token):`);
+    console.log(`   - GET  /admin/payments            - Payment records (filters, pagination)`);
+    console.log(`   - GET  /admin/payments.csv        - Payment records as CSV`);
+    console.log(`   - GET  /admin/revenue             - Settled revenue by route/facilitator/network/day/tenant`);
+    console.log(`   - GET  /admin/facilitators/stats  - Success rates and latency percentiles`);
+    console.log(`   - GET  /admin/refunds             - Refunds owed, sent and failed`);
+    console.log(`   - *    /admin/webhooks            - Webhook endpoints, deliveries and replays`);
+  }
+  console.log(`\n   Paid:`);
+  for (const route of registry.routes) {
+    for (const option of route.accepts) {
+      const chain = facilitatorsFor(registry, option)
+        .map((f) => f.name)
+        .join(" → ");
+      console.log(
+        `   - ${route.method.padEnd(4)} ${route.path.padEnd(16)} - ${option.price.padEnd(6)} - ${route.description} (${chain}/${networkLabel(option.network)})`
+      );
+    }
+  }
+  console.log(`\n🔐 Facilitators:`);
+  const width = Math.max(...registry.facilitators.map((f) => f.name.length)) + 1;
+  for (const facilitator of registry.facilitators) {
+    console.log(`   - ${`${facilitator.name}:`.padEnd(width)} ${location(facilitator)}`);
+  }
+}
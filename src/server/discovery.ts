@@ -0,0 +1,221 @@
+import { toJsonSafe } from "x402/shared";
+import { PaymentRequirements, SupportedSVMNetworks } from "x402/types";
+import { PaidRouteDefinition, Registry, routeKey } from "../config/registry";
+import { TOP_UP_PATH } from "../credits";
+import { FacilitatorPool } from "../facilitators/failover";
+import { describePrice } from "../payments/pricing";
+import { buildPaymentRequirements } from "../payments/requirements";
+import { ROUTE_SCHEMAS, envelope, type JsonSchema } from "./schemas";
+
+// ============================================
+// Machine-readable discovery built from the registry
+// ============================================
+//   GET /.well-known/x402  - every paid resource with its accepts, in the
+//                            shape of an x402 bazaar discovery listing
+//   GET /openapi.json      - OpenAPI 3.1 with an `x-x402` extension per operation
+
+const x402Version = 1;
+
+/** A payment requirement plus the facilitators that verify and settle it. */
+export type DiscoveredAccept = PaymentRequirements & {
+  /** Primary facilitator id. */
+  facilitator: string;
+  /** Facilitator ids in failover order. */
+  facilitators: string[];
+  /** The price, or the pricing rule when it depends on the request. */
+  price: string;
+};
+
+/** What the described catalog supports besides x402 payments. */
+export interface DiscoveryOptions {
+  /** Credit tokens pay for its routes (top level only; tenant catalogs have no credits). */
+  credits: boolean;
+}
+
+/** The catalog's paid routes, without the top-up route when it sells no credits. */
+function discoverableRoutes(registry: Registry, { credits }: DiscoveryOptions): PaidRouteDefinition[] {
+  return credits ? registry.routes : registry.routes.filter((route) => route.path !== TOP_UP_PATH);
+}
+
+/**
+ * Same accepts list the route's 402 carries, priced at the base price. A
+ * Solana option is left out while none of its facilitators can provide a
+ * fee payer.
+ */
+async function discoverAccepts(
+  registry: Registry,
+  pool: FacilitatorPool,
+  route: PaidRouteDefinition,
+  origin: string
+): Promise<DiscoveredAccept[]> {
+  const accepts: DiscoveredAccept[] = [];
+  for (const option of route.accepts) {
+    let feePayer: string | undefined;
+    if (SupportedSVMNetworks.includes(option.network)) {
+      feePayer = await pool.firstFeePayer(option.facilitators, option.network);
+      if (!feePayer) continue;
+    }
+    const requirements = buildPaymentRequirements(registry, route, option, `${origin}${route.path}`, feePayer);
+    accepts.push({
+      ...(toJsonSafe(requirements) as PaymentRequirements),
+      facilitator: option.facilitators[0],
+      facilitators: option.facilitators,
+      price: describePrice(route, option),
+    });
+  }
+  return accepts;
+}
+
+/** Body of `GET /.well-known/x402`. */
+export async function wellKnownDocument(
+  registry: Registry,
+  pool: FacilitatorPool,
+  origin: string,
+  options: DiscoveryOptions = { credits: true }
+) {
+  const items = await Promise.all(
+    discoverableRoutes(registry, options).map(async (route) => ({
+      resource: `${origin}${route.path}`,
+      type: "http" as const,
+      x402Version,
+      accepts: await discoverAccepts(registry, pool, route, origin),
+      lastUpdated: new Date().toISOString(),
+      metadata: {
+        method: route.method,
+        description: route.description,
+        ...(route.pricing && { pricing: route.pricing }),
+        openapi: `${origin}/openapi.json`,
+      },
+    }))
+  );
+  return {
+    x402Version,
+    items,
+    pagination: { limit: items.length, offset: 0, total: items.length },
+  };
+}
+
+/** Body of `GET /openapi.json`. */
+export async function openApiDocument(
+  registry: Registry,
+  pool: FacilitatorPool,
+  origin: string,
+  options: DiscoveryOptions = { credits: true }
+) {
+  const paths: Record<string, Record<string, object>> = {};
+  for (const route of discoverableRoutes(registry, options)) {
+    const schema = ROUTE_SCHEMAS[routeKey(route)];
+    const accepts = await discoverAccepts(registry, pool, route, origin);
+
+    paths[route.path] ??= {};
+    paths[route.path][route.method.toLowerCase()] = {
+      operationId: operationId(route),
+      summary: schema?.summary ?? route.description,
+      description: route.description,
+      ...(schema?.query && {
+        parameters: Object.entries(schema.query).map(([name, param]) => ({ name, in: "query", schema: param })),
+      }),
+      ...(schema?.body && {
+        requestBody: { required: false, content: { "application/json": { schema: schema.body } } },
+      }),
+      // Credits pay for any paid route except the one that buys them
+      security: options.credits && route.path !== TOP_UP_PATH ? [{ x402: [] }, { credits: [] }] : [{ x402: [] }],
+      responses: {
+        "200": {
+          description: "Paid response",
+          headers: {
+            "X-PAYMENT-RESPONSE": {
+              description: "Base64-encoded JSON settlement result",
+              schema: { type: "string" },
+            },
+            ...(route.metering?.stream && {
+              Trailer: {
+                description: "X-PAYMENT-RESPONSE, sent as a trailer after the streamed usage",
+                schema: { type: "string" },
+              },
+            }),
+            ...(route.settlement === "deferred" && {
+              "X-PAYMENT-DEFERRED": {
+                description: "Id of a payment served before settling; it settles later in a batch",
+                schema: { type: "string" },
+              },
+            }),
+          },
+          content: { "application/json": { schema: envelope(schema?.data ?? { type: "object" }) } },
+        },
+        "402": {
+          description: "Payment required, or the payment was rejected",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/PaymentRequired" } } },
+        },
+      },
+      "x-x402": {
+        x402Version,
+        price: accepts[0]?.price ?? route.accepts[0].price,
+        ...(route.pricing && { pricing: route.pricing }),
+        accepts,
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "x402 Multi-Facilitator Merchant",
+      version: "1.0.0",
+      description: "Paid API endpoints settled over the x402 payment protocol",
+    },
+    servers: [{ url: origin }],
+    paths,
+    components: {
+      securitySchemes: {
+        x402: {
+          type: "apiKey",
+          in: "header",
+          name: "X-PAYMENT",
+          description: "Base64-encoded x402 payment payload matching one of the operation's `x-x402.accepts`",
+        },
+        ...(options.credits && {
+          credits: {
+            type: "http",
+            scheme: "bearer",
+            bearerFormat: "JWT",
+            description: "Credit token from POST /credits/topup",
+          },
+        }),
+      },
+      schemas: {
+        PaymentRequired: {
+          type: "object",
+          required: ["x402Version", "error", "accepts"],
+          properties: {
+            x402Version: { type: "integer", const: x402Version },
+            error: { type: "string" },
+            accepts: { type: "array", items: { $ref: "#/components/schemas/PaymentRequirements" } },
+          },
+        } satisfies JsonSchema,
+        PaymentRequirements: {
+          type: "object",
+          required: ["scheme", "network", "maxAmountRequired", "resource", "payTo", "asset", "maxTimeoutSeconds"],
+          properties: {
+            scheme: { type: "string", const: "exact" },
+            network: { type: "string" },
+            maxAmountRequired: { type: "string", description: "Amount in atomic units of `asset`" },
+            resource: { type: "string", format: "uri" },
+            description: { type: "string" },
+            mimeType: { type: "string" },
+            outputSchema: { type: "object" },
+            payTo: { type: "string" },
+            maxTimeoutSeconds: { type: "integer" },
+            asset: { type: "string" },
+            extra: { type: "object" },
+          },
+        } satisfies JsonSchema,
+      },
+    },
+  };
+}
+
+function operationId(route: PaidRouteDefinition): string {
+  const words = route.path.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return [route.method.toLowerCase(), ...words.map((w) => w[0].toUpperCase() + w.slice(1))].join("");
+}
@@ -0,0 +1,131 @@
+import { Registry, routeKey } from "../config/registry";
+import { facilitatorLocation } from "../facilitators/config";
+import type { HealthReport } from "../facilitators/health";
+import type { RevenueRow } from "../ledger";
+import { atomicToUsd, describePrice } from "../payments/pricing";
+
+// ============================================
+// Public JSON documents built from the registry
+// ============================================
+
+/**
+ * Revenue section of `/` and `/health` on a server with tenants: a tenant's
+ * own revenue on its requests, else the top-level revenue and every
+ * tenant's. `revenue` is the ledger's revenue grouped by tenant.
+ */
+export function tenancySection(registry: Registry, revenue: RevenueRow[], tenant?: string) {
+  const credited = (key: string) => {
+    const row = revenue.find((r) => r.key === key);
+    return { payments: row?.payments ?? 0, amount: row?.amount ?? "0", usd: atomicToUsd(row?.amount ?? "0") };
+  };
+  if (tenant) {
+    const definition = registry.tenants.find((t) => t.id === tenant)!;
+    return { tenant: { id: tenant, name: definition.name, revenue: credited(tenant) } };
+  }
+  return {
+    revenue: credited(""),
+    tenants: Object.fromEntries(
+      registry.tenants.map((t) => [
+        t.id,
+        {
+          name: t.name,
+          ...(t.pathPrefix && { pathPrefix: t.pathPrefix }),
+          ...(t.subdomain && { subdomain: t.subdomain }),
+          routes: t.routes.map(routeKey),
+          revenue: credited(t.id),
+        },
+      ])
+    ),
+  };
+}
+
+type TenancySection = ReturnType<typeof tenancySection>;
+
+/** Body of `GET /health`: configuration plus the latest probe results (and revenue, with tenants). */
+export function healthDocument(registry: Registry, report: HealthReport, tenancy?: TenancySection) {
+  return {
+    status: report.status,
+    timestamp: new Date().toISOString(),
+    checkedAt: report.checkedAt,
+    facilitators: Object.fromEntries(
+      registry.facilitators.map((facilitator) => [
+        facilitator.id,
+        {
+          name: facilitator.name,
+          ...facilitatorLocation(facilitator),
+          networks: facilitator.networks,
+          addresses: facilitator.payTo,
+          ...report.facilitators[facilitator.id],
+        },
+      ])
+    ),
+    routes: report.routes,
+    ...tenancy,
+  };
+}
+
+/** Body of `GET /health/ready`: overall status and the routes that are not fully served. */
+export function readinessDocument(report: HealthReport) {
+  return {
+    status: report.status,
+    checkedAt: report.checkedAt,
+    unavailableRoutes: Object.entries(report.routes)
+      .filter(([, route]) => route.status !== "ok")
+      .map(([key, route]) => ({ route: key, status: route.status })),
+  };
+}
+
+/** Body of `GET /` - describes the available paid services (and revenue, with tenants). */
+export function infoDocument(registry: Registry, tenancy?: TenancySection) {
+  // Each payment option is listed under its primary facilitator, so a
+  // multi-network route shows up once per facilitator it can be paid through.
+  const paid: Record<string, Record<string, object>> = {};
+  for (const route of registry.routes) {
+    for (const option of route.accepts) {
+      const [primary, ...fallbacks] = option.facilitators;
+      paid[primary] ??= {};
+      paid[primary][routeKey(route)] = {
+        price: describePrice(route, option),
+        ...(route.pricing && { pricing: { basePrice: option.price, ...route.pricing } }),
+        network: option.network,
+        description: route.description,
+        ...(fallbacks.length > 0 && { fallbackFacilitators: fallbacks }),
+      };
+    }
+  }
+
+  return {
+    name: "x402 Multi-Facilitator Merchant Agent",
+    description: `A merchant server implementing x402 payment protocol with multiple facilitators (${registry.facilitators
+      .map((f) => f.name)
+      .join(" + ")})`,
+    facilitators: Object.fromEntries(
+      registry.facilitators.map((facilitator) => [
+        facilitator.id,
+        {
+          name: facilitator.name,
+          ...facilitatorLocation(facilitator),
+          networks: facilitator.networks,
+          paymentAddresses: facilitator.payTo,
+        },
+      ])
+    ),
+    endpoints: {
+      public: {
+        "GET /": "This info page",
+        "GET /health": "Health check with facilitator probe results",
+        "GET /health/live": "Liveness check",
+        "GET /health/ready": "Readiness check (503 while no paid route can be served)",
+        "GET /.well-known/x402": "x402 discovery document (every paid resource and its accepts)",
+        "GET /openapi.json": "OpenAPI 3.1 spec with x402 payment extensions",
+        "GET /metrics": "Prometheus metrics (challenges, facilitator calls, payments, revenue)",
+        "GET /credits/balance": "Prepaid credit balance (credit token)",
+        "GET /credits/remaining": "Calls left per paid route (credit token)",
+      },
+      paid,
+    },
+    protocol: "x402",
+    documentation: "https://docs.payai.network",
+    ...tenancy,
+  };
+}
@@ -0,0 +1,139 @@
+// ============================================
+// Request/response schemas of the built-in paid handlers
+// ============================================
+// JSON Schema (draft 2020-12, as used by OpenAPI 3.1) for the demo handlers
+// in index.ts, keyed by route. Used by the OpenAPI document and the
+// `outputSchema` of discovery entries. Routes added through the registry
+// without an entry here are described with a generic JSON response.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteSchema {
+  summary: string;
+  query?: Record<string, JsonSchema>;
+  body?: JsonSchema;
+  /** Schema of `data` in the `{ success, data, message }` envelope. */
+  data: JsonSchema;
+}
+
+const string = { type: "string" };
+const number = { type: "number" };
+const integer = { type: "integer" };
+const timestamp = { type: "string", format: "date-time" };
+const object = (properties: Record<string, JsonSchema>, required?: string[]): JsonSchema => ({
+  type: "object",
+  properties,
+  ...(required && { required }),
+});
+
+export const ROUTE_SCHEMAS: Record<string, RouteSchema> = {
+  "GET /api/weather": {
+    summary: "Current weather and a three-day forecast",
+    data: object({
+      location: string,
+      temperature: number,
+      temperatureUnit: string,
+      conditions: string,
+      humidity: number,
+      windSpeed: number,
+      windUnit: string,
+      forecast: {
+        type: "array",
+        items: object({ day: string, high: number, low: number, conditions: string }),
+      },
+      timestamp,
+    }),
+  },
+  "POST /api/compute": {
+    summary: "Run a computation, billed per compute unit",
+    body: object({
+      operation: { type: "string", description: "Operation to run", default: "default_compute" },
+      input: { description: "Operation input" },
+      parameters: { type: "object", description: "Operation parameters" },
+      computeUnits: { type: "integer", minimum: 1, default: 1, description: "Compute units to buy" },
+    }),
+    data: object({
+      operationId: string,
+      operation: string,
+      input: {},
+      parameters: { type: "object" },
+      result: object({
+        status: string,
+        output: object({ computed: { type: "boolean" }, value: number, precision: integer }),
+        metrics: object({ cpuTime: string, memoryUsed: string, gpuUtilization: string }),
+      }),
+      billingInfo: object({ computeUnits: integer, pricePerUnit: string }),
+      completedAt: timestamp,
+    }),
+  },
+  "POST /api/ai/image": {
+    summary: "Generate an image from a prompt",
+    body: object({
+      prompt: { type: "string", default: "A beautiful landscape" },
+      style: { type: "string", default: "realistic" },
+      size: { type: "string", enum: ["512x512", "1024x1024", "2048x2048"], default: "1024x1024" },
+    }),
+    data: object({
+      requestId: string,
+      prompt: string,
+      style: string,
+      size: string,
+      imageUrl: { type: "string", format: "uri" },
+      metadata: object({ model: string, steps: integer, guidance: number, seed: integer }),
+      generatedAt: timestamp,
+    }),
+  },
+  "POST /api/agent/task": {
+    summary: "Run an agent task",
+    body: object({
+      taskType: { type: "string", default: "general" },
+      instructions: { type: "string" },
+      context: { type: "object" },
+    }),
+    data: object({
+      taskId: string,
+      taskType: string,
+      instructions: string,
+      context: { type: "object" },
+      result: object({
+        status: string,
+        output: object({ response: string, actions: { type: "array", items: string }, confidence: number }),
+        metadata: object({ agentVersion: string, executionTime: string, tokensUsed: integer }),
+      }),
+      completedAt: timestamp,
+    }),
+  },
+  "GET /api/data": {
+    summary: "Crypto market intelligence",
+    data: object({
+      requestId: string,
+      category: string,
+      data: object({
+        cryptoMarket: { type: "object" },
+        defiMetrics: { type: "object" },
+        sentiment: { type: "object" },
+      }),
+      metadata: object({ source: string, freshness: string, confidence: number }),
+      generatedAt: timestamp,
+    }),
+  },
+  "POST /credits/topup": {
+    summary: "Buy prepaid credits and get a bearer token",
+    body: object({
+      amount: { type: "integer", minimum: 1, default: 1, description: "Dollars to add" },
+    }),
+    data: object({
+      account: string,
+      credited: object({ amount: string, usd: string }),
+      token: string,
+      tokenType: { const: "Bearer" },
+      expiresAt: timestamp,
+      usage: string,
+    }),
+  },
+};
+
+/** The `{ success, data, message }` envelope every handler responds with. */
+export function envelope(data: JsonSchema): JsonSchema {
+  return object({ success: { type: "boolean" }, data, message: string }, ["success", "data"]);
+}
@@ -0,0 +1,46 @@
+import type { Registry } from "../config/registry";
+import type { FacilitatorPool } from "../facilitators/failover";
+import type { PaymentLedger } from "../ledger";
+import { MemorySettlementStore } from "./memory";
+import { DeferredSettler } from "./settler";
+import { SqliteSettlementStore } from "./sqlite";
+import type { SettlementStore } from "./types";
+
+export * from "./types";
+export { DeferredSettler, type Deferral, type FlushResult, type NewDeferredPayment } from "./settler";
+export { MemorySettlementStore } from "./memory";
+export { SqliteSettlementStore } from "./sqlite";
+
+/** Header naming the ledger id of a payment that was served and queued for settlement. */
+export const DEFERRED_HEADER = "X-PAYMENT-DEFERRED";
+
+/**
+ * Picks the deferred settlement queue backend from the environment:
+ *   SETTLEMENT_STORE = sqlite (default) | memory
+ *   SETTLEMENT_PATH  = SQLite file, default ./data/settlement.db
+ */
+export function createSettlementStore(env: NodeJS.ProcessEnv = process.env): SettlementStore {
+  const kind = env.SETTLEMENT_STORE || "sqlite";
+  if (kind === "memory") {
+    return new MemorySettlementStore();
+  }
+  if (kind === "sqlite") {
+    return new SqliteSettlementStore(env.SETTLEMENT_PATH || "./data/settlement.db");
+  }
+  throw new Error(`Unknown SETTLEMENT_STORE "${kind}" (expected "sqlite" or "memory")`);
+}
+
+/**
+ * Builds the settler with the registry's `deferredSettlement` settings, or
+ * undefined when no route (top-level or tenant) defers settlement.
+ */
+export function createDeferredSettler(
+  registry: Registry,
+  pool: FacilitatorPool,
+  ledger: PaymentLedger,
+  env: NodeJS.ProcessEnv = process.env
+): DeferredSettler | undefined {
+  const routes = [...registry.routes, ...registry.tenants.flatMap((tenant) => tenant.routes)];
+  if (!routes.some((route) => route.settlement === "deferred")) return undefined;
+  return new DeferredSettler(createSettlementStore(env), pool, ledger, registry.deferredSettlement);
+}
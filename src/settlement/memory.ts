@@ -0,0 +1,59 @@
+import type { DeferredFilter, DeferredPayment, SettlementStore } from "./types";
+
+/** Keeps the deferred settlement queue in memory. Meant for tests and throwaway runs. */
+export class MemorySettlementStore implements SettlementStore {
+  private readonly payments = new Map<string, DeferredPayment>();
+
+  async insert(payment: DeferredPayment): Promise<void> {
+    this.payments.set(payment.id, { ...payment, facilitators: [...payment.facilitators] });
+  }
+
+  async update(id: string, patch: Partial<Omit<DeferredPayment, "id">>): Promise<void> {
+    const payment = this.payments.get(id);
+    if (!payment) throw new Error(`Unknown deferred payment: ${id}`);
+    this.payments.set(id, { ...payment, ...patch });
+  }
+
+  async get(id: string): Promise<DeferredPayment | undefined> {
+    const payment = this.payments.get(id);
+    return payment && { ...payment };
+  }
+
+  async list(filter: DeferredFilter = {}): Promise<DeferredPayment[]> {
+    const matches = this.filtered(filter).reverse();
+    const offset = filter.offset ?? 0;
+    const end = filter.limit === undefined ? undefined : offset + filter.limit;
+    return matches.slice(offset, end).map((p) => ({ ...p }));
+  }
+
+  async count(filter: DeferredFilter = {}): Promise<number> {
+    return this.filtered(filter).length;
+  }
+
+  async due(now: string, settleBy: string, limit: number): Promise<DeferredPayment[]> {
+    return [...this.payments.values()]
+      .filter(
+        (p) => p.status === "queued" && ((p.nextAttemptAt !== null && p.nextAttemptAt <= now) || p.validBefore <= settleBy)
+      )
+      .sort((a, b) => a.validBefore.localeCompare(b.validBefore))
+      .slice(0, limit)
+      .map((p) => ({ ...p }));
+  }
+
+  async exposure(payer: string): Promise<string> {
+    return this.filtered({ status: "queued", payer })
+      .reduce((sum, p) => sum + BigInt(p.amount), 0n)
+      .toString();
+  }
+
+  async close(): Promise<void> {}
+
+  private filtered(filter: DeferredFilter): DeferredPayment[] {
+    return [...this.payments.values()].filter(
+      (p) =>
+        (!filter.status || p.status === filter.status) &&
+        (!filter.payer || p.payer === filter.payer) &&
+        (!filter.route || p.route === filter.route)
+    );
+  }
+}
@@ -0,0 +1,289 @@
+import { exact } from "x402/schemes";
+import type { PaymentRequirements } from "x402/types";
+import type { DeferredSettlementSettings } from "../config/registry";
+import { SettlementOutcomeUnknownError, type FacilitatorPool } from "../facilitators/failover";
+import type { PaymentLedger } from "../ledger";
+import { log } from "../observability/logger";
+import { deferredQueued, deferredSettlements, paymentsCompleted, revenue } from "../observability/metrics";
+import { atomicToUsd, usdToAtomic } from "../payments/pricing";
+import type { DeferredPayment, SettlementStore } from "./types";
+
+// ============================================
+// Deferred settlement
+// ============================================
+
+export type NewDeferredPayment = Pick<
+  DeferredPayment,
+  | "id"
+  | "tenant"
+  | "route"
+  | "payer"
+  | "network"
+  | "amount"
+  | "asset"
+  | "payment"
+  | "requirements"
+  | "facilitators"
+  | "validBefore"
+>;
+
+/** Whether a payment may be deferred; `release` frees its hold on the payer's exposure once queued or dropped. */
+export type Deferral = { ok: true; release: () => void } | { ok: false; reason: string };
+
+/** What one flush did with the payments it picked up. */
+export interface FlushResult {
+  settled: number;
+  retrying: number;
+  failed: number;
+  expired: number;
+  /** Settles that reached a facilitator without an answer; not retried. */
+  unknown: number;
+}
+
+type Outcome = keyof FlushResult;
+
+/**
+ * Settles payments that were served before settling. Verified payments are
+ * queued in the store and settled in batches: as soon as `batchSize` are
+ * waiting, every `intervalSeconds`, and ahead of each authorization's
+ * expiry. Failed attempts are retried with exponential backoff until
+ * `maxAttempts`; a payment that runs out of attempts, or whose
+ * authorization expires first, is marked failed in the ledger (the
+ * resource was already served, so that revenue is lost). A settle whose
+ * outcome is unknown (the facilitator got it but did not answer) may have
+ * moved the funds, so it is not retried: it is marked "unknown" for
+ * reconciliation and its nonce stays used.
+ */
+export class DeferredSettler {
+  private timer?: NodeJS.Timeout;
+  private flushing?: Promise<FlushResult>;
+  private readonly inFlight = new Set<string>();
+  // Exposure held by requests whose payment is not queued yet
+  private readonly reserved = new Map<string, bigint>();
+  private readonly maxExposure: bigint;
+
+  constructor(
+    public readonly store: SettlementStore,
+    private readonly pool: FacilitatorPool,
+    private readonly ledger: PaymentLedger,
+    private readonly settings: DeferredSettlementSettings
+  ) {
+    this.maxExposure = BigInt(usdToAtomic(settings.maxUnsettledPerPayer));
+  }
+
+  /** Starts the schedule, settling first whatever was left queued by a previous run. */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.flush(), this.settings.intervalSeconds * 1000);
+    this.timer.unref();
+    void this.flush();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Checks that a payment can wait for a batch: its authorization must stay
+   * valid for a full interval plus the expiry margin, and the payer's
+   * unsettled total must stay within `maxUnsettledPerPayer`. Otherwise the
+   * caller settles it right away.
+   */
+  async admit(payer: string, amount: string, validBefore: Date, now = new Date()): Promise<Deferral> {
+    const { intervalSeconds, expiryMarginSeconds } = this.settings;
+    if (validBefore.getTime() - now.getTime() < (intervalSeconds + expiryMarginSeconds) * 1000) {
+      return { ok: false, reason: "authorization expires too soon to wait for a batch" };
+    }
+
+    const address = payer.toLowerCase();
+    const charge = BigInt(amount);
+    const held = this.reserved.get(address) ?? 0n;
+    const exposure = BigInt(await this.store.exposure(address)) + held;
+    if (exposure + charge > this.maxExposure) {
+      return {
+        ok: false,
+        reason: `payer has ${atomicToUsd(exposure.toString())} unsettled (limit ${this.settings.maxUnsettledPerPayer})`,
+      };
+    }
+
+    this.reserved.set(address, held + charge);
+    let released = false;
+    return {
+      ok: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        const left = (this.reserved.get(address) ?? 0n) - charge;
+        if (left > 0n) this.reserved.set(address, left);
+        else this.reserved.delete(address);
+      },
+    };
+  }
+
+  /** Queues a verified payment; a full batch is flushed right away. */
+  async enqueue(payment: NewDeferredPayment): Promise<DeferredPayment> {
+    const now = new Date().toISOString();
+    const queued: DeferredPayment = {
+      ...payment,
+      payer: payment.payer.toLowerCase(),
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+      facilitator: null,
+      transaction: null,
+      createdAt: now,
+      settledAt: null,
+    };
+    await this.store.insert(queued);
+    deferredSettlements.inc({ route: queued.route, outcome: "queued" });
+    log.info("payment deferred", { paymentId: queued.id, payer: queued.payer, amount: queued.amount });
+
+    const waiting = await this.store.count({ status: "queued" });
+    deferredQueued.set(waiting);
+    if (waiting >= this.settings.batchSize) void this.flush();
+    return queued;
+  }
+
+  /**
+   * Settles every queued payment that is due, a batch at a time. Only one
+   * flush runs at once; calling it meanwhile returns the running one.
+   * `now` is for tests.
+   */
+  flush(now?: Date): Promise<FlushResult> {
+    this.flushing ??= this.run(now).finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  private async run(now?: Date): Promise<FlushResult> {
+    const result: FlushResult = { settled: 0, retrying: 0, failed: 0, expired: 0, unknown: 0 };
+    const { batchSize, expiryMarginSeconds } = this.settings;
+    const seen = new Set<string>();
+    try {
+      for (;;) {
+        const at = now ?? new Date();
+        const settleBy = new Date(at.getTime() + expiryMarginSeconds * 1000).toISOString();
+        // Payments still queued after an attempt in this flush stay due if close to expiry; skip them
+        const batch = (await this.store.due(at.toISOString(), settleBy, batchSize + seen.size))
+          .filter((payment) => !seen.has(payment.id))
+          .slice(0, batchSize);
+        if (batch.length === 0) break;
+        batch.forEach((payment) => seen.add(payment.id));
+
+        for (const outcome of await Promise.all(batch.map((payment) => this.settle(payment, at)))) {
+          if (outcome) result[outcome]++;
+        }
+      }
+      deferredQueued.set(await this.store.count({ status: "queued" }));
+    } catch (error) {
+      log.error("deferred settlement pass failed", { error });
+    }
+    if (seen.size > 0) log.info("deferred settlement batch done", { ...result });
+    return result;
+  }
+
+  private async settle(payment: DeferredPayment, now: Date): Promise<Outcome | undefined> {
+    if (this.inFlight.has(payment.id)) return undefined;
+    this.inFlight.add(payment.id);
+    const fields = { paymentId: payment.id, route: payment.route, payer: payment.payer, validBefore: payment.validBefore };
+    const entry = this.ledger.resume(payment.id);
+    try {
+      const validBefore = Date.parse(payment.validBefore);
+      if (validBefore <= now.getTime()) {
+        await this.store.update(payment.id, {
+          status: "expired",
+          nextAttemptAt: null,
+          lastError: payment.lastError ?? "authorization expired before settlement",
+        });
+        await entry.failed("authorization expired before deferred settlement");
+        paymentsCompleted.inc({ route: payment.route, facilitator: "", network: payment.network, status: "failed" });
+        deferredSettlements.inc({ route: payment.route, outcome: "expired" });
+        log.error("deferred payment expired unsettled", { ...fields, amount: payment.amount, lastError: payment.lastError });
+        return "expired";
+      }
+      if (validBefore - this.settings.expiryMarginSeconds * 1000 <= now.getTime()) {
+        log.warn("deferred payment close to expiry", { ...fields, attempts: payment.attempts });
+      }
+
+      const attempts = payment.attempts + 1;
+      let error: string;
+      let facilitator: string | null = null;
+      try {
+        const decoded = exact.evm.decodePayment(payment.payment);
+        decoded.x402Version = 1;
+        const requirements = JSON.parse(payment.requirements) as PaymentRequirements;
+        const { result, facilitatorId } = await this.pool.settle(payment.facilitators, decoded, requirements);
+        facilitator = facilitatorId;
+        if (result.success) {
+          await this.store.update(payment.id, {
+            status: "settled",
+            attempts,
+            nextAttemptAt: null,
+            lastError: null,
+            facilitator: facilitatorId,
+            transaction: result.transaction,
+            settledAt: new Date().toISOString(),
+          });
+          await entry.settled(facilitatorId, result.transaction);
+          const outcome = { route: payment.route, facilitator: facilitatorId, network: payment.network };
+          paymentsCompleted.inc({ ...outcome, status: "settled" });
+          revenue.inc({ ...outcome, asset: payment.asset }, Number(payment.amount));
+          deferredSettlements.inc({ route: payment.route, outcome: "settled" });
+          log.info("deferred payment settled", {
+            ...fields,
+            facilitator: facilitatorId,
+            transaction: result.transaction,
+            attempts,
+          });
+          return "settled";
+        }
+        error = `settle failed: ${result.errorReason}`;
+      } catch (err) {
+        if (err instanceof SettlementOutcomeUnknownError) {
+          await this.store.update(payment.id, {
+            status: "unknown",
+            attempts,
+            nextAttemptAt: null,
+            lastError: err.message,
+            facilitator: err.facilitatorId,
+          });
+          // Left verified in the ledger, so its nonce stays used
+          await entry.settleUnknown(err.message, err.facilitatorId);
+          paymentsCompleted.inc({ route: payment.route, facilitator: err.facilitatorId, network: payment.network, status: "unknown" });
+          deferredSettlements.inc({ route: payment.route, outcome: "unknown" });
+          log.error("deferred settlement outcome unknown", { ...fields, facilitator: err.facilitatorId, attempts, error: err });
+          return "unknown";
+        }
+        error = `settle error: ${err instanceof Error ? err.message : err}`;
+      }
+
+      const failed = attempts >= this.settings.maxAttempts;
+      const delay = this.settings.retryDelaySeconds * 1000 * 2 ** (attempts - 1);
+      await this.store.update(payment.id, {
+        status: failed ? "failed" : "queued",
+        attempts,
+        nextAttemptAt: failed ? null : new Date(now.getTime() + delay).toISOString(),
+        lastError: error,
+        facilitator,
+      });
+      if (failed) {
+        await entry.failed(error, facilitator ?? undefined);
+        paymentsCompleted.inc({ route: payment.route, facilitator: facilitator ?? "", network: payment.network, status: "failed" });
+        deferredSettlements.inc({ route: payment.route, outcome: "failed" });
+        log.error("deferred payment could not be settled", { ...fields, amount: payment.amount, attempts, error });
+        return "failed";
+      }
+      deferredSettlements.inc({ route: payment.route, outcome: "retry" });
+      log.warn("deferred settlement failed, will retry", { ...fields, attempts, error, retryInMs: delay });
+      return "retrying";
+    } catch (error) {
+      log.error("deferred settlement could not be recorded", { paymentId: payment.id, error });
+      return undefined;
+    } finally {
+      this.inFlight.delete(payment.id);
+    }
+  }
+}
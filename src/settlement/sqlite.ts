@@ -0,0 +1,165 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { DeferredFilter, DeferredPayment, SettlementStore } from "./types";
+
+// Applied in order; PRAGMA user_version records how many have run.
+const MIGRATIONS = [
+  `CREATE TABLE deferred_payments (
+     id               TEXT PRIMARY KEY,
+     tenant           TEXT,
+     route            TEXT NOT NULL,
+     payer            TEXT NOT NULL,
+     network          TEXT NOT NULL,
+     amount           TEXT NOT NULL,
+     asset            TEXT NOT NULL,
+     payment          TEXT NOT NULL,
+     requirements     TEXT NOT NULL,
+     facilitators     TEXT NOT NULL,
+     valid_before     TEXT NOT NULL,
+     status           TEXT NOT NULL,
+     attempts         INTEGER NOT NULL,
+     next_attempt_at  TEXT,
+     last_error       TEXT,
+     facilitator      TEXT,
+     transaction_hash TEXT,
+     created_at       TEXT NOT NULL,
+     settled_at       TEXT
+   );
+   CREATE INDEX deferred_payments_queue ON deferred_payments (status, valid_before);
+   CREATE INDEX deferred_payments_payer ON deferred_payments (payer, status);`,
+];
+
+const COLUMNS: Record<keyof DeferredPayment, string> = {
+  id: "id",
+  tenant: "tenant",
+  route: "route",
+  payer: "payer",
+  network: "network",
+  amount: "amount",
+  asset: "asset",
+  payment: "payment",
+  requirements: "requirements",
+  facilitators: "facilitators",
+  validBefore: "valid_before",
+  status: "status",
+  attempts: "attempts",
+  nextAttemptAt: "next_attempt_at",
+  lastError: "last_error",
+  facilitator: "facilitator",
+  transaction: "transaction_hash",
+  createdAt: "created_at",
+  settledAt: "settled_at",
+};
+
+type Row = Record<string, unknown>;
+
+/** Stores the deferred settlement queue in a local SQLite file (or `:memory:`). */
+export class SqliteSettlementStore implements SettlementStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  async insert(payment: DeferredPayment): Promise<void> {
+    const keys = Object.keys(COLUMNS) as (keyof DeferredPayment)[];
+    this.db
+      .prepare(
+        `INSERT INTO deferred_payments (${keys.map((k) => COLUMNS[k]).join(", ")})
+         VALUES (${keys.map((k) => `@${k}`).join(", ")})`
+      )
+      .run(toRow(payment));
+  }
+
+  async update(id: string, patch: Partial<Omit<DeferredPayment, "id">>): Promise<void> {
+    const keys = Object.keys(patch) as (keyof DeferredPayment)[];
+    if (keys.length === 0) return;
+    const result = this.db
+      .prepare(`UPDATE deferred_payments SET ${keys.map((k) => `${COLUMNS[k]} = @${k}`).join(", ")} WHERE id = @id`)
+      .run({ ...toRow(patch), id });
+    if (result.changes === 0) {
+      throw new Error(`Unknown deferred payment: ${id}`);
+    }
+  }
+
+  async get(id: string): Promise<DeferredPayment | undefined> {
+    const row = this.db.prepare("SELECT * FROM deferred_payments WHERE id = ?").get(id) as Row | undefined;
+    return row && fromRow(row);
+  }
+
+  async list(filter: DeferredFilter = {}): Promise<DeferredPayment[]> {
+    const { where, params } = whereClause(filter);
+    const rows = this.db
+      .prepare(`SELECT * FROM deferred_payments ${where} ORDER BY created_at DESC, rowid DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: filter.limit ?? -1, offset: filter.offset ?? 0 }) as Row[];
+    return rows.map(fromRow);
+  }
+
+  async count(filter: DeferredFilter = {}): Promise<number> {
+    const { where, params } = whereClause(filter);
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM deferred_payments ${where}`).get(params) as { n: number };
+    return row.n;
+  }
+
+  async due(now: string, settleBy: string, limit: number): Promise<DeferredPayment[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM deferred_payments
+         WHERE status = 'queued' AND (next_attempt_at <= @now OR valid_before <= @settleBy)
+         ORDER BY valid_before LIMIT @limit`
+      )
+      .all({ now, settleBy, limit }) as Row[];
+    return rows.map(fromRow);
+  }
+
+  async exposure(payer: string): Promise<string> {
+    // Amounts are kept as text (they can exceed 2^53), so they are summed here
+    const rows = this.db
+      .prepare("SELECT amount FROM deferred_payments WHERE payer = ? AND status = 'queued'")
+      .all(payer) as { amount: string }[];
+    return rows.reduce((sum, row) => sum + BigInt(row.amount), 0n).toString();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+function whereClause(filter: DeferredFilter): { where: string; params: Row } {
+  const conditions: string[] = [];
+  const params: Row = {};
+  for (const key of ["status", "payer", "route"] as const) {
+    if (filter[key]) {
+      conditions.push(`${COLUMNS[key]} = @${key}`);
+      params[key] = filter[key];
+    }
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+function toRow(payment: Partial<DeferredPayment>): Row {
+  return payment.facilitators ? { ...payment, facilitators: JSON.stringify(payment.facilitators) } : { ...payment };
+}
+
+function fromRow(row: Row): DeferredPayment {
+  const payment = Object.fromEntries(
+    (Object.entries(COLUMNS) as [keyof DeferredPayment, string][]).map(([key, column]) => [key, row[column]])
+  ) as unknown as DeferredPayment & { facilitators: string };
+  return { ...payment, facilitators: JSON.parse(payment.facilitators) as string[] };
+}
@@ -0,0 +1,76 @@
+import type { Network } from "x402/types";
+
+// ============================================
+// Deferred settlement types
+// ============================================
+
+/**
+ * queued  - verified and served, waiting for its batch (or a retry)
+ * settled - funds moved on-chain
+ * failed  - every attempt failed; the resource was served unpaid
+ * expired - the authorization ran out before it could be settled
+ * unknown - a settle reached the facilitator but got no answer; it may
+ *           have settled, so it is not retried and needs reconciling
+ */
+export type DeferredStatus = "queued" | "settled" | "failed" | "expired" | "unknown";
+
+/** A verified payment whose route was served before settling it. */
+export interface DeferredPayment {
+  /** Payment ledger id. */
+  id: string;
+  tenant: string | null;
+  route: string;
+  /** Lower-cased EVM address of the payer. */
+  payer: string;
+  network: Network;
+  /** Amount in atomic units of `asset`. */
+  amount: string;
+  asset: string;
+  /** The X-PAYMENT header as received, settled as-is. */
+  payment: string;
+  /** JSON of the payment requirements it was verified against. */
+  requirements: string;
+  /** Facilitators to settle with, in order (the one that verified first). */
+  facilitators: string[];
+  /** When the signed authorization stops being valid (ISO 8601). */
+  validBefore: string;
+  status: DeferredStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  /** Facilitator that settled. */
+  facilitator: string | null;
+  transaction: string | null;
+  createdAt: string;
+  settledAt: string | null;
+}
+
+export interface DeferredFilter {
+  status?: DeferredStatus;
+  payer?: string;
+  route?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage backend for the deferred settlement queue. Implementations:
+ * SQLite (default) and in-memory (tests). With the SQLite store, queued
+ * payments survive a restart and are settled when the server comes back.
+ */
+export interface SettlementStore {
+  insert(payment: DeferredPayment): Promise<void>;
+  update(id: string, patch: Partial<Omit<DeferredPayment, "id">>): Promise<void>;
+  get(id: string): Promise<DeferredPayment | undefined>;
+  /** Payments matching the filter, newest first. */
+  list(filter?: DeferredFilter): Promise<DeferredPayment[]>;
+  count(filter?: DeferredFilter): Promise<number>;
+  /**
+   * Queued payments to settle at `now`: their next attempt is due, or their
+   * authorization expires by `settleBy`. Soonest to expire first.
+   */
+  due(now: string, settleBy: string, limit: number): Promise<DeferredPayment[]>;
+  /** Sum of the payer's queued amounts, in atomic units. */
+  exposure(payer: string): Promise<string>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,121 @@
+import type { NextFunction, Request, Response } from "express";
+import { computeRoutePatterns, findMatchingRoute } from "x402/shared";
+import type { Network } from "x402/types";
+import {
+  PaidRouteDefinition,
+  Registry,
+  TenantDefinition,
+  routeKey,
+  tenantRegistry,
+} from "../config/registry";
+import type { RevenueShare } from "../ledger";
+
+// ============================================
+// Tenants
+// ============================================
+// In multi-tenant mode one server sells several catalogs. A request is
+// assigned to a tenant by its X-Api-Key header, its path prefix or its
+// subdomain (checked in that order); anything else is served from the
+// top-level routes as before.
+
+export class Tenant {
+  /** The registry as this tenant sees it (see `tenantRegistry`). */
+  readonly registry: Registry;
+  /** Whether a request is for one of the tenant's paid routes. */
+  readonly sells: (req: Request) => boolean;
+
+  constructor(
+    readonly definition: TenantDefinition,
+    private readonly root: Registry
+  ) {
+    this.registry = tenantRegistry(root, definition);
+    this.sells = routeMatcher(definition.routes);
+  }
+
+  get id(): string {
+    return this.definition.id;
+  }
+
+  /**
+   * How a payment of `amount` (atomic units) on `network` is credited when
+   * the tenant splits its revenue: each split's percentage to that tenant,
+   * the rest to this one. Empty when the tenant has no splits.
+   */
+  shares(network: Network, amount: string): Omit<RevenueShare, "paymentId">[] {
+    if (this.definition.splits.length === 0) return [];
+    const total = BigInt(amount);
+    let rest = total;
+    const shares: Omit<RevenueShare, "paymentId">[] = [];
+    for (const split of this.definition.splits) {
+      // Percentages are kept to two decimals (basis points); rounding goes to the owner
+      const share = (total * BigInt(Math.round(split.percent * 100))) / 10_000n;
+      rest -= share;
+      const recipient = this.root.tenants.find((tenant) => tenant.id === split.tenant)!;
+      shares.push({ tenant: recipient.id, address: recipient.payTo[network]!, amount: share.toString() });
+    }
+    shares.unshift({ tenant: this.id, address: this.definition.payTo[network]!, amount: rest.toString() });
+    return shares;
+  }
+}
+
+/** Tenant a request was assigned to by `tenantResolver`, if any. */
+export function tenantOf(res: Response): Tenant | undefined {
+  return res.locals.tenant;
+}
+
+/** Origin the request came in on, plus the tenant path prefix it used (if any). */
+export function publicOrigin(req: Request, res: Response): string {
+  return `${req.protocol}://${req.headers.host}${res.locals.tenantPrefix ?? ""}`;
+}
+
+/**
+ * Assigns each request to its tenant. A path prefix is stripped, so the
+ * tenant's routes are matched (and handled) like the top-level ones. An
+ * X-Api-Key that belongs to no tenant is refused with 401.
+ */
+export function tenantResolver(tenants: Tenant[]) {
+  const byKey = new Map(tenants.flatMap((tenant) => (tenant.definition.apiKeys ?? []).map((key) => [key, tenant])));
+  const bySubdomain = new Map(
+    tenants.filter((tenant) => tenant.definition.subdomain).map((tenant) => [tenant.definition.subdomain!, tenant])
+  );
+  const withPrefix = tenants.filter((tenant) => tenant.definition.pathPrefix);
+
+  return function resolveTenant(req: Request, res: Response, next: NextFunction) {
+    const apiKey = req.header("X-Api-Key");
+    if (apiKey !== undefined) {
+      const tenant = byKey.get(apiKey);
+      if (!tenant) {
+        res.status(401).json({ success: false, error: "Unknown API key", message: "X-Api-Key does not belong to any tenant" });
+        return;
+      }
+      res.locals.tenant = tenant;
+      return next();
+    }
+
+    for (const tenant of withPrefix) {
+      const prefix = tenant.definition.pathPrefix!;
+      if (req.path === prefix || req.path.startsWith(`${prefix}/`)) {
+        res.locals.tenant = tenant;
+        res.locals.tenantPrefix = prefix;
+        req.url = req.url.slice(prefix.length) || "/";
+        if (req.url.startsWith("?")) req.url = `/${req.url}`;
+        return next();
+      }
+    }
+
+    const [label, ...domain] = req.hostname.split(".");
+    if (domain.length > 0 && bySubdomain.has(label)) {
+      res.locals.tenant = bySubdomain.get(label);
+    }
+    next();
+  };
+}
+
+/** Matches requests against paid routes the way the payment middleware does. */
+export function routeMatcher(routes: PaidRouteDefinition[]) {
+  const patterns = routes.map((route) => {
+    const [first] = route.accepts;
+    return computeRoutePatterns({ [routeKey(route)]: { price: first.price, network: first.network } })[0];
+  });
+  return (req: Request): boolean => findMatchingRoute(patterns, req.path, req.method.toUpperCase()) !== undefined;
+}
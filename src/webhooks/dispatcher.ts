@@ -0,0 +1,241 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type { PaymentRecord, PaymentStatus, RevenueShare } from "../ledger";
+import { log } from "../observability/logger";
+import { webhookDeliveries } from "../observability/metrics";
+import { SIGNATURE_HEADER, signPayload } from "./signing";
+import type { WebhookDelivery, WebhookEndpoint, WebhookEvent, WebhookStore } from "./types";
+
+// ============================================
+// Webhook delivery
+// ============================================
+
+export interface WebhookDispatcherOptions {
+  /** Attempts before a delivery is dead-lettered. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further attempt. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt request timeout. */
+  timeoutMs: number;
+  /** How often due retries are looked up. */
+  pollIntervalMs: number;
+}
+
+export type NewEndpoint = Pick<WebhookEndpoint, "url" | "events" | "routes" | "description"> & {
+  secret?: string;
+};
+
+const EVENTS: Partial<Record<PaymentStatus, WebhookEvent>> = {
+  verified: "payment.verified",
+  settled: "payment.settled",
+  failed: "payment.failed",
+};
+
+/**
+ * Turns payment ledger changes into signed POSTs to every subscribed
+ * endpoint. Each delivery is stored before the first attempt; failed
+ * attempts (network error, timeout or non-2xx) are retried with
+ * exponential backoff until `maxAttempts`, after which the delivery is
+ * marked `dead` and only goes out again when replayed by hand.
+ */
+export class WebhookDispatcher {
+  private timer?: NodeJS.Timeout;
+  private readonly inFlight = new Set<string>();
+
+  constructor(
+    public readonly store: WebhookStore,
+    private readonly options: WebhookDispatcherOptions
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.retryDue(), this.options.pollIntervalMs);
+    this.timer.unref();
+    void this.retryDue();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async register(endpoint: NewEndpoint): Promise<WebhookEndpoint> {
+    const created: WebhookEndpoint = {
+      id: randomUUID(),
+      url: endpoint.url,
+      secret: endpoint.secret ?? `whsec_${randomBytes(24).toString("hex")}`,
+      events: endpoint.events,
+      routes: endpoint.routes,
+      description: endpoint.description,
+      createdAt: new Date().toISOString(),
+    };
+    await this.store.addEndpoint(created);
+    return created;
+  }
+
+  /**
+   * Queues the event for a payment's new status (if it has one) and sends
+   * it, with the revenue shares a tenant payment is split into.
+   */
+  async publish(record: PaymentRecord, shares: RevenueShare[] = []): Promise<void> {
+    const event = EVENTS[record.status];
+    if (!event) return;
+    try {
+      const endpoints = (await this.store.listEndpoints()).filter(
+        (e) =>
+          (e.events.length === 0 || e.events.includes(event)) &&
+          (e.routes.length === 0 || e.routes.includes(record.route))
+      );
+      if (endpoints.length === 0) return;
+
+      const payload = JSON.stringify({
+        id: randomUUID(),
+        type: event,
+        createdAt: new Date().toISOString(),
+        data: paymentData(record, shares),
+      });
+      for (const endpoint of endpoints) {
+        const now = new Date().toISOString();
+        const delivery: WebhookDelivery = {
+          id: randomUUID(),
+          endpointId: endpoint.id,
+          event,
+          paymentId: record.id,
+          payload,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: now,
+          lastAttemptAt: null,
+          lastStatus: null,
+          lastError: null,
+          createdAt: now,
+          deliveredAt: null,
+        };
+        await this.store.insertDelivery(delivery);
+        void this.attempt(delivery, endpoint);
+      }
+    } catch (error) {
+      log.error("could not queue webhook deliveries", { paymentId: record.id, event, error });
+    }
+  }
+
+  /**
+   * Sends a delivery again right away, whatever its status, with a fresh
+   * attempt budget. Returns the updated delivery, or undefined if unknown.
+   */
+  async replay(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = await this.store.getDelivery(id);
+    if (!delivery) return undefined;
+    const reset = { status: "pending" as const, attempts: 0, nextAttemptAt: new Date().toISOString() };
+    await this.store.updateDelivery(id, reset);
+    await this.attempt({ ...delivery, ...reset });
+    return this.store.getDelivery(id);
+  }
+
+  private async retryDue(): Promise<void> {
+    try {
+      const due = await this.store.dueDeliveries(new Date().toISOString(), 50);
+      await Promise.all(due.map((delivery) => this.attempt(delivery)));
+    } catch (error) {
+      log.error("webhook retry pass failed", { error });
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery, endpoint?: WebhookEndpoint): Promise<void> {
+    if (this.inFlight.has(delivery.id)) return;
+    this.inFlight.add(delivery.id);
+    try {
+      endpoint ??= await this.store.getEndpoint(delivery.endpointId);
+      if (!endpoint) return;
+
+      const attempts = delivery.attempts + 1;
+      const now = new Date();
+      let status: number | null = null;
+      let error: string | null = null;
+      try {
+        const res = await fetch(endpoint.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "x402-merchant-webhooks",
+            "X-Webhook-Id": delivery.id,
+            "X-Webhook-Event": delivery.event,
+            [SIGNATURE_HEADER]: signPayload(endpoint.secret, delivery.payload),
+          },
+          body: delivery.payload,
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        });
+        status = res.status;
+        await res.body?.cancel();
+        if (!res.ok) error = `HTTP ${res.status}`;
+      } catch (err: any) {
+        error =
+          err?.name === "TimeoutError"
+            ? `timed out after ${this.options.timeoutMs}ms`
+            : [err?.message ?? String(err), err?.cause?.code].filter(Boolean).join(": ");
+      }
+
+      const fields = {
+        deliveryId: delivery.id,
+        paymentId: delivery.paymentId,
+        event: delivery.event,
+        url: endpoint.url,
+        attempts,
+      };
+      if (!error) {
+        await this.store.updateDelivery(delivery.id, {
+          status: "delivered",
+          attempts,
+          nextAttemptAt: null,
+          lastAttemptAt: now.toISOString(),
+          lastStatus: status,
+          lastError: null,
+          deliveredAt: now.toISOString(),
+        });
+        webhookDeliveries.inc({ event: delivery.event, outcome: "delivered" });
+        log.info("webhook delivered", { ...fields, status });
+        return;
+      }
+
+      const dead = attempts >= this.options.maxAttempts;
+      const delay = Math.min(this.options.baseDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+      await this.store.updateDelivery(delivery.id, {
+        status: dead ? "dead" : "pending",
+        attempts,
+        nextAttemptAt: dead ? null : new Date(now.getTime() + delay).toISOString(),
+        lastAttemptAt: now.toISOString(),
+        lastStatus: status,
+        lastError: error,
+      });
+      webhookDeliveries.inc({ event: delivery.event, outcome: dead ? "dead" : "retry" });
+      if (dead) log.error("webhook dead-lettered", { ...fields, error });
+      else log.warn("webhook delivery failed, will retry", { ...fields, error, retryInMs: delay });
+    } catch (error) {
+      log.error("webhook delivery could not be recorded", { deliveryId: delivery.id, error });
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+}
+
+function paymentData(record: PaymentRecord, shares: RevenueShare[]) {
+  return {
+    paymentId: record.id,
+    status: record.status,
+    tenant: record.tenant,
+    route: record.route,
+    price: record.price,
+    amount: record.amount,
+    asset: record.asset,
+    network: record.network,
+    payTo: record.payTo,
+    facilitator: record.facilitator,
+    payer: record.payer,
+    txHash: record.txHash,
+    failureReason: record.failureReason,
+    createdAt: record.createdAt,
+    verifiedAt: record.verifiedAt,
+    settledAt: record.settledAt,
+    shares: shares.map(({ tenant, address, amount }) => ({ tenant, address, amount })),
+  };
+}
@@ -0,0 +1,43 @@
+import { WebhookDispatcher } from "./dispatcher";
+import { MemoryWebhookStore } from "./memory";
+import { SqliteWebhookStore } from "./sqlite";
+import type { WebhookStore } from "./types";
+
+export * from "./types";
+export { WebhookDispatcher, type NewEndpoint, type WebhookDispatcherOptions } from "./dispatcher";
+export { MemoryWebhookStore } from "./memory";
+export { SqliteWebhookStore } from "./sqlite";
+export { SIGNATURE_HEADER, signPayload, verifySignature } from "./signing";
+
+/**
+ * Picks the webhook backend from the environment:
+ *   WEBHOOKS_STORE = sqlite (default) | memory
+ *   WEBHOOKS_PATH  = SQLite file, default ./data/webhooks.db
+ */
+export function createWebhookStore(env: NodeJS.ProcessEnv = process.env): WebhookStore {
+  const kind = env.WEBHOOKS_STORE || "sqlite";
+  if (kind === "memory") {
+    return new MemoryWebhookStore();
+  }
+  if (kind === "sqlite") {
+    return new SqliteWebhookStore(env.WEBHOOKS_PATH || "./data/webhooks.db");
+  }
+  throw new Error(`Unknown WEBHOOKS_STORE "${kind}" (expected "sqlite" or "memory")`);
+}
+
+/**
+ * Builds the dispatcher with retry settings from the environment:
+ *   WEBHOOK_MAX_ATTEMPTS     = attempts before dead-lettering, default 8
+ *   WEBHOOK_RETRY_BASE_MS    = first retry delay, doubled per attempt, default 10s
+ *   WEBHOOK_RETRY_MAX_MS     = longest retry delay, default 1h
+ *   WEBHOOK_TIMEOUT_MS       = per-attempt timeout, default 10s
+ */
+export function createWebhookDispatcher(env: NodeJS.ProcessEnv = process.env): WebhookDispatcher {
+  return new WebhookDispatcher(createWebhookStore(env), {
+    maxAttempts: Number(env.WEBHOOK_MAX_ATTEMPTS || 8),
+    baseDelayMs: Number(env.WEBHOOK_RETRY_BASE_MS || 10_000),
+    maxDelayMs: Number(env.WEBHOOK_RETRY_MAX_MS || 60 * 60 * 1000),
+    timeoutMs: Number(env.WEBHOOK_TIMEOUT_MS || 10_000),
+    pollIntervalMs: 5_000,
+  });
+}
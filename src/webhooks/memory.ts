@@ -0,0 +1,73 @@
+import type { DeliveryFilter, WebhookDelivery, WebhookEndpoint, WebhookStore } from "./types";
+
+/** Keeps endpoints and deliveries in memory. Meant for tests and throwaway runs. */
+export class MemoryWebhookStore implements WebhookStore {
+  private readonly endpoints = new Map<string, WebhookEndpoint>();
+  private readonly deliveries = new Map<string, WebhookDelivery>();
+
+  async addEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.endpoints.set(endpoint.id, { ...endpoint });
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const endpoint = this.endpoints.get(id);
+    return endpoint && { ...endpoint };
+  }
+
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    return [...this.endpoints.values()].map((e) => ({ ...e }));
+  }
+
+  async removeEndpoint(id: string): Promise<boolean> {
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.endpointId === id) this.deliveries.delete(delivery.id);
+    }
+    return this.endpoints.delete(id);
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async updateDelivery(id: string, patch: Partial<Omit<WebhookDelivery, "id">>): Promise<void> {
+    const delivery = this.deliveries.get(id);
+    if (!delivery) throw new Error(`Unknown webhook delivery: ${id}`);
+    this.deliveries.set(id, { ...delivery, ...patch });
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    return delivery && { ...delivery };
+  }
+
+  async listDeliveries(filter: DeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const matches = this.filtered(filter).reverse();
+    const offset = filter.offset ?? 0;
+    const end = filter.limit === undefined ? undefined : offset + filter.limit;
+    return matches.slice(offset, end).map((d) => ({ ...d }));
+  }
+
+  async countDeliveries(filter: DeliveryFilter = {}): Promise<number> {
+    return this.filtered(filter).length;
+  }
+
+  async dueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter((d) => d.status === "pending" && d.nextAttemptAt !== null && d.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.localeCompare(b.nextAttemptAt!))
+      .slice(0, limit)
+      .map((d) => ({ ...d }));
+  }
+
+  async close(): Promise<void> {}
+
+  private filtered(filter: DeliveryFilter): WebhookDelivery[] {
+    return [...this.deliveries.values()].filter(
+      (d) =>
+        (!filter.endpointId || d.endpointId === filter.endpointId) &&
+        (!filter.status || d.status === filter.status) &&
+        (!filter.event || d.event === filter.event) &&
+        (!filter.paymentId || d.paymentId === filter.paymentId)
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import type { WebhookDispatcher } from "./dispatcher";
+import { WEBHOOK_EVENTS, type WebhookEndpoint } from "./types";
+
+// ============================================
+// Webhook admin endpoints
+// ============================================
+// Mounted under /admin/webhooks, behind the admin token:
+//   GET    /                          - registered endpoints (secrets hidden)
+//   POST   /                          - register an endpoint; the secret is only returned here
+//   DELETE /:id                       - remove an endpoint and its deliveries
+//   GET    /deliveries                - delivery log, filterable (status=dead lists the dead-letter store)
+//   POST   /deliveries/:id/replay     - send a delivery again
+
+const EndpointSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//.test(url), "must be an http(s) URL"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).default([]),
+  routes: z.array(z.string()).default([]),
+  description: z.string().max(200).nullable().default(null),
+  secret: z.string().min(16).optional(),
+});
+
+const DeliveriesQuerySchema = z.object({
+  endpointId: z.string().optional(),
+  status: z.enum(["pending", "delivered", "dead"]).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  paymentId: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export function createWebhookRouter(webhooks: WebhookDispatcher, routeKeys: string[]): Router {
+  const router = Router();
+  const { store } = webhooks;
+
+  router.get("/", async (_req: Request, res: Response) => {
+    res.json({ endpoints: (await store.listEndpoints()).map(withoutSecret) });
+  });
+
+  router.post("/", async (req: Request, res: Response) => {
+    const result = EndpointSchema.safeParse(req.body ?? {});
+    const unknownRoutes = result.success ? result.data.routes.filter((r) => !routeKeys.includes(r)) : [];
+    if (!result.success || unknownRoutes.length > 0) {
+      res.status(400).json({
+        error: "Invalid webhook endpoint",
+        issues: result.success
+          ? unknownRoutes.map((route) => `routes: unknown route "${route}" (expected one of: ${routeKeys.join(", ")})`)
+          : result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      });
+      return;
+    }
+    const endpoint = await webhooks.register(result.data);
+    res.status(201).json({ endpoint });
+  });
+
+  router.delete("/:id", async (req: Request, res: Response) => {
+    if (!(await store.removeEndpoint(req.params.id))) {
+      res.status(404).json({ error: "Not found", message: "No webhook endpoint with this id" });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.get("/deliveries", async (req: Request, res: Response) => {
+    const result = DeliveriesQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      res.status(400).json({
+        error: "Invalid query",
+        issues: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      });
+      return;
+    }
+    const { page, pageSize, ...filter } = result.data;
+    const [deliveries, total] = await Promise.all([
+      store.listDeliveries({ ...filter, limit: pageSize, offset: (page - 1) * pageSize }),
+      store.countDeliveries(filter),
+    ]);
+    res.json({ deliveries, page, pageSize, total, totalPages: Math.ceil(total / pageSize) });
+  });
+
+  router.post("/deliveries/:id/replay", async (req: Request, res: Response) => {
+    const delivery = await webhooks.replay(req.params.id);
+    if (!delivery) {
+      res.status(404).json({ error: "Not found", message: "No webhook delivery with this id" });
+      return;
+    }
+    res.json({ delivery });
+  });
+
+  return router;
+}
+
+function withoutSecret({ secret: _secret, ...endpoint }: WebhookEndpoint) {
+  return endpoint;
+}
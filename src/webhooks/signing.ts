@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// ============================================
+// Webhook signatures
+// ============================================
+// X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+// The timestamp is signed with the body, so a captured delivery cannot be
+// replayed outside the receiver's tolerance window.
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Checks a signature header against the raw request body, for receivers
+ * written in TypeScript. Rejects timestamps more than `toleranceSeconds`
+ * away from now.
+ */
+export function verifySignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = 300,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(header.split(",").map((part) => part.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split("v1=")[1]);
+  const presented = Buffer.from(signature);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
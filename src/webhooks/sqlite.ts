@@ -0,0 +1,197 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { DeliveryFilter, WebhookDelivery, WebhookEndpoint, WebhookEvent, WebhookStore } from "./types";
+
+// Applied in order; PRAGMA user_version records how many have run.
+const MIGRATIONS = [
+  `CREATE TABLE webhook_endpoints (
+     id           TEXT PRIMARY KEY,
+     url          TEXT NOT NULL,
+     secret       TEXT NOT NULL,
+     events       TEXT NOT NULL,
+     routes       TEXT NOT NULL,
+     description  TEXT,
+     created_at   TEXT NOT NULL
+   );
+   CREATE TABLE webhook_deliveries (
+     id               TEXT PRIMARY KEY,
+     endpoint_id      TEXT NOT NULL,
+     event            TEXT NOT NULL,
+     payment_id       TEXT NOT NULL,
+     payload          TEXT NOT NULL,
+     status           TEXT NOT NULL,
+     attempts         INTEGER NOT NULL,
+     next_attempt_at  TEXT,
+     last_attempt_at  TEXT,
+     last_status      INTEGER,
+     last_error       TEXT,
+     created_at       TEXT NOT NULL,
+     delivered_at     TEXT
+   );
+   CREATE INDEX webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+   CREATE INDEX webhook_deliveries_endpoint ON webhook_deliveries (endpoint_id, created_at);
+   CREATE INDEX webhook_deliveries_payment ON webhook_deliveries (payment_id);`,
+];
+
+const COLUMNS: Record<keyof WebhookDelivery, string> = {
+  id: "id",
+  endpointId: "endpoint_id",
+  event: "event",
+  paymentId: "payment_id",
+  payload: "payload",
+  status: "status",
+  attempts: "attempts",
+  nextAttemptAt: "next_attempt_at",
+  lastAttemptAt: "last_attempt_at",
+  lastStatus: "last_status",
+  lastError: "last_error",
+  createdAt: "created_at",
+  deliveredAt: "delivered_at",
+};
+
+type Row = Record<string, unknown>;
+
+/** Stores webhook endpoints and deliveries in a local SQLite file (or `:memory:`). */
+export class SqliteWebhookStore implements WebhookStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  async addEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO webhook_endpoints (id, url, secret, events, routes, description, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        endpoint.id,
+        endpoint.url,
+        endpoint.secret,
+        JSON.stringify(endpoint.events),
+        JSON.stringify(endpoint.routes),
+        endpoint.description,
+        endpoint.createdAt
+      );
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const row = this.db.prepare("SELECT * FROM webhook_endpoints WHERE id = ?").get(id) as Row | undefined;
+    return row && endpointFromRow(row);
+  }
+
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    const rows = this.db.prepare("SELECT * FROM webhook_endpoints ORDER BY created_at").all() as Row[];
+    return rows.map(endpointFromRow);
+  }
+
+  async removeEndpoint(id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      this.db.prepare("DELETE FROM webhook_deliveries WHERE endpoint_id = ?").run(id);
+      return this.db.prepare("DELETE FROM webhook_endpoints WHERE id = ?").run(id).changes > 0;
+    })();
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<void> {
+    const keys = Object.keys(COLUMNS) as (keyof WebhookDelivery)[];
+    this.db
+      .prepare(
+        `INSERT INTO webhook_deliveries (${keys.map((k) => COLUMNS[k]).join(", ")})
+         VALUES (${keys.map((k) => `@${k}`).join(", ")})`
+      )
+      .run(delivery);
+  }
+
+  async updateDelivery(id: string, patch: Partial<Omit<WebhookDelivery, "id">>): Promise<void> {
+    const keys = Object.keys(patch) as (keyof WebhookDelivery)[];
+    if (keys.length === 0) return;
+    const result = this.db
+      .prepare(`UPDATE webhook_deliveries SET ${keys.map((k) => `${COLUMNS[k]} = @${k}`).join(", ")} WHERE id = @id`)
+      .run({ ...patch, id });
+    if (result.changes === 0) {
+      throw new Error(`Unknown webhook delivery: ${id}`);
+    }
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const row = this.db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(id) as Row | undefined;
+    return row && deliveryFromRow(row);
+  }
+
+  async listDeliveries(filter: DeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const { where, params } = whereClause(filter);
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM webhook_deliveries ${where} ORDER BY created_at DESC, rowid DESC LIMIT @limit OFFSET @offset`
+      )
+      .all({ ...params, limit: filter.limit ?? -1, offset: filter.offset ?? 0 }) as Row[];
+    return rows.map(deliveryFromRow);
+  }
+
+  async countDeliveries(filter: DeliveryFilter = {}): Promise<number> {
+    const { where, params } = whereClause(filter);
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM webhook_deliveries ${where}`).get(params) as { n: number };
+    return row.n;
+  }
+
+  async dueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at LIMIT ?`
+      )
+      .all(now, limit) as Row[];
+    return rows.map(deliveryFromRow);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+function whereClause(filter: DeliveryFilter): { where: string; params: Row } {
+  const conditions: string[] = [];
+  const params: Row = {};
+  for (const key of ["endpointId", "status", "event", "paymentId"] as const) {
+    if (filter[key]) {
+      conditions.push(`${COLUMNS[key]} = @${key}`);
+      params[key] = filter[key];
+    }
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+function endpointFromRow(row: Row): WebhookEndpoint {
+  return {
+    id: row.id as string,
+    url: row.url as string,
+    secret: row.secret as string,
+    events: JSON.parse(row.events as string) as WebhookEvent[],
+    routes: JSON.parse(row.routes as string) as string[],
+    description: row.description as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function deliveryFromRow(row: Row): WebhookDelivery {
+  return Object.fromEntries(
+    (Object.entries(COLUMNS) as [keyof WebhookDelivery, string][]).map(([key, column]) => [key, row[column]])
+  ) as unknown as WebhookDelivery;
+}
@@ -0,0 +1,80 @@
+// ============================================
+// Webhook types
+// ============================================
+
+/** Payment events a webhook endpoint can subscribe to. */
+export const WEBHOOK_EVENTS = ["payment.verified", "payment.settled", "payment.failed"] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** A URL registered to receive payment events. */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  /** HMAC-SHA256 key for the X-Webhook-Signature header. */
+  secret: string;
+  /** Events to deliver; empty means all. */
+  events: WebhookEvent[];
+  /** Route keys to deliver events for (e.g. "POST /api/ai/image"); empty means all. */
+  routes: string[];
+  description: string | null;
+  createdAt: string;
+}
+
+/**
+ * pending   - waiting for its first or next attempt
+ * delivered - the endpoint answered 2xx
+ * dead      - gave up after the maximum attempts (dead-letter); can be replayed
+ */
+export type DeliveryStatus = "pending" | "delivered" | "dead";
+
+/** One event for one endpoint, with its delivery history. */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  /** Payment ledger id the event is about. */
+  paymentId: string;
+  /** JSON body, sent unchanged on every attempt. */
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  /** HTTP status of the last attempt, null if it never got a response. */
+  lastStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export interface DeliveryFilter {
+  endpointId?: string;
+  status?: DeliveryStatus;
+  event?: WebhookEvent;
+  paymentId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage backend for endpoints and deliveries. Implementations: SQLite
+ * (default) and in-memory (tests). Pending deliveries survive a restart
+ * with the SQLite store and are retried when the server comes back.
+ */
+export interface WebhookStore {
+  addEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  getEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  listEndpoints(): Promise<WebhookEndpoint[]>;
+  /** Removes an endpoint and its deliveries; false if it did not exist. */
+  removeEndpoint(id: string): Promise<boolean>;
+  insertDelivery(delivery: WebhookDelivery): Promise<void>;
+  updateDelivery(id: string, patch: Partial<Omit<WebhookDelivery, "id">>): Promise<void>;
+  getDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  /** Deliveries matching the filter, newest first. */
+  listDeliveries(filter?: DeliveryFilter): Promise<WebhookDelivery[]>;
+  countDeliveries(filter?: DeliveryFilter): Promise<number>;
+  /** Pending deliveries whose next attempt is due at `now`, oldest first. */
+  dueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseEvmAddress, parsePayTo, parseSolanaAddress } from "../src/config/addresses";
+import { RegistryError, loadRegistry } from "../src/config/registry";
+import { EVM_PAY_TO, SOLANA_PAY_TO } from "./helpers";
+
+describe("pay-to addresses", () => {
+  it("checksums EVM addresses and rejects bad checksums", () => {
+    assert.equal(parseEvmAddress(EVM_PAY_TO.toLowerCase()), EVM_PAY_TO);
+    assert.throws(() => parseEvmAddress(EVM_PAY_TO.replace("79C8", "79c8")), /invalid EIP-55 checksum/);
+    assert.throws(() => parseEvmAddress("0xYourEVMWalletAddressHere"), /is not an EVM address/);
+  });
+
+  it("accepts only 32-byte base58 Solana addresses", () => {
+    assert.equal(parseSolanaAddress(SOLANA_PAY_TO), SOLANA_PAY_TO);
+    assert.throws(() => parseSolanaAddress("YourSolanaWalletAddressHere"), /is not a Solana address/);
+    assert.throws(() => parseSolanaAddress(EVM_PAY_TO), /is not a Solana address/);
+  });
+
+  it("ties an address to its network's family", () => {
+    assert.equal(parsePayTo("base-sepolia", EVM_PAY_TO), EVM_PAY_TO);
+    assert.equal(parsePayTo("solana-devnet", SOLANA_PAY_TO), SOLANA_PAY_TO);
+    assert.throws(() => parsePayTo("base-sepolia", SOLANA_PAY_TO), /as base-sepolia needs an EVM address/);
+    assert.throws(() => parsePayTo("solana", EVM_PAY_TO), /as solana needs a Solana address/);
+  });
+
+  it("refuses to boot with an address of the wrong family", () => {
+    // EVM_ADDRESS and SOLANA_ADDRESS swapped
+    assert.throws(
+      () => loadRegistry({ EVM_ADDRESS: SOLANA_PAY_TO, SOLANA_ADDRESS: EVM_PAY_TO }),
+      (error: unknown) => {
+        assert.ok(error instanceof RegistryError);
+        assert.ok(
+          error.issues.includes(
+            `facilitators.0.payTo.base-sepolia: "${SOLANA_PAY_TO}" is not an EVM address (0x followed by 40 hex digits), as base-sepolia needs an EVM address`
+          ),
+          error.issues.join("\n")
+        );
+        assert.ok(error.issues.some((issue) => issue.startsWith("facilitators.1.payTo.solana-devnet:")));
+        return true;
+      }
+    );
+  });
+});
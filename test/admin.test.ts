@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { MemoryLedgerStore, SqliteLedgerStore } from "../src/ledger";
+import {
+  challenge,
+  createPayer,
+  paidRoute,
+  paymentHeader,
+  paymentRecord,
+  registryWith,
+  startMerchant,
+  type TestMerchant,
+} from "./helpers";
+
+const registry = registryWith({ routes: [paidRoute(), paidRoute({ path: "/api/data", price: "$0.005" })] });
+const admin = { Authorization: "Bearer admin-secret" };
+
+describe("admin API", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  async function pay(path: string) {
+    const { body } = await challenge(`${server.url}${path}`);
+    const payment = await paymentHeader(await createPayer(), body.accepts[0]);
+    return fetch(`${server.url}${path}`, { headers: { "X-PAYMENT": payment } });
+  }
+
+  it("is only mounted with ADMIN_TOKEN", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    assert.equal((await fetch(`${server.url}/admin/payments`, { headers: admin })).status, 404);
+  });
+
+  it("requires the admin bearer token", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry), ADMIN_TOKEN: "admin-secret" });
+
+    for (const headers of [{}, { Authorization: "Bearer admin-secreT" }, { Authorization: "Bearer admin" }]) {
+      const response = await fetch(`${server.url}/admin/revenue`, { headers });
+      assert.equal(response.status, 401);
+      assert.equal(response.headers.get("WWW-Authenticate"), 'Bearer realm="admin"');
+    }
+    assert.equal((await fetch(`${server.url}/admin/revenue`, { headers: admin })).status, 200);
+  });
+
+  it("reports settled revenue by route", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry), ADMIN_TOKEN: "admin-secret" });
+    for (const path of ["/api/weather", "/api/weather", "/api/data"]) {
+      assert.equal((await pay(path)).status, 200);
+    }
+    // Failed payments are not revenue
+    server.facilitator.setFailure("settle_failure");
+    assert.equal((await pay("/api/data")).status, 402);
+
+    const response = await fetch(`${server.url}/admin/revenue?groupBy=route`, { headers: admin });
+    const body = (await response.json()) as {
+      revenue: { key: string; payments: number; amount: string; usd: string }[];
+      total: { payments: number; amount: string; usd: string };
+    };
+    const byRoute = Object.fromEntries(body.revenue.map((row) => [row.key, row]));
+    assert.deepEqual(byRoute["GET /api/weather"], { key: "GET /api/weather", payments: 2, amount: "2000", usd: "$0.002000" });
+    assert.deepEqual(byRoute["GET /api/data"], { key: "GET /api/data", payments: 1, amount: "5000", usd: "$0.005000" });
+    assert.deepEqual(body.total, { payments: 3, amount: "7000", usd: "$0.007000" });
+  });
+
+  it("exports payments as CSV that spreadsheets do not run as formulas", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry), ADMIN_TOKEN: "admin-secret" });
+    await server.merchant.ledger.store.insert(
+      paymentRecord({ status: "failed", txHash: null, failureReason: '=HYPERLINK("http://evil.example", "x")' })
+    );
+
+    const response = await fetch(`${server.url}/admin/payments.csv`, { headers: admin });
+    assert.equal(response.headers.get("Content-Type"), "text/csv; charset=utf-8");
+    const [header, row] = (await response.text()).split("\n");
+    assert.ok(header.startsWith("id,createdAt,tenant,route,"));
+    assert.ok(row.includes(`"'=HYPERLINK(""http://evil.example"", ""x"")"`), row);
+  });
+
+  it("rejects an invalid query", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry), ADMIN_TOKEN: "admin-secret" });
+    const response = await fetch(`${server.url}/admin/revenue?groupBy=color`, { headers: admin });
+    assert.equal(response.status, 400);
+    assert.equal(((await response.json()) as { error: string }).error, "Invalid query");
+  });
+});
+
+describe("facilitator call stats", () => {
+  for (const [name, store] of [
+    ["memory", () => new MemoryLedgerStore()],
+    ["sqlite", () => new SqliteLedgerStore(":memory:")],
+  ] as const) {
+    it(`aggregates calls per facilitator and action in the store (${name})`, async () => {
+      const ledger = store();
+      for (let i = 1; i <= 10; i++) {
+        const outcome = i === 3 ? "rejected" : i >= 9 ? "error" : "success";
+        const error = outcome === "error" ? `timeout ${i}` : undefined;
+        const at = `2025-01-01T12:00:${String(i).padStart(2, "0")}.000Z`;
+        await ledger.recordCall({ facilitator: "payai", action: "verify", outcome, latencyMs: i * 10, at, error });
+      }
+      // A day later, outside the `to` bound below
+      const nextDay = "2025-01-02T00:00:00.000Z";
+      await ledger.recordCall({ facilitator: "payai", action: "settle", outcome: "success", latencyMs: 500, at: nextDay });
+
+      assert.deepEqual(await ledger.callStats({ to: nextDay }), [
+        {
+          facilitator: "payai",
+          action: "verify",
+          calls: 10,
+          succeeded: 7,
+          rejected: 1,
+          errors: 2,
+          p50: 50,
+          p90: 90,
+          p99: 100,
+          lastErrorAt: "2025-01-01T12:00:10.000Z",
+          lastError: "timeout 10",
+        },
+      ]);
+      assert.deepEqual(
+        (await ledger.callStats()).map(({ action, calls }) => ({ action, calls })),
+        [
+          { action: "settle", calls: 1 },
+          { action: "verify", calls: 10 },
+        ]
+      );
+      await ledger.close();
+    });
+  }
+});
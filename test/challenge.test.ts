@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { EVM_PAY_TO, SOLANA_PAY_TO, USDC_BASE_SEPOLIA, challenge, json, startMerchant, type TestMerchant } from "./helpers";
+
+const PAID_ROUTES = [
+  { method: "GET", path: "/api/weather", amount: "1000", description: "Get current weather data" },
+  { method: "POST", path: "/api/ai/image", amount: "20000", description: "AI image generation" },
+  { method: "POST", path: "/api/agent/task", amount: "10000", description: "Agent task execution" },
+  { method: "GET", path: "/api/data", amount: "5000", description: "Premium data service" },
+  { method: "POST", path: "/api/compute", amount: "50000", description: "Computational service" },
+];
+
+describe("402 challenge", () => {
+  let server: TestMerchant;
+  before(async () => {
+    server = await startMerchant();
+  });
+  after(() => server.close());
+
+  for (const route of PAID_ROUTES) {
+    it(`${route.method} ${route.path} asks for ${route.amount} on base-sepolia`, async () => {
+      const init = route.method === "POST" ? json({}) : {};
+      const { response, body } = await challenge(`${server.url}${route.path}`, init);
+
+      assert.equal(response.status, 402);
+      assert.equal(body.x402Version, 1);
+      assert.equal(body.error, "X-PAYMENT header is required");
+
+      const evm = body.accepts.find((option) => option.network === "base-sepolia");
+      assert.ok(evm, "has a base-sepolia option");
+      assert.equal(evm.scheme, "exact");
+      assert.equal(evm.maxAmountRequired, route.amount);
+      assert.equal(evm.payTo, EVM_PAY_TO);
+      assert.equal(evm.asset, USDC_BASE_SEPOLIA);
+      assert.equal(evm.resource, `${server.url}${route.path}`);
+      assert.equal(evm.description, route.description);
+      assert.equal(evm.mimeType, "application/json");
+      assert.deepEqual(evm.extra, { name: "USDC", version: "2" });
+      assert.ok(evm.maxTimeoutSeconds > 0);
+    });
+  }
+
+  it("offers Solana Devnet with the facilitator's fee payer on /api/compute", async () => {
+    const { body } = await challenge(`${server.url}/api/compute`, json({}));
+
+    assert.deepEqual(
+      body.accepts.map((option) => option.network),
+      ["solana-devnet", "base-sepolia"]
+    );
+    const solana = body.accepts[0];
+    assert.equal(solana.payTo, SOLANA_PAY_TO);
+    assert.equal(solana.maxAmountRequired, "50000");
+    assert.equal(typeof solana.extra?.feePayer, "string");
+  });
+
+  it("prices by the request: units on /api/compute, rules on /api/ai/image", async () => {
+    const compute = await challenge(`${server.url}/api/compute`, json({ computeUnits: 3 }));
+    assert.ok(compute.body.accepts.every((option) => option.maxAmountRequired === "150000"));
+
+    const image = await challenge(`${server.url}/api/ai/image`, json({ size: "2048x2048" }));
+    assert.equal(image.body.accepts[0].maxAmountRequired, "80000");
+  });
+
+  it("answers 400 for a request that cannot be priced", async () => {
+    const response = await fetch(`${server.url}/api/compute`, json({ computeUnits: "lots" }));
+    assert.equal(response.status, 400);
+    assert.equal(((await response.json()) as { error: string }).error, "invalid_pricing_input");
+  });
+});
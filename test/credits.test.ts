@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  SOLANA_PAY_TO,
+  TOP_UP_ROUTE,
+  challenge,
+  facilitator,
+  paidRoute,
+  registryWith,
+  startMerchant,
+  topUp,
+  type TestMerchant,
+} from "./helpers";
+
+// GET /api/missing is paid but has no handler, so it always answers 404
+const catalog = registryWith({
+  routes: [paidRoute(), paidRoute({ path: "/api/missing" }), paidRoute({ path: "/api/premium", price: "$0.02" }), TOP_UP_ROUTE],
+});
+
+// The weather route lists Solana first, through a facilitator that is down,
+// so its challenge only offers the cheaper base-sepolia option.
+const solanaFirst = registryWith({
+  facilitators: [
+    facilitator("payai"),
+    facilitator("down", { url: "http://127.0.0.1:1", payTo: { "solana-devnet": SOLANA_PAY_TO } }),
+  ],
+  routes: [
+    paidRoute({
+      accepts: [
+        { network: "solana-devnet", price: "$0.002", facilitator: "down" },
+        { network: "base-sepolia", price: "$0.001", facilitator: "payai" },
+      ],
+    }),
+    TOP_UP_ROUTE,
+  ],
+});
+
+describe("prepaid credits", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  /** The account's balance and the reasons of its balance changes, oldest first. */
+  async function balanceOf(token: string) {
+    const response = await fetch(`${server.url}/credits/balance`, { headers: { Authorization: `Bearer ${token}` } });
+    const body = (await response.json()) as { balance: { amount: string }; history: { reason: string }[] };
+    return { amount: body.balance.amount, reasons: body.history.map((entry) => entry.reason).reverse() };
+  }
+
+  it("credits a settled top-up and spends it instead of a payment", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(catalog) });
+    const token = await topUp(server);
+    assert.deepEqual(await balanceOf(token), { amount: "10000", reasons: ["top-up"] });
+
+    const spend = await fetch(`${server.url}/api/weather`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(spend.status, 200);
+    assert.equal(spend.headers.get("X-CREDIT-BALANCE"), "9000");
+    assert.equal(server.facilitator.settlements.length, 1, "only the top-up is settled");
+    assert.deepEqual(await balanceOf(token), { amount: "9000", reasons: ["top-up", "spend"] });
+  });
+
+  it("gives the credits back when the handler fails", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(catalog) });
+    const token = await topUp(server);
+
+    const spend = await fetch(`${server.url}/api/missing`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(spend.status, 404);
+    assert.equal(spend.headers.get("X-CREDIT-BALANCE"), "10000");
+    assert.deepEqual(await balanceOf(token), { amount: "10000", reasons: ["top-up", "spend", "refund"] });
+  });
+
+  it("refuses unknown tokens and balances that do not cover the price", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(catalog) });
+    const token = await topUp(server);
+
+    const unknown = await fetch(`${server.url}/api/weather`, { headers: { Authorization: "Bearer not-a-token" } });
+    assert.equal(unknown.status, 402);
+    assert.equal(((await unknown.json()) as { error: string }).error, "invalid_credit_token");
+
+    const premium = await fetch(`${server.url}/api/premium`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(premium.status, 402);
+    const body = (await premium.json()) as { error: string; balance: string; accepts: unknown[] };
+    assert.equal(body.error, "insufficient_credit");
+    assert.equal(body.balance, "10000");
+    assert.equal(body.accepts.length, 1);
+  });
+
+  it("charges a spend what /credits/remaining counts with", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(solanaFirst) });
+    const token = await topUp(server);
+    const auth = { headers: { Authorization: `Bearer ${token}` } };
+
+    const { body: offered } = await challenge(`${server.url}/api/weather`);
+    assert.deepEqual(
+      offered.accepts.map((requirements: { network: string }) => requirements.network),
+      ["base-sepolia"]
+    );
+
+    const remaining = (await (await fetch(`${server.url}/credits/remaining`, auth)).json()) as {
+      routes: Record<string, { remainingCalls: number }>;
+    };
+    assert.equal(remaining.routes["GET /api/weather"].remainingCalls, 5);
+
+    const spend = await fetch(`${server.url}/api/weather`, auth);
+    assert.equal(spend.status, 200);
+    assert.equal(spend.headers.get("X-CREDIT-BALANCE"), "8000");
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import axios, { type AxiosError } from "axios";
+import { withPaymentInterceptor, decodeXPaymentResponse } from "x402-axios";
+import { PaymentWallets, SpendingPolicy, SpendingPolicyError, withSpendingPolicy } from "../src/client";
+import { createPayer, startMerchant, type TestMerchant } from "./helpers";
+
+describe("end to end with x402-axios", () => {
+  let server: TestMerchant;
+  let payer: Awaited<ReturnType<typeof createPayer>>;
+  before(async () => {
+    server = await startMerchant();
+    payer = await createPayer();
+  });
+  after(() => server.close());
+
+  it("pays for GET /api/weather", async () => {
+    const http = withPaymentInterceptor(axios.create({ baseURL: server.url }), payer.signer);
+    const response = await http.get("/api/weather");
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data.success, true);
+    const settlement = decodeXPaymentResponse(response.headers["x-payment-response"]);
+    assert.equal(settlement.success, true);
+    assert.equal(settlement.payer, payer.address);
+  });
+
+  it("pays the request's price for POST /api/compute on base-sepolia", async () => {
+    const http = withPaymentInterceptor(axios.create({ baseURL: server.url }), payer.signer);
+    const response = await http.post("/api/compute", { operation: "sum", input: [1, 2, 3], computeUnits: 2 });
+
+    assert.equal(response.status, 200);
+    assert.equal(decodeXPaymentResponse(response.headers["x-payment-response"]).network, "base-sepolia");
+
+    const [record] = await server.merchant.ledger.store.list({ route: "POST /api/compute", status: "settled" });
+    assert.equal(record.amount, "100000");
+    assert.equal(record.payer, payer.address);
+  });
+
+  it("pays within a spending policy and refuses beyond it", async () => {
+    const policy = new SpendingPolicy({ sessionBudget: "$0.006" });
+    const wallets = new PaymentWallets().add(["base-sepolia"], payer.signer);
+    const http = withSpendingPolicy(axios.create({ baseURL: server.url }), wallets, policy);
+
+    assert.equal((await http.get("/api/data")).status, 200);
+    await assert.rejects(http.get("/api/data"), (error: AxiosError | SpendingPolicyError) => {
+      assert.ok(error instanceof SpendingPolicyError, String(error));
+      assert.equal(error.code, "session_budget_exceeded");
+      return true;
+    });
+    assert.deepEqual(
+      policy.log.list().map((spend) => spend.status),
+      ["settled", "refused"]
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { CircuitBreaker } from "../src/facilitators/failover";
+import {
+  challenge,
+  createPayer,
+  decodeHeader,
+  facilitator,
+  paidRoute,
+  paymentHeader,
+  registryWith,
+  startMerchant,
+  type TestMerchant,
+} from "./helpers";
+
+// Three facilitators: two on the mock, one that refuses connections
+const facilitators = [facilitator("payai"), facilitator("heurist"), facilitator("down", { url: "http://127.0.0.1:1" })];
+
+describe("facilitator failover", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  async function pay() {
+    const { body } = await challenge(`${server.url}/api/weather`);
+    const payment = await paymentHeader(await createPayer(), body.accepts[0]);
+    return fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": payment } });
+  }
+
+  it("moves on to the next facilitator when one refuses connections", async () => {
+    const registry = registryWith({ facilitators, routes: [paidRoute({ facilitators: ["down", "payai"] })] });
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    const response = await pay();
+
+    assert.equal(response.status, 200);
+    assert.equal(decodeHeader(response.headers.get("X-PAYMENT-RESPONSE")).facilitator, "payai");
+  });
+
+  it("does not settle with the next facilitator after a settle timeout", async () => {
+    const registry = registryWith({ facilitators, routes: [paidRoute({ facilitators: ["payai", "heurist"] })] });
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    server.facilitator.setFailure("settle_timeout");
+    const response = await pay();
+
+    assert.equal(response.status, 502);
+    const body = (await response.json()) as { error: string; paymentId: string; facilitator: string };
+    assert.equal(body.error, "settle_outcome_unknown");
+    assert.equal(body.facilitator, "payai");
+
+    const calls = await server.merchant.ledger.store.listCalls();
+    assert.deepEqual(
+      calls.filter((call) => call.action === "settle").map((call) => call.facilitator),
+      ["payai"]
+    );
+    const record = await server.merchant.ledger.store.get(body.paymentId);
+    assert.equal(record?.status, "verified");
+    assert.match(record?.failureReason ?? "", /^Settlement outcome unknown/);
+  });
+});
+
+describe("circuit breaker", () => {
+  it("lets a single trial call through once the cool-down is over", () => {
+    const breaker = new CircuitBreaker(2, 1_000);
+    breaker.recordFailure(0);
+    assert.equal(breaker.tryAcquire(0), true);
+    breaker.recordFailure(0);
+    assert.equal(breaker.tryAcquire(500), false);
+
+    assert.equal(breaker.tryAcquire(1_000), true);
+    assert.equal(breaker.tryAcquire(1_000), false, "a second call waits for the trial");
+    breaker.recordSuccess();
+    assert.equal(breaker.tryAcquire(1_000), true);
+    assert.equal(breaker.state(), "closed");
+  });
+});
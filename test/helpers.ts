@@ -0,0 +1,205 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import { createSigner, type PaymentRequirements } from "x402/types";
+import { createApp, type MerchantApp } from "../src/app";
+import { loadRegistry } from "../src/config/registry";
+import type { PaymentRecord } from "../src/ledger";
+import { createMockFacilitator, type MockFacilitator } from "../src/facilitators/mock";
+import { setLogLevel } from "../src/observability/logger";
+
+// ============================================
+// In-process merchant with stub facilitators
+// ============================================
+
+export const EVM_PAY_TO = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+export const SOLANA_PAY_TO = "So11111111111111111111111111111111111111112";
+export const USDC_BASE_SEPOLIA = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+setLogLevel("error");
+
+export interface TestMerchant {
+  /** Base URL of the merchant, e.g. http://127.0.0.1:54321 */
+  url: string;
+  merchant: MerchantApp;
+  /** The stub every facilitator points at. */
+  facilitator: MockFacilitator;
+  close(): Promise<void>;
+}
+
+/**
+ * Boots the merchant with the built-in registry, every facilitator pointed
+ * at one in-process mock facilitator, in-memory stores and ephemeral ports.
+ */
+export async function startMerchant(env: NodeJS.ProcessEnv = {}): Promise<TestMerchant> {
+  const facilitator = createMockFacilitator({ timeoutMs: 50 });
+  const facilitatorServer = await listen(facilitator.app);
+  const facilitatorUrl = urlOf(facilitatorServer);
+
+  const merchantEnv: NodeJS.ProcessEnv = {
+    PAYAI_FACILITATOR_URL: facilitatorUrl,
+    HEURIST_FACILITATOR_URL: facilitatorUrl,
+    DAYDREAMS_FACILITATOR_URL: facilitatorUrl,
+    DEXTER_FACILITATOR_URL: facilitatorUrl,
+    COINBASE_FACILITATOR_URL: facilitatorUrl,
+    EVM_ADDRESS: EVM_PAY_TO,
+    SOLANA_ADDRESS: SOLANA_PAY_TO,
+    LEDGER_STORE: "memory",
+    CREDITS_STORE: "memory",
+    WEBHOOKS_STORE: "memory",
+    SETTLEMENT_STORE: "memory",
+    CREDITS_SECRET: "test-credits-secret",
+    ...env,
+  };
+  const merchant = createApp(loadRegistry(merchantEnv), merchantEnv);
+  const merchantServer = await listen(merchant.app);
+
+  return {
+    url: urlOf(merchantServer),
+    merchant,
+    facilitator,
+    close: async () => {
+      merchant.close();
+      await Promise.all([stop(merchantServer), stop(facilitatorServer)]);
+    },
+  };
+}
+
+/**
+ * A registry for X402_REGISTRY: the "payai" facilitator (on the mock, for
+ * base-sepolia) and GET /api/weather at $0.001 through it, unless
+ * `facilitators` or `routes` replace them. Other fields (tenants, policy,
+ * deferredSettlement, ...) are copied as given.
+ */
+export function registryWith({
+  facilitators = [facilitator("payai")],
+  routes = [paidRoute()],
+  ...rest
+}: { facilitators?: object[]; routes?: object[]; [field: string]: unknown } = {}) {
+  return { facilitators, routes, ...rest };
+}
+
+/** A facilitator entry, by default on the mock through the startMerchant URL named after `id`. */
+export function facilitator(
+  id: string,
+  {
+    url = `\${${id.toUpperCase()}_FACILITATOR_URL}`,
+    payTo = { "base-sepolia": EVM_PAY_TO },
+    networks = Object.keys(payTo),
+  }: { url?: string; payTo?: Record<string, string>; networks?: string[] } = {}
+) {
+  return { id, name: id, url, networks, payTo };
+}
+
+/** GET /api/weather at $0.001 on base-sepolia through payai; `fields` override or add to it. */
+export function paidRoute(fields: Record<string, unknown> = {}) {
+  const shorthand = fields.accepts ? {} : { network: "base-sepolia", ...(!fields.facilitators && { facilitator: "payai" }) };
+  return { method: "GET", path: "/api/weather", price: "$0.001", description: "Weather", ...shorthand, ...fields };
+}
+
+/** POST /credits/topup at $0.01, for registries that sell credits. */
+export const TOP_UP_ROUTE = paidRoute({ method: "POST", path: "/credits/topup", price: "$0.01", description: "Top up" });
+
+/** Buys credits with a new payer and returns the credit token. */
+export async function topUp(server: TestMerchant): Promise<string> {
+  const { body } = await challenge(`${server.url}/credits/topup`, json({}));
+  const payment = await paymentHeader(await createPayer(), body.accepts[0]);
+  const response = await fetch(`${server.url}/credits/topup`, { ...json({}), headers: { ...json({}).headers, "X-PAYMENT": payment } });
+  return ((await response.json()) as { data: { token: string } }).data.token;
+}
+
+/** A funded-looking throwaway EVM payer; the stub facilitator checks signatures, not balances. */
+export async function createPayer() {
+  const privateKey = generatePrivateKey();
+  return {
+    privateKey,
+    address: privateKeyToAccount(privateKey).address,
+    signer: await createSigner("base-sepolia", privateKey),
+  };
+}
+
+/** X-PAYMENT header paying `requirements` with the payer's signer. */
+export async function paymentHeader(
+  payer: Awaited<ReturnType<typeof createPayer>>,
+  requirements: PaymentRequirements
+): Promise<string> {
+  return createPaymentHeader(payer.signer, 1, requirements);
+}
+
+/** The 402 challenge for a request, asserting nothing. */
+export async function challenge(url: string, init: RequestInit = {}) {
+  const response = await fetch(url, init);
+  const body = (await response.json()) as { x402Version: number; error: string; accepts: PaymentRequirements[] };
+  return { response, body };
+}
+
+export function decodeHeader(value: string | null): Record<string, unknown> {
+  if (!value) throw new Error("header missing");
+  return JSON.parse(Buffer.from(value, "base64").toString("utf8"));
+}
+
+/** A settled base-sepolia payment record, for tests that write to a ledger store directly. */
+export function paymentRecord(overrides: Partial<PaymentRecord> = {}): PaymentRecord {
+  const now = new Date().toISOString();
+  return {
+    id: "payment",
+    tenant: null,
+    route: "GET /api/weather",
+    price: "$0.01",
+    amount: "10000",
+    asset: USDC_BASE_SEPOLIA,
+    network: "base-sepolia",
+    payTo: EVM_PAY_TO,
+    payer: "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65",
+    nonce: null,
+    facilitator: "payai",
+    status: "settled",
+    verifyValid: true,
+    verifyReason: null,
+    txHash: "0xabc",
+    failureReason: null,
+    createdAt: now,
+    verifiedAt: now,
+    settledAt: now,
+    refundStatus: null,
+    refundReason: null,
+    refundAmount: null,
+    refundTxHash: null,
+    refundError: null,
+    refundedAt: null,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+/** Waits for `condition` to hold, polling every 10ms, and fails after `timeoutMs`. */
+export async function until(condition: () => Promise<boolean>, timeoutMs = 2_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) assert.fail("condition not met in time");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+export function json(body: unknown): RequestInit {
+  return { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+}
+
+async function listen(app: { listen(port: number, host: string): Server }): Promise<Server> {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return server;
+}
+
+function urlOf(server: Server): string {
+  const { address, port } = server.address() as AddressInfo;
+  return `http://${address}:${port}`;
+}
+
+function stop(server: Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { challenge, createPayer, paymentHeader, startMerchant, type TestMerchant } from "./helpers";
+
+describe("idempotency keys", () => {
+  let server: TestMerchant;
+  beforeEach(async () => {
+    server = await startMerchant();
+  });
+  afterEach(() => server.close());
+
+  async function payment(): Promise<string> {
+    const { body } = await challenge(`${server.url}/api/weather`);
+    return paymentHeader(await createPayer(), body.accepts[0]);
+  }
+
+  function pay(header: string, key: string) {
+    return fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": header, "Idempotency-Key": key } });
+  }
+
+  it("replays the first response to a retry without settling again", async () => {
+    const header = await payment();
+    const first = await pay(header, "retry-1");
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get("Idempotent-Replayed"), null);
+
+    const retry = await pay(header, "retry-1");
+    assert.equal(retry.status, 200);
+    assert.equal(retry.headers.get("Idempotent-Replayed"), "true");
+    assert.deepEqual(await retry.json(), await first.json());
+    assert.equal(retry.headers.get("X-PAYMENT-RESPONSE"), first.headers.get("X-PAYMENT-RESPONSE"));
+    assert.equal(server.facilitator.settlements.length, 1);
+  });
+
+  it("answers 409 while the first call with the key is still running", async () => {
+    // The first call hangs in settle until the mock times out
+    server.facilitator.setFailure("settle_timeout");
+    const header = await payment();
+    const first = pay(header, "retry-2");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const retry = await pay(header, "retry-2");
+    assert.equal(retry.status, 409);
+    assert.equal(((await retry.json()) as { error: string }).error, "idempotency_key_in_progress");
+    await first;
+  });
+
+  it("answers 422 when the key is reused with another payment", async () => {
+    assert.equal((await pay(await payment(), "retry-3")).status, 200);
+
+    const reused = await pay(await payment(), "retry-3");
+    assert.equal(reused.status, 422);
+    assert.equal(((await reused.json()) as { error: string }).error, "idempotency_key_reused");
+    assert.equal(server.facilitator.settlements.length, 1);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { PaymentRequirements } from "x402/types";
+import { loadRegistry } from "../src/config/registry";
+import { McpBridge, createMcpBridge, createMcpHttpApp } from "../src/mcp";
+import { EVM_PAY_TO, SOLANA_PAY_TO, createPayer, paymentHeader, startMerchant, type TestMerchant } from "./helpers";
+
+const registry = loadRegistry({ EVM_ADDRESS: EVM_PAY_TO, SOLANA_ADDRESS: SOLANA_PAY_TO });
+
+async function connect(bridge: McpBridge): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await bridge.server().connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function textOf(result: unknown): string {
+  const [content] = (result as CallToolResult).content;
+  assert.equal(content.type, "text");
+  return content.text;
+}
+
+describe("MCP bridge", () => {
+  let server: TestMerchant;
+  before(async () => {
+    server = await startMerchant();
+  });
+  after(() => server.close());
+
+  it("lists a tool per paid route with its input schema and price", async () => {
+    const client = await connect(await createMcpBridge(registry, { MERCHANT_URL: server.url }));
+    const { tools } = await client.listTools();
+
+    assert.deepEqual(
+      tools.map((tool) => tool.name),
+      ["weather", "ai_image", "agent_task", "data", "compute"]
+    );
+    const compute = tools.find((tool) => tool.name === "compute")!;
+    assert.match(compute.description!, /\$0\.05 per body\.computeUnits .* on Solana Devnet .* or .* on Base Sepolia \(via PayAI\)/);
+    assert.ok(compute.inputSchema.properties!.computeUnits);
+    assert.ok(compute.inputSchema.properties!.payment);
+    await client.close();
+  });
+
+  it("passes the agent's payment through, returning the 402 when there is none", async () => {
+    const client = await connect(await createMcpBridge(registry, { MERCHANT_URL: server.url }));
+
+    const unpaid = await client.callTool({ name: "weather", arguments: {} });
+    assert.equal(unpaid.isError, true);
+    const { accepts } = JSON.parse(textOf(unpaid).slice(textOf(unpaid).indexOf("{"))) as { accepts: PaymentRequirements[] };
+    assert.equal(accepts[0].maxAmountRequired, "1000");
+
+    const payment = await paymentHeader(await createPayer(), accepts[0]);
+    const paid = await client.callTool({ name: "weather", arguments: { payment } });
+    assert.notEqual(paid.isError, true);
+    assert.equal((JSON.parse(textOf(paid)) as { success: boolean }).success, true);
+    assert.equal((paid._meta?.["x402/payment-response"] as { success: boolean }).success, true);
+    await client.close();
+  });
+
+  it("pays from the wallet until the budget runs out", async () => {
+    const payer = await createPayer();
+    const bridge = await createMcpBridge(registry, {
+      MERCHANT_URL: server.url,
+      MCP_PAYMENT: "wallet",
+      MCP_BUDGET: "$0.0015",
+      EVM_PRIVATE_KEY: payer.privateKey,
+    });
+    assert.equal(bridge.tools[0].inputSchema.properties.payment, undefined);
+    const client = await connect(bridge);
+
+    const first = await client.callTool({ name: "weather", arguments: {} });
+    assert.notEqual(first.isError, true, textOf(first));
+    const second = await client.callTool({ name: "weather", arguments: {} });
+    assert.equal(second.isError, true);
+    assert.match(textOf(second), /Payment refused \(session_budget_exceeded\)/);
+
+    const settled = await server.merchant.ledger.store.list({ payer: payer.address, status: "settled" });
+    assert.equal(settled.length, 1);
+    await client.close();
+  });
+
+  it("refuses wallet mode without a budget", async () => {
+    await assert.rejects(createMcpBridge(registry, { MCP_PAYMENT: "wallet" }), /needs MCP_BUDGET/);
+  });
+
+  it("serves the tools over Streamable HTTP", async () => {
+    const http: Server = createMcpHttpApp(await createMcpBridge(registry, { MERCHANT_URL: server.url })).listen(0, "127.0.0.1");
+    await once(http, "listening");
+    const { port } = http.address() as AddressInfo;
+
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    const { tools } = await client.listTools();
+    assert.equal(tools.length, 5);
+    const result = await client.callTool({ name: "data", arguments: {} });
+    assert.match(textOf(result), /Payment required \(402\)/);
+
+    await client.close();
+    http.closeAllConnections();
+    await new Promise((resolve) => http.close(resolve));
+  });
+});
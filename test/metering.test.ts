@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { afterEach, describe, it } from "node:test";
+import { generatePrivateKey } from "viem/accounts";
+import { createApp } from "../src/app";
+import { RegistryError, loadRegistry } from "../src/config/registry";
+import { MemoryLedgerStore, SqliteLedgerStore } from "../src/ledger";
+import {
+  challenge,
+  createPayer,
+  decodeHeader,
+  facilitator,
+  json,
+  paidRoute,
+  paymentHeader,
+  paymentRecord,
+  registryWith,
+  startMerchant,
+  type TestMerchant,
+} from "./helpers";
+
+/** POST /api/agent/task and GET /api/weather, both metered. */
+function meteredRoutes(metering: object, price = "$0.01") {
+  return [
+    paidRoute({ method: "POST", path: "/api/agent/task", price, description: "Agent", metering }),
+    paidRoute({ price, metering }),
+  ];
+}
+
+// Metered routes need automatic refunds; nothing listens on the RPC, so they fail
+const refundEnv = { REFUND_EVM_PRIVATE_KEY: generatePrivateKey(), REFUNDS_AUTO: "true", REFUND_EVM_RPC_URL: "http://127.0.0.1:1" };
+
+/** POSTs with node:http, which (unlike fetch) exposes the response trailers. */
+function post(url: string, headers: Record<string, string>, body: unknown) {
+  return new Promise<{ status: number; body: string; trailers: NodeJS.Dict<string> }>((resolve, reject) => {
+    const req = request(url, { method: "POST", headers: { "Content-Type": "application/json", ...headers } }, (res) => {
+      let text = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk) => (text += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, body: text, trailers: res.trailers }));
+    });
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe("metered billing", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  async function paid(path: string, init: RequestInit = {}) {
+    const { body } = await challenge(`${server.url}${path}`, init);
+    return { requirements: body.accepts[0], payment: await paymentHeader(await createPayer(), body.accepts[0]) };
+  }
+
+  it("settles the authorization and refunds the unused budget", async () => {
+    // $0.01 at $0.00005 a token buys 200 tokens; the task uses 150
+    server = await startMerchant({
+      ...refundEnv,
+      X402_REGISTRY: JSON.stringify(registryWith({ routes: meteredRoutes({ unit: "token", unitPrice: "$0.00005" }) })),
+    });
+    const { requirements, payment } = await paid("/api/agent/task", json({}));
+    assert.equal(requirements.description, "Agent");
+
+    const response = await fetch(`${server.url}/api/agent/task`, { ...json({}), headers: { ...json({}).headers, "X-PAYMENT": payment } });
+    assert.equal(response.status, 200);
+    const receipt = decodeHeader(response.headers.get("X-PAYMENT-RESPONSE"));
+    assert.equal(receipt.success, true);
+    assert.deepEqual(receipt.usage, {
+      unit: "token",
+      units: 150,
+      unitPrice: "50",
+      authorized: "10000",
+      charged: "7500",
+      exhausted: false,
+      refund: { status: "sending", amount: "2500" },
+    });
+
+    const [record] = await server.merchant.ledger.store.list();
+    assert.equal(record.status, "settled");
+    assert.notEqual(record.refundStatus, "owed");
+    assert.equal(record.refundAmount, "2500");
+    assert.equal(record.refundReason, "unused metered budget: 150 of 200 tokens used");
+  });
+
+  it("does not settle when the handler reports no usage", async () => {
+    server = await startMerchant({
+      ...refundEnv,
+      X402_REGISTRY: JSON.stringify(registryWith({ routes: meteredRoutes({ unit: "request", unitPrice: "$0.001" }) })),
+    });
+    const { payment } = await paid("/api/weather");
+
+    const response = await fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": payment } });
+    assert.equal(response.status, 200);
+    const receipt = decodeHeader(response.headers.get("X-PAYMENT-RESPONSE"));
+    assert.equal(receipt.success, false);
+    assert.equal(receipt.errorReason, "no_usage");
+    assert.equal(server.facilitator.settlements.length, 0);
+    assert.equal((await server.merchant.ledger.store.list())[0].status, "failed");
+  });
+
+  it("stops a stream when the budget runs out and sends the receipt as a trailer", async () => {
+    // $0.005 buys 100 tokens: two 50-token steps, then the stream is cut off
+    const registry = registryWith({ routes: meteredRoutes({ unit: "token", unitPrice: "$0.00005", stream: true }, "$0.005") });
+    server = await startMerchant({ ...refundEnv, X402_REGISTRY: JSON.stringify(registry) });
+    const { payment } = await paid("/api/agent/task", json({}));
+
+    const response = await post(`${server.url}/api/agent/task`, { "X-PAYMENT": payment }, {});
+    assert.equal(response.status, 200);
+    const events = response.body.trim().split("\n\n").map((event) => event.split("\n")[0]);
+    assert.deepEqual(events, ["event: step", "event: step", "event: usage"]);
+
+    const receipt = decodeHeader(response.trailers["x-payment-response"] ?? null);
+    assert.equal(receipt.success, true);
+    assert.deepEqual(receipt.usage, {
+      unit: "token",
+      units: 100,
+      unitPrice: "50",
+      authorized: "5000",
+      charged: "5000",
+      exhausted: true,
+    });
+    assert.deepEqual(JSON.parse(response.body.trim().split("\n\n")[2].split("data: ")[1]), receipt);
+    assert.equal((await server.merchant.ledger.store.list())[0].refundStatus, null);
+  });
+});
+
+describe("metered billing config and revenue", () => {
+  it("rejects metering on routes that do not settle after the handler", () => {
+    const [task, weather] = meteredRoutes({ unit: "token", unitPrice: "$0.0000001" });
+    const registry = registryWith({
+      facilitators: [facilitator("payai", { networks: ["base-sepolia", "solana-devnet"] })],
+      routes: [
+        { ...task, settlement: "before-handler" },
+        { ...weather, network: "solana-devnet" },
+      ],
+    });
+    assert.throws(
+      () => loadRegistry({ X402_REGISTRY: JSON.stringify(registry), PAYAI_FACILITATOR_URL: "http://localhost:1" }),
+      (error: unknown) =>
+        error instanceof RegistryError &&
+        error.issues.includes('route "POST /api/agent/task" is metered, which settles after the handler (not before-handler)') &&
+        error.issues.includes('route "GET /api/weather" is metered, which solana-devnet does not support (EVM networks only)') &&
+        error.issues.includes(
+          'route "GET /api/weather" has metering unitPrice $0.0000001, below the smallest USDC amount ($0.000001)'
+        )
+    );
+  });
+
+  it("refuses to start without automatic refunds for metered routes", () => {
+    const env = {
+      X402_REGISTRY: JSON.stringify(registryWith({ routes: meteredRoutes({ unit: "token", unitPrice: "$0.00005" }) })),
+      PAYAI_FACILITATOR_URL: "http://localhost:1",
+      LEDGER_STORE: "memory",
+    };
+    for (const refunds of [{}, { REFUND_EVM_PRIVATE_KEY: refundEnv.REFUND_EVM_PRIVATE_KEY }, { REFUNDS_AUTO: "true" }]) {
+      assert.throws(
+        () => createApp(loadRegistry(env), { ...env, ...refunds }),
+        /route "POST \/api\/agent\/task" is metered, so base-sepolia refunds must be sent automatically/
+      );
+    }
+  });
+
+  for (const [name, store] of [
+    ["memory", () => new MemoryLedgerStore()],
+    ["sqlite", () => new SqliteLedgerStore(":memory:")],
+  ] as const) {
+    it(`counts what a partial refund left as revenue (${name})`, async () => {
+      const ledger = store();
+      const route = "POST /api/agent/task";
+      await ledger.insert(paymentRecord({ id: "partial", route, refundStatus: "refunded", refundAmount: "2500" }));
+      await ledger.insert(paymentRecord({ id: "full", route, refundStatus: "refunded" }));
+      await ledger.insert(paymentRecord({ id: "kept", route }));
+      assert.deepEqual(await ledger.revenue("route"), [{ key: "POST /api/agent/task", payments: 2, amount: "17500" }]);
+      await ledger.close();
+    });
+  }
+});
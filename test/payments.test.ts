@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  challenge,
+  createPayer,
+  decodeHeader,
+  paymentHeader,
+  startMerchant,
+  type TestMerchant,
+} from "./helpers";
+
+describe("paid calls", () => {
+  let server: TestMerchant;
+  let payer: Awaited<ReturnType<typeof createPayer>>;
+  before(async () => {
+    server = await startMerchant();
+    payer = await createPayer();
+  });
+  afterEach(() => server.facilitator.setFailure("none"));
+  after(() => server.close());
+
+  /** Requirements of the route's base-sepolia option. */
+  async function requirementsFor(path: string) {
+    const { body } = await challenge(`${server.url}${path}`);
+    return body.accepts.find((option) => option.network === "base-sepolia")!;
+  }
+
+  async function payWith(path: string, header: string) {
+    return fetch(`${server.url}${path}`, { headers: { "X-PAYMENT": header } });
+  }
+
+  it("serves and settles a valid payment", async () => {
+    const response = await payWith("/api/weather", await paymentHeader(payer, await requirementsFor("/api/weather")));
+
+    assert.equal(response.status, 200);
+    const body = (await response.json()) as { success: boolean; data: { location: string } };
+    assert.equal(body.success, true);
+    assert.ok(body.data.location);
+
+    const settlement = decodeHeader(response.headers.get("X-PAYMENT-RESPONSE"));
+    assert.equal(settlement.success, true);
+    assert.equal(settlement.network, "base-sepolia");
+    assert.equal(settlement.payer, payer.address);
+    assert.match(String(settlement.transaction), /^0x[0-9a-f]{64}$/);
+
+    const records = await server.merchant.ledger.store.list({ route: "GET /api/weather" });
+    const record = records.find((r) => r.txHash === settlement.transaction)!;
+    assert.equal(record.status, "settled");
+    assert.equal(record.amount, "1000");
+    assert.equal(record.txHash, settlement.transaction);
+  });
+
+  it("rejects a malformed X-PAYMENT header", async () => {
+    const response = await payWith("/api/weather", "not-a-payment");
+
+    assert.equal(response.status, 402);
+    const body = (await response.json()) as { error: string; accepts: unknown[] };
+    assert.equal(body.error, "Invalid or malformed payment header");
+    assert.ok(body.accepts.length > 0);
+  });
+
+  it("rejects an underpaid authorization before verifying it", async () => {
+    const settled = server.facilitator.settlements.length;
+    const requirements = await requirementsFor("/api/data");
+    const header = await paymentHeader(payer, { ...requirements, maxAmountRequired: "4999" });
+    const response = await payWith("/api/data", header);
+
+    assert.equal(response.status, 402);
+    assert.equal(((await response.json()) as { error: string }).error, "insufficient_payment_amount");
+    assert.equal(server.facilitator.settlements.length, settled, "nothing settled");
+  });
+
+  it("rejects a payment to another recipient", async () => {
+    const requirements = await requirementsFor("/api/weather");
+    const header = await paymentHeader(payer, { ...requirements, payTo: payer.address });
+    const response = await payWith("/api/weather", header);
+
+    assert.equal(response.status, 402);
+    assert.equal(
+      ((await response.json()) as { error: string }).error,
+      "invalid_exact_evm_payload_recipient_mismatch"
+    );
+  });
+
+  it("rejects a payment that was already used", async () => {
+    const header = await paymentHeader(payer, await requirementsFor("/api/weather"));
+    assert.equal((await payWith("/api/weather", header)).status, 200);
+
+    const replay = await payWith("/api/weather", header);
+    assert.equal(replay.status, 402);
+    assert.equal(((await replay.json()) as { error: string }).error, "duplicate_payment");
+  });
+
+  it("passes on the facilitator's verification failure", async () => {
+    server.facilitator.setFailure("invalid_signature");
+    const response = await payWith("/api/weather", await paymentHeader(payer, await requirementsFor("/api/weather")));
+
+    assert.equal(response.status, 402);
+    assert.equal(((await response.json()) as { error: string }).error, "invalid_exact_evm_payload_signature");
+  });
+
+  it("does not serve the response when settlement fails", async () => {
+    server.facilitator.setFailure("settle_failure");
+    const response = await payWith("/api/weather", await paymentHeader(payer, await requirementsFor("/api/weather")));
+
+    assert.equal(response.status, 402);
+    const body = (await response.json()) as { error: string; data?: unknown };
+    assert.equal(body.error, "unexpected_settle_error");
+    assert.equal(body.data, undefined);
+    assert.equal(decodeHeader(response.headers.get("X-PAYMENT-RESPONSE")).success, false);
+  });
+});
+
+describe("facilitator outage", () => {
+  // Its own merchant: the failing calls open the facilitator's circuit breaker
+  let server: TestMerchant;
+  before(async () => {
+    server = await startMerchant();
+  });
+  after(() => server.close());
+
+  it("answers 503 when no facilitator responds", async () => {
+    server.facilitator.setFailure("timeout");
+    const { body } = await challenge(`${server.url}/api/data`);
+    const requirements = body.accepts.find((option) => option.network === "base-sepolia")!;
+    const payment = await paymentHeader(await createPayer(), requirements);
+    const response = await fetch(`${server.url}/api/data`, { headers: { "X-PAYMENT": payment } });
+
+    assert.equal(response.status, 503);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, describe, it } from "node:test";
+import {
+  TOP_UP_ROUTE,
+  challenge,
+  createPayer,
+  paidRoute,
+  paymentHeader,
+  registryWith,
+  startMerchant,
+  topUp,
+  type TestMerchant,
+} from "./helpers";
+
+type Payer = Awaited<ReturnType<typeof createPayer>>;
+
+const listDir = mkdtempSync(join(tmpdir(), "x402-policy-"));
+after(() => rmSync(listDir, { recursive: true, force: true }));
+
+/** Writes an address list file and returns its path. */
+function listFile(name: string, ...addresses: string[]): string {
+  const path = join(listDir, name);
+  writeFileSync(path, `# test list\n${addresses.join("\n")}\n`);
+  return path;
+}
+
+describe("payer policy", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  async function pay(payer: Payer) {
+    const { body } = await challenge(`${server.url}/api/weather`);
+    const payment = await paymentHeader(payer, body.accepts[0]);
+    return fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": payment } });
+  }
+
+  async function errorOf(response: Response): Promise<string> {
+    return ((await response.json()) as { error: string }).error;
+  }
+
+  it("rate-limits each payer separately", async () => {
+    const registry = registryWith({ routes: [paidRoute({ limits: { perPayer: { requests: 1, windowSeconds: 60 } } })] });
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    const payer = await createPayer();
+    assert.equal((await pay(payer)).status, 200);
+
+    const limited = await pay(payer);
+    assert.equal(limited.status, 429);
+    assert.equal(await errorOf(limited), "rate_limited");
+    assert.ok(Number(limited.headers.get("Retry-After")) > 0);
+    assert.equal(server.facilitator.settlements.length, 1);
+
+    assert.equal((await pay(await createPayer())).status, 200);
+  });
+
+  it("rate-limits requests per IP before the challenge", async () => {
+    const registry = registryWith({ routes: [paidRoute({ limits: { perIp: { requests: 1, windowSeconds: 60 } } })] });
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    assert.equal((await fetch(`${server.url}/api/weather`)).status, 402);
+
+    const limited = await fetch(`${server.url}/api/weather`);
+    assert.equal(limited.status, 429);
+    assert.equal(await errorOf(limited), "rate_limited");
+  });
+
+  it("refuses denylisted payers and payers missing from the allowlist", async () => {
+    const [allowed, denied, unlisted] = await Promise.all([createPayer(), createPayer(), createPayer()]);
+    const policy = {
+      allowlist: listFile("allow.txt", allowed.address, denied.address),
+      denylist: listFile("deny.txt", denied.address.toLowerCase()),
+    };
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registryWith({ policy })) });
+
+    assert.equal((await pay(allowed)).status, 200);
+    const deniedResponse = await pay(denied);
+    assert.equal(deniedResponse.status, 403);
+    assert.equal(await errorOf(deniedResponse), "payer_denied");
+    const unlistedResponse = await pay(unlisted);
+    assert.equal(unlistedResponse.status, 403);
+    assert.equal(await errorOf(unlistedResponse), "payer_not_allowed");
+    assert.equal(server.facilitator.settlements.length, 1);
+  });
+
+  it("applies the daily spend cap across routes", async () => {
+    const routes = [paidRoute(), paidRoute({ path: "/api/data" })];
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registryWith({ routes, policy: { dailySpendCap: "$0.001" } })) });
+    const payer = await createPayer();
+    assert.equal((await pay(payer)).status, 200);
+
+    const { body } = await challenge(`${server.url}/api/data`);
+    const capped = await fetch(`${server.url}/api/data`, { headers: { "X-PAYMENT": await paymentHeader(payer, body.accepts[0]) } });
+    assert.equal(capped.status, 429);
+    assert.equal(await errorOf(capped), "daily_spend_cap_exceeded");
+  });
+
+  it("applies a route's daily spend cap to credit spends", async () => {
+    const registry = registryWith({ routes: [paidRoute({ limits: { dailySpendCap: "$0.002" } }), TOP_UP_ROUTE] });
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    const token = await topUp(server);
+    const spend = () => fetch(`${server.url}/api/weather`, { headers: { Authorization: `Bearer ${token}` } });
+
+    assert.equal((await spend()).status, 200);
+    assert.equal((await spend()).status, 200);
+    const third = await spend();
+    assert.equal(third.status, 429);
+    assert.equal(((await third.json()) as { error: string }).error, "daily_spend_cap_exceeded");
+    const balance = await fetch(`${server.url}/credits/balance`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(((await balance.json()) as { balance: { amount: string } }).balance.amount, "8000");
+  });
+});
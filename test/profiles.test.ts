@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RegistryError, loadRegistry } from "../src/config/registry";
+import { EVM_PAY_TO, facilitator, paidRoute, registryWith } from "./helpers";
+
+const MAINNET_SOLANA = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+/** Issues of the RegistryError that loading with `env` throws. */
+function issuesOf(env: NodeJS.ProcessEnv): string[] {
+  try {
+    loadRegistry(env);
+  } catch (error) {
+    assert.ok(error instanceof RegistryError, String(error));
+    return error.issues;
+  }
+  assert.fail("registry loaded");
+}
+
+describe("environment profiles", () => {
+  it("uses testnet networks and facilitators by default", () => {
+    const registry = loadRegistry({ EVM_ADDRESS: EVM_PAY_TO, SOLANA_ADDRESS: MAINNET_SOLANA });
+
+    assert.equal(registry.profile.name, "testnet");
+    assert.deepEqual(
+      registry.facilitators.map((f) => f.id),
+      ["payai", "coinbase"]
+    );
+    const networks = new Set(registry.routes.flatMap((route) => route.accepts.map((option) => option.network)));
+    assert.deepEqual([...networks].sort(), ["base-sepolia", "solana-devnet"]);
+  });
+
+  it("uses Base and Solana with every facilitator in production", () => {
+    const registry = loadRegistry({ NODE_ENV: "production", EVM_ADDRESS: EVM_PAY_TO, SOLANA_ADDRESS: MAINNET_SOLANA });
+
+    assert.equal(registry.profile.name, "mainnet");
+    assert.deepEqual(
+      registry.facilitators.map((f) => f.id),
+      ["payai", "heurist", "daydreams", "coinbase", "dexter"]
+    );
+    const image = registry.routes.find((route) => route.path === "/api/ai/image")!;
+    assert.deepEqual(image.accepts, [{ network: "base", price: "$0.02", facilitators: ["heurist", "payai", "coinbase"] }]);
+  });
+
+  it("refuses testnet networks under the mainnet profile", () => {
+    const X402_REGISTRY = JSON.stringify(
+      registryWith({
+        facilitators: [facilitator("payai", { url: "https://facilitator.payai.network" })],
+        routes: [paidRoute({ path: "/paid", price: "$0.01", description: "Paid" })],
+      })
+    );
+    const issues = issuesOf({ X402_PROFILE: "production", X402_REGISTRY });
+
+    assert.equal(issues.length, 2);
+    assert.match(issues[0], /facilitator "payai" uses base-sepolia, but the mainnet profile allows base,/);
+    assert.match(issues[1], /route "GET \/paid" accepts base-sepolia/);
+  });
+
+  it("refuses burn and system pay-to addresses in production only", () => {
+    const env = { EVM_ADDRESS: "0x0000000000000000000000000000000000000000", SOLANA_ADDRESS: "11111111111111111111111111111111" };
+
+    assert.equal(loadRegistry(env).profile.name, "testnet");
+    const issues = issuesOf({ ...env, X402_PROFILE: "mainnet" });
+    assert.ok(issues.includes('facilitator "dexter" has placeholder payTo.solana "11111111111111111111111111111111"'));
+    assert.ok(issues.some((issue) => issue.startsWith('facilitator "payai" has placeholder payTo.base')));
+  });
+
+  it("rejects an unknown X402_PROFILE", () => {
+    assert.match(issuesOf({ X402_PROFILE: "staging" })[0], /unknown profile "staging"/);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { MemoryLedgerStore } from "../src/ledger";
+import { RefundService, type RefundSender, type RefundTransfer } from "../src/refunds";
+import {
+  challenge,
+  createPayer,
+  paidRoute,
+  paymentHeader,
+  paymentRecord,
+  registryWith,
+  startMerchant,
+  type TestMerchant,
+  until,
+} from "./helpers";
+
+/** Records transfers; `confirmations` are answered in turn ("timeout" rejects). */
+class FakeSender implements RefundSender {
+  readonly submitted: RefundTransfer[] = [];
+  constructor(private readonly confirmations: (boolean | "timeout")[]) {}
+
+  async submit(transfer: RefundTransfer): Promise<string> {
+    this.submitted.push(transfer);
+    return `0xrefund${this.submitted.length}`;
+  }
+
+  async confirm(): Promise<boolean> {
+    const next = this.confirmations.shift();
+    if (next === undefined || next === "timeout") throw new Error("timed out waiting for the receipt");
+    return next;
+  }
+}
+
+async function owedRefund(overrides = {}) {
+  const store = new MemoryLedgerStore();
+  await store.insert(paymentRecord({ refundStatus: "owed", refundReason: "handler responded 500", ...overrides }));
+  return store;
+}
+
+describe("refunds", () => {
+  it("sends the owed amount back to the payer", async () => {
+    const store = await owedRefund({ refundAmount: "2500" });
+    const sender = new FakeSender([true]);
+    const refunds = new RefundService(store, { auto: false });
+    refunds.setSender("evm", sender);
+
+    const record = await refunds.send("payment");
+    assert.equal(record.refundStatus, "refunded");
+    assert.equal(record.refundTxHash, "0xrefund1");
+    assert.deepEqual(sender.submitted, [
+      { network: "base-sepolia", asset: record.asset, to: record.payer, amount: "2500" },
+    ]);
+    await assert.rejects(refunds.send("payment"), /no refund to send/);
+  });
+
+  it("checks an unconfirmed transfer instead of sending it twice", async () => {
+    const store = await owedRefund();
+    const sender = new FakeSender(["timeout", true]);
+    const refunds = new RefundService(store, { auto: false });
+    refunds.setSender("evm", sender);
+
+    const pending = await refunds.send("payment");
+    assert.equal(pending.refundStatus, "sending");
+    assert.equal(pending.refundTxHash, "0xrefund1");
+    assert.match(pending.refundError!, /could not confirm 0xrefund1/);
+
+    const record = await refunds.send("payment");
+    assert.equal(record.refundStatus, "refunded");
+    assert.equal(record.refundTxHash, "0xrefund1");
+    assert.equal(sender.submitted.length, 1);
+  });
+
+  it("sends again only when the earlier transfer reverted", async () => {
+    const store = await owedRefund();
+    const sender = new FakeSender(["timeout", false, true]);
+    const refunds = new RefundService(store, { auto: false });
+    refunds.setSender("evm", sender);
+
+    await refunds.send("payment");
+    const record = await refunds.send("payment");
+    assert.equal(record.refundStatus, "refunded");
+    assert.equal(record.refundTxHash, "0xrefund2");
+    assert.equal(sender.submitted.length, 2);
+  });
+
+  it("marks a reverted transfer failed so it can be retried", async () => {
+    const store = await owedRefund();
+    const refunds = new RefundService(store, { auto: false });
+    refunds.setSender("evm", new FakeSender([false]));
+
+    const record = await refunds.send("payment");
+    assert.equal(record.refundStatus, "failed");
+    assert.equal(record.refundError, "Refund transaction 0xrefund1 reverted");
+  });
+});
+
+describe("refunds over HTTP", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  // Settled before the handler runs, and there is no handler: every call is owed a refund
+  const registry = registryWith({ routes: [paidRoute({ path: "/api/missing", settlement: "before-handler" })] });
+  const admin = { Authorization: "Bearer admin-secret" };
+
+  async function payForNothing() {
+    const payer = await createPayer();
+    const { body } = await challenge(`${server.url}/api/missing`);
+    const payment = await paymentHeader(payer, body.accepts[0]);
+    const response = await fetch(`${server.url}/api/missing`, { headers: { "X-PAYMENT": payment } });
+    const { refund } = (await response.json()) as { refund: { status: string; paymentId: string; amount: string; to: string } };
+    return { payer, response, refund };
+  }
+
+  it("owes a refund when the handler fails, and sends it from the admin API", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry), ADMIN_TOKEN: "admin-secret" });
+    const { payer, response, refund } = await payForNothing();
+    assert.equal(response.status, 404);
+    assert.equal(refund.status, "owed");
+    assert.equal(refund.amount, "1000");
+    assert.equal(refund.to, payer.address);
+
+    const owed = (await (await fetch(`${server.url}/admin/refunds`, { headers: admin })).json()) as {
+      payments: { id: string }[];
+    };
+    assert.deepEqual(
+      owed.payments.map((payment) => payment.id),
+      [refund.paymentId]
+    );
+
+    const sender = new FakeSender([true]);
+    server.merchant.refunds.setSender("evm", sender);
+    const sent = await fetch(`${server.url}/admin/refunds/${refund.paymentId}/send`, { method: "POST", headers: admin });
+    assert.equal(sent.status, 200);
+    const { payment } = (await sent.json()) as { payment: { refundStatus: string; refundTxHash: string } };
+    assert.equal(payment.refundStatus, "refunded");
+    assert.equal(payment.refundTxHash, "0xrefund1");
+    assert.equal(sender.submitted[0].to, payer.address);
+  });
+
+  it("sends refunds right away with REFUNDS_AUTO", async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry), REFUNDS_AUTO: "true" });
+    server.merchant.refunds.setSender("evm", new FakeSender([true]));
+    const { refund } = await payForNothing();
+    assert.equal(refund.status, "sending");
+
+    await until(async () => (await server.merchant.ledger.store.get(refund.paymentId))?.refundStatus === "refunded");
+  });
+});
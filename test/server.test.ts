@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { startMerchant, type TestMerchant } from "./helpers";
+
+// The testnet profile's facilitators
+const FACILITATORS = ["payai", "coinbase"];
+
+describe("free endpoints and error handling", () => {
+  let server: TestMerchant;
+  before(async () => {
+    server = await startMerchant();
+  });
+  after(() => server.close());
+
+  it("GET / describes the facilitators and paid endpoints", async () => {
+    const response = await fetch(`${server.url}/`);
+    assert.equal(response.status, 200);
+
+    const body = (await response.json()) as {
+      name: string;
+      protocol: string;
+      facilitators: Record<string, { networks: string[] }>;
+      endpoints: { public: Record<string, string>; paid: Record<string, Record<string, { price: string }>> };
+    };
+    assert.equal(body.protocol, "x402");
+    assert.ok(body.name);
+    assert.deepEqual(Object.keys(body.facilitators).sort(), [...FACILITATORS].sort());
+    assert.ok(body.endpoints.public["GET /health"]);
+    assert.equal(body.endpoints.paid.payai["GET /api/weather"].price, "$0.001");
+    assert.ok(body.endpoints.paid.coinbase["POST /api/compute"]);
+  });
+
+  it("GET /health reports every facilitator once probed", async () => {
+    await server.merchant.healthMonitor.probeAll();
+    const response = await fetch(`${server.url}/health`);
+    assert.equal(response.status, 200);
+
+    const body = (await response.json()) as {
+      status: string;
+      checkedAt: string | null;
+      facilitators: Record<string, { status: string }>;
+      routes: Record<string, { status: string }>;
+    };
+    assert.ok(["healthy", "degraded"].includes(body.status), `status ${body.status}`);
+    assert.ok(body.checkedAt);
+    for (const id of FACILITATORS) assert.notEqual(body.facilitators[id]?.status, "down", id);
+    assert.equal(body.routes["GET /api/weather"].status, "ok");
+  });
+
+  it("answers unknown paths with a JSON 404", async () => {
+    const response = await fetch(`${server.url}/nope`);
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), {
+      success: false,
+      error: "Not found",
+      message: "The requested endpoint does not exist",
+    });
+  });
+
+  it("answers errors thrown before a handler with a JSON 500", async () => {
+    const response = await fetch(`${server.url}/api/compute`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{not json",
+    });
+    assert.equal(response.status, 500);
+    const body = (await response.json()) as { success: boolean; error: string };
+    assert.equal(body.success, false);
+    assert.equal(body.error, "Internal server error");
+  });
+});
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { RegistryError, loadRegistry } from "../src/config/registry";
+import {
+  SOLANA_PAY_TO,
+  challenge,
+  createPayer,
+  facilitator,
+  paidRoute,
+  paymentHeader,
+  registryWith,
+  startMerchant,
+  type TestMerchant,
+  until,
+} from "./helpers";
+
+const deferredRoute = paidRoute({ settlement: "deferred" });
+
+describe("deferred settlement", () => {
+  let server: TestMerchant;
+  afterEach(() => server.close());
+
+  async function start(deferredSettlement: object = {}) {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registryWith({ routes: [deferredRoute], deferredSettlement })) });
+    return server.merchant.settler!;
+  }
+
+  async function pay(payer: Awaited<ReturnType<typeof createPayer>>) {
+    const { body } = await challenge(`${server.url}/api/weather`);
+    return fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": await paymentHeader(payer, body.accepts[0]) } });
+  }
+
+  it("serves the route on the verified payment and queues it", async () => {
+    const settler = await start();
+    const { body } = await challenge(`${server.url}/api/weather`);
+    assert.equal(body.accepts[0].maxTimeoutSeconds, 3600);
+
+    const response = await pay(await createPayer());
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("X-PAYMENT-RESPONSE"), null);
+    const paymentId = response.headers.get("X-PAYMENT-DEFERRED")!;
+
+    assert.equal((await server.merchant.ledger.store.get(paymentId))?.status, "verified");
+    assert.equal((await settler.store.get(paymentId))?.status, "queued");
+    assert.equal(server.facilitator.settlements.length, 0);
+  });
+
+  it("settles in the background once a batch is full", async () => {
+    const settler = await start({ batchSize: 3 });
+    const payer = await createPayer();
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      ids.push((await pay(payer)).headers.get("X-PAYMENT-DEFERRED")!);
+    }
+
+    await until(async () => (await settler.store.count({ status: "settled" })) === 3);
+    const records = await Promise.all(ids.map((id) => server.merchant.ledger.store.get(id)));
+    assert.deepEqual(
+      records.map((record) => record?.status),
+      ["settled", "settled", "settled"]
+    );
+    assert.ok(records.every((record) => record?.txHash));
+    assert.equal(server.facilitator.settlements.length, 3);
+  });
+
+  it("settles right away once the payer's unsettled total would pass the limit", async () => {
+    const settler = await start({ maxUnsettledPerPayer: "$0.002" });
+    const payer = await createPayer();
+    await pay(payer);
+    await pay(payer);
+
+    const third = await pay(payer);
+    assert.equal(third.status, 200);
+    assert.equal(third.headers.get("X-PAYMENT-DEFERRED"), null);
+    assert.ok(third.headers.get("X-PAYMENT-RESPONSE"));
+    assert.equal(await settler.store.exposure(payer.address.toLowerCase()), "2000");
+
+    // Another payer is not held back
+    assert.ok((await pay(await createPayer())).headers.get("X-PAYMENT-DEFERRED"));
+  });
+
+  it("counts queued payments toward the payer's daily spend cap", async () => {
+    const registry = registryWith({ routes: [deferredRoute], policy: { dailySpendCap: "$0.002" } });
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registry) });
+    const payer = await createPayer();
+    assert.ok((await pay(payer)).headers.get("X-PAYMENT-DEFERRED"));
+    assert.ok((await pay(payer)).headers.get("X-PAYMENT-DEFERRED"));
+
+    const third = await pay(payer);
+    assert.equal(third.status, 429);
+    assert.equal(((await third.json()) as { error: string }).error, "daily_spend_cap_exceeded");
+    assert.equal(server.facilitator.settlements.length, 0);
+  });
+
+  it("retries failed settlements and gives up after maxAttempts", async () => {
+    const settler = await start({ maxAttempts: 2, retryDelaySeconds: 10 });
+    server.facilitator.setFailure("settle_failure");
+    const paymentId = (await pay(await createPayer())).headers.get("X-PAYMENT-DEFERRED")!;
+
+    assert.deepEqual(await settler.flush(), { settled: 0, retrying: 1, failed: 0, expired: 0, unknown: 0 });
+    // Not due again until the retry delay has passed
+    assert.deepEqual(await settler.flush(), { settled: 0, retrying: 0, failed: 0, expired: 0, unknown: 0 });
+    assert.deepEqual(await settler.flush(new Date(Date.now() + 11_000)), { settled: 0, retrying: 0, failed: 1, expired: 0, unknown: 0 });
+
+    const queued = await settler.store.get(paymentId);
+    assert.equal(queued?.status, "failed");
+    assert.equal(queued?.attempts, 2);
+    const record = await server.merchant.ledger.store.get(paymentId);
+    assert.equal(record?.status, "failed");
+    assert.equal(record?.failureReason, "settle failed: unexpected_settle_error");
+  });
+
+  it("does not retry a settle whose outcome is unknown", async () => {
+    const settler = await start({ retryDelaySeconds: 10 });
+    server.facilitator.setFailure("settle_timeout");
+    const payer = await createPayer();
+    const { body } = await challenge(`${server.url}/api/weather`);
+    const header = await paymentHeader(payer, body.accepts[0]);
+    const paid = await fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": header } });
+    const paymentId = paid.headers.get("X-PAYMENT-DEFERRED")!;
+
+    assert.deepEqual(await settler.flush(), { settled: 0, retrying: 0, failed: 0, expired: 0, unknown: 1 });
+    assert.deepEqual(await settler.flush(new Date(Date.now() + 11_000)), {
+      settled: 0,
+      retrying: 0,
+      failed: 0,
+      expired: 0,
+      unknown: 0,
+    });
+
+    const queued = await settler.store.get(paymentId);
+    assert.equal(queued?.status, "unknown");
+    assert.equal(queued?.attempts, 1);
+    // The authorization may have gone through, so its nonce stays claimed
+    const record = await server.merchant.ledger.store.get(paymentId);
+    assert.equal(record?.status, "verified");
+    assert.match(record?.failureReason ?? "", /^Settlement outcome unknown/);
+    const replay = await fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": header } });
+    assert.equal(replay.status, 402);
+    assert.equal(((await replay.json()) as { error: string }).error, "duplicate_payment");
+  });
+
+  it("marks payments whose authorization ran out as expired", async () => {
+    const settler = await start();
+    const paymentId = (await pay(await createPayer())).headers.get("X-PAYMENT-DEFERRED")!;
+
+    const result = await settler.flush(new Date(Date.now() + 2 * 60 * 60 * 1000));
+    assert.equal(result.expired, 1);
+    assert.equal((await settler.store.get(paymentId))?.status, "expired");
+    assert.equal((await server.merchant.ledger.store.get(paymentId))?.status, "failed");
+    assert.equal(await settler.store.exposure((await settler.store.get(paymentId))!.payer), "0");
+  });
+});
+
+describe("deferred settlement config", () => {
+  it("only defers settlement on EVM networks", () => {
+    assert.throws(
+      () =>
+        loadRegistry({
+          X402_REGISTRY: JSON.stringify(
+            registryWith({
+              facilitators: [facilitator("payai", { networks: ["base-sepolia", "solana-devnet"] })],
+              routes: [paidRoute({ settlement: "deferred", network: "solana-devnet" })],
+            })
+          ),
+          PAYAI_FACILITATOR_URL: "http://localhost:1",
+          SOLANA_ADDRESS: SOLANA_PAY_TO,
+        }),
+      (error: unknown) =>
+        error instanceof RegistryError &&
+        error.issues.includes(
+          'route "GET /api/weather" defers settlement, which solana-devnet does not support (EVM networks only)'
+        )
+    );
+  });
+});
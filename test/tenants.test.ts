@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { after, before, describe, it } from "node:test";
+import { RegistryError, loadRegistry } from "../src/config/registry";
+import { EVM_PAY_TO, challenge, createPayer, paymentHeader, registryWith, startMerchant, type TestMerchant } from "./helpers";
+
+const ACME_PAY_TO = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const GLOBEX_PAY_TO = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+
+const ACME = {
+  id: "acme",
+  name: "Acme",
+  pathPrefix: "/acme",
+  apiKeys: ["acme-key"],
+  payTo: { "base-sepolia": ACME_PAY_TO },
+  routes: [
+    { method: "GET", path: "/api/weather", price: "$0.002", network: "base-sepolia", facilitator: "payai", description: "Weather" },
+    { method: "GET", path: "/api/data", price: "$0.01", network: "base-sepolia", facilitator: "payai", description: "Data" },
+  ],
+  splits: [{ tenant: "globex", percent: 25 }],
+};
+
+const GLOBEX = {
+  id: "globex",
+  name: "Globex",
+  subdomain: "globex",
+  payTo: { "base-sepolia": GLOBEX_PAY_TO },
+  routes: [{ method: "GET", path: "/api/data", price: "$0.005", network: "base-sepolia", facilitator: "payai", description: "Data" }],
+};
+
+/** GET with another Host header, which fetch does not let through. */
+function getAs(host: string, url: string): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const { port } = new URL(url);
+    request(url, { headers: { Host: `${host}:${port}` } }, (response) => {
+      let data = "";
+      response.on("data", (chunk) => (data += chunk));
+      response.on("end", () => resolve({ status: response.statusCode!, body: JSON.parse(data) }));
+    })
+      .on("error", reject)
+      .end();
+  });
+}
+
+/** Issues of the RegistryError that loading `registry` throws. */
+function issuesOf(registry: object): string[] {
+  try {
+    loadRegistry({ X402_REGISTRY: JSON.stringify(registry), PAYAI_FACILITATOR_URL: "http://localhost:1" });
+  } catch (error) {
+    assert.ok(error instanceof RegistryError, String(error));
+    return error.issues;
+  }
+  assert.fail("registry loaded");
+}
+
+describe("multi-tenant mode", () => {
+  let server: TestMerchant;
+  before(async () => {
+    server = await startMerchant({ X402_REGISTRY: JSON.stringify(registryWith({ tenants: [ACME, GLOBEX] })) });
+  });
+  after(() => server.close());
+
+  it("picks the tenant by path prefix and asks for its price and address", async () => {
+    const { response, body } = await challenge(`${server.url}/acme/api/weather`);
+
+    assert.equal(response.status, 402);
+    assert.equal(body.accepts[0].payTo, ACME_PAY_TO);
+    assert.equal(body.accepts[0].maxAmountRequired, "2000");
+    assert.equal(body.accepts[0].resource, `${server.url}/acme/api/weather`);
+  });
+
+  it("picks the tenant by API key and refuses unknown keys", async () => {
+    const { body } = await challenge(`${server.url}/api/weather`, { headers: { "X-Api-Key": "acme-key" } });
+    assert.equal(body.accepts[0].payTo, ACME_PAY_TO);
+
+    const refused = await fetch(`${server.url}/api/weather`, { headers: { "X-Api-Key": "nope" } });
+    assert.equal(refused.status, 401);
+  });
+
+  it("picks the tenant by subdomain", async () => {
+    const { status, body } = await getAs("globex.localhost", `${server.url}/api/data`);
+    assert.equal(status, 402);
+    assert.equal(body.accepts[0].payTo, GLOBEX_PAY_TO);
+    assert.equal(body.accepts[0].maxAmountRequired, "5000");
+  });
+
+  it("serves each catalog only its own paid routes", async () => {
+    const { body } = await challenge(`${server.url}/api/weather`);
+    assert.equal(body.accepts[0].payTo, EVM_PAY_TO);
+
+    assert.equal((await fetch(`${server.url}/api/data`)).status, 404);
+    assert.equal((await getAs("globex.localhost", `${server.url}/api/weather`)).status, 404);
+  });
+
+  it("describes a tenant's catalog without credits", async () => {
+    type OpenApi = {
+      paths: Record<string, Record<string, { security: object[] }>>;
+      components: { securitySchemes: Record<string, unknown> };
+    };
+    const root = (await (await fetch(`${server.url}/openapi.json`)).json()) as OpenApi;
+    assert.ok(root.components.securitySchemes.credits);
+    assert.deepEqual(root.paths["/api/weather"].get.security, [{ x402: [] }, { credits: [] }]);
+
+    const acme = (await (await fetch(`${server.url}/acme/openapi.json`)).json()) as OpenApi;
+    assert.deepEqual(Object.keys(acme.components.securitySchemes), ["x402"]);
+    assert.deepEqual(Object.keys(acme.paths).sort(), ["/api/data", "/api/weather"]);
+    for (const path of Object.values(acme.paths)) {
+      assert.deepEqual(path.get.security, [{ x402: [] }]);
+    }
+  });
+
+  it("records the tenant and credits split revenue to each tenant", async () => {
+    const payer = await createPayer();
+    const { body } = await challenge(`${server.url}/acme/api/data`);
+    const response = await fetch(`${server.url}/acme/api/data`, {
+      headers: { "X-PAYMENT": await paymentHeader(payer, body.accepts[0]) },
+    });
+    assert.equal(response.status, 200);
+
+    const [record] = await server.merchant.ledger.store.list({ tenant: "acme", route: "GET /api/data" });
+    assert.equal(record.status, "settled");
+    assert.equal(record.payTo, ACME_PAY_TO);
+    assert.deepEqual(
+      (await server.merchant.ledger.store.listShares(record.id)).map(({ tenant, address, amount }) => ({ tenant, address, amount })),
+      [
+        { tenant: "acme", address: ACME_PAY_TO, amount: "7500" },
+        { tenant: "globex", address: GLOBEX_PAY_TO, amount: "2500" },
+      ]
+    );
+
+    const revenue = await server.merchant.ledger.store.revenue("tenant");
+    assert.deepEqual(
+      revenue.map(({ key, amount }) => ({ key, amount })),
+      [
+        { key: "acme", amount: "7500" },
+        { key: "globex", amount: "2500" },
+      ]
+    );
+  });
+
+  it("shows each tenant its own revenue and the top level every tenant's", async () => {
+    const root = (await (await fetch(`${server.url}/`)).json()) as {
+      tenants: Record<string, { revenue: { amount: string } }>;
+    };
+    assert.equal(root.tenants.acme.revenue.amount, "7500");
+    assert.equal(root.tenants.globex.revenue.amount, "2500");
+
+    const acme = (await (await fetch(`${server.url}/acme/health`)).json()) as {
+      tenant: { id: string; revenue: { usd: string } };
+      routes: Record<string, unknown>;
+    };
+    assert.equal(acme.tenant.id, "acme");
+    assert.equal(acme.tenant.revenue.usd, "$0.007500");
+    assert.deepEqual(Object.keys(acme.routes).sort(), ["GET /api/data", "GET /api/weather"]);
+  });
+
+  it("rejects ambiguous tenants and bad splits", () => {
+    const issues = issuesOf(
+      registryWith({
+        tenants: [
+          { ...ACME, splits: [{ tenant: "initech", percent: 10 }] },
+          { ...GLOBEX, pathPrefix: "/acme", payTo: {} },
+        ],
+      })
+    );
+
+    assert.ok(issues.includes('tenants "acme" and "globex" share path prefix /acme'), issues.join("\n"));
+    assert.ok(issues.includes('tenant "acme" splits revenue with unknown tenant "initech"'), issues.join("\n"));
+    assert.ok(issues.includes('tenant "globex" has no payTo address for base-sepolia, which its routes accept'), issues.join("\n"));
+  });
+});
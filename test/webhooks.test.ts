@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, it } from "node:test";
+import { MemoryWebhookStore, SIGNATURE_HEADER, WebhookDispatcher, verifySignature } from "../src/webhooks";
+import { challenge, createPayer, paymentHeader, paymentRecord, startMerchant, until, type TestMerchant } from "./helpers";
+
+const SECRET = "whsec_test_secret_0123456789";
+
+/** A webhook receiver answering with `statuses` in turn, then 200. */
+async function startReceiver(statuses: number[] = []) {
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200).end();
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+type Receiver = Awaited<ReturnType<typeof startReceiver>>;
+
+describe("webhooks", () => {
+  let receiver: Receiver;
+  let server: TestMerchant | undefined;
+  let dispatcher: WebhookDispatcher | undefined;
+  afterEach(async () => {
+    dispatcher?.stop();
+    await server?.close();
+    await receiver.close();
+    server = dispatcher = undefined;
+  });
+
+  /** A dispatcher that retries after 10ms, on a memory store. */
+  async function startDispatcher(maxAttempts: number) {
+    const webhooks = new WebhookDispatcher(new MemoryWebhookStore(), {
+      maxAttempts,
+      baseDelayMs: 10,
+      maxDelayMs: 10,
+      timeoutMs: 1_000,
+      pollIntervalMs: 10,
+    });
+    webhooks.start();
+    await webhooks.register({ url: receiver.url, events: [], routes: [], description: null, secret: SECRET });
+    return webhooks;
+  }
+
+  async function delivery(webhooks: WebhookDispatcher) {
+    const [found] = await webhooks.store.listDeliveries({});
+    return found;
+  }
+
+  it("signs the events an endpoint registered for", async () => {
+    receiver = await startReceiver();
+    server = await startMerchant({ ADMIN_TOKEN: "admin-secret" });
+    const registered = await fetch(`${server.url}/admin/webhooks`, {
+      method: "POST",
+      headers: { Authorization: "Bearer admin-secret", "Content-Type": "application/json" },
+      body: JSON.stringify({ url: receiver.url, events: ["payment.settled"], secret: SECRET }),
+    });
+    assert.equal(registered.status, 201);
+
+    const { body } = await challenge(`${server.url}/api/weather`);
+    const payment = await paymentHeader(await createPayer(), body.accepts[0]);
+    assert.equal((await fetch(`${server.url}/api/weather`, { headers: { "X-PAYMENT": payment } })).status, 200);
+    await until(async () => receiver.received.length > 0);
+
+    const [{ headers, body: raw }] = receiver.received;
+    const signature = headers[SIGNATURE_HEADER.toLowerCase()] as string;
+    assert.equal(headers["x-webhook-event"], "payment.settled");
+    assert.ok(verifySignature(SECRET, signature, raw));
+    assert.equal(verifySignature("whsec_another_secret_0123", signature, raw), false);
+    assert.equal(verifySignature(SECRET, signature, raw.replace("settled", "failed")), false);
+
+    const event = JSON.parse(raw) as { type: string; data: { paymentId: string; status: string } };
+    const [record] = await server.merchant.ledger.store.list();
+    assert.equal(event.type, "payment.settled");
+    assert.equal(event.data.paymentId, record.id);
+    assert.equal(receiver.received.length, 1, "verified is not subscribed to");
+  });
+
+  it("retries a failed delivery with the same id until it is accepted", async () => {
+    receiver = await startReceiver([500, 503]);
+    dispatcher = await startDispatcher(5);
+    await dispatcher.publish(paymentRecord());
+    await until(async () => (await delivery(dispatcher!))?.status === "delivered");
+
+    const found = await delivery(dispatcher);
+    assert.equal(found.attempts, 3);
+    assert.equal(found.lastStatus, 200);
+    assert.equal(new Set(receiver.received.map(({ headers }) => headers["x-webhook-id"])).size, 1);
+    assert.equal(receiver.received[0].headers["x-webhook-id"], found.id);
+  });
+
+  it("names the tenant and the revenue shares of a tenant payment", async () => {
+    receiver = await startReceiver();
+    dispatcher = await startDispatcher(1);
+    const address = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+    const share = { paymentId: "payment", tenant: "globex", address, amount: "2500" };
+    await dispatcher.publish(paymentRecord({ tenant: "acme" }), [share]);
+    await until(async () => receiver.received.length > 0);
+
+    const { data } = JSON.parse(receiver.received[0].body) as { data: { tenant: string; shares: object[] } };
+    assert.equal(data.tenant, "acme");
+    assert.deepEqual(data.shares, [{ tenant: "globex", address, amount: "2500" }]);
+  });
+
+  it("dead-letters a delivery after maxAttempts and sends it again on replay", async () => {
+    receiver = await startReceiver([500, 500]);
+    dispatcher = await startDispatcher(2);
+    await dispatcher.publish(paymentRecord());
+    await until(async () => (await delivery(dispatcher!))?.status === "dead");
+
+    const dead = await delivery(dispatcher);
+    assert.equal(dead.attempts, 2);
+    assert.equal(dead.lastError, "HTTP 500");
+
+    const replayed = await dispatcher.replay(dead.id);
+    assert.equal(replayed?.status, "delivered");
+    assert.equal(receiver.received.length, 3);
+  });
+});